@@ -18,10 +18,25 @@ import type { Env } from "../env";
 import { kvTtlFromEnv } from "../env";
 import { emailIndexHash, legacyEmailHash, lookupEmailUuid, emailPointerKey, deletedTombstoneKey } from "../email-index";
 import { noncedHeaders, newScriptNonce, injectScriptNonce } from "../http";
-import { buildProfile, mergeSameAs } from "../domain/profile";
+import {
+  buildProfile,
+  mergeSameAs,
+  validateProfileInput,
+  localizedText,
+  splitLocalized,
+  parseTranslationLines,
+  formatTranslationLines,
+  ALL_EXTENDED_PROFILE_FIELDS,
+} from "../domain/profile";
 import { loadClaims } from "../claims/store";
 import { formatErrorHtml } from "../claims/errors";
 import { xClaimOptionHtml } from "../claims/handlers";
+import { seedHistory, seedHistories, seedRelatedHistory, recordRevision, historyKeys } from "../history";
+import { syncCredentialStatus } from "../claims/credentials";
+import { syncOutgoingRelations, detachRelations, notifyRelationRequest, relationsKey } from "../relations";
+import { successionKey, loadSuccession } from "../succession";
+import { eventsKey, recordProfileEvent } from "../events";
+import { recordChange } from "../changes";
 
 // ------------------ Cookie auth ------------------
 
@@ -282,7 +297,7 @@ async function appendAuditLog(
 
 // Compute which fields changed between two profile objects
 function computeChangedFields(before: any, after: any): string[] {
-  const fields = ["name", "alternateName", "url", "description", "sameAs", "founder", "foundingDate", "affiliation"];
+  const fields = ["name", "alternateName", "url", "description", "sameAs", "founder", "foundingDate", "affiliation", ...ALL_EXTENDED_PROFILE_FIELDS];
   const changed: string[] = [];
 
   for (const field of fields) {
@@ -518,7 +533,7 @@ function sortProfiles<T extends { uuid: string; profile: any }>(
   return [...items].sort((a, b) => {
     let av: string, bv: string;
     switch (field) {
-      case "name":     av = (a.profile?.name || "").toLowerCase(); bv = (b.profile?.name || "").toLowerCase(); break;
+      case "name":     av = localizedText(a.profile?.name).toLowerCase(); bv = localizedText(b.profile?.name).toLowerCase(); break;
       case "type":     av = a.profile?.["@type"] || ""; bv = b.profile?.["@type"] || ""; break;
       case "modified": av = a.profile?.dateModified || ""; bv = b.profile?.dateModified || ""; break;
       default:         av = a.profile?.dateCreated || ""; bv = b.profile?.dateCreated || ""; break;
@@ -678,7 +693,7 @@ export async function handleAdminHome(req: Request, env: Env): Promise<Response>
       const { uuid, profile, email, regIp, audit } = data;
       const uuidShort = uuid.slice(0, 8);
       const type = profile?.["@type"] === "Organization" ? "🏢 Org" : "👤 Person";
-      const name = profile?.name ? escapeHtml(profile.name) : "(unnamed)";
+      const name = profile?.name ? escapeHtml(localizedText(profile.name)) : "(unnamed)";
       const emailDisplay = formatEmailForDisplay(email);
       const ipDisplay = regIp ? escapeHtml(regIp) : '<span style="color:#999">(expired)</span>';
       const verifiedDisplay = profile?._emailVerified ? "✅" : '<span style="color:#999">✗</span>';
@@ -990,6 +1005,8 @@ export async function handleAdminNewPost(req: Request, env: Env): Promise<Respon
 
   // Audit log for profile creation
   await appendAuditLog(env, uuid, req, "create", "admin", undefined, "Profile created");
+  await recordRevision(env, uuid, "create");
+  await recordChange(env, uuid, "create", profileWithMeta.dateModified);
 
   return new Response(null, {
     status: 303,
@@ -1013,7 +1030,7 @@ export async function handleAdminCreatedGet(req: Request, env: Env, uuid: string
   const stored = (await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" })) as any | null;
   if (!stored) return new Response("Not found", { status: 404 });
 
-  const name = stored.name || "(unnamed)";
+  const name = localizedText(stored.name) || "(unnamed)";
 
   const html = `<!doctype html>
 <html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
@@ -1125,6 +1142,7 @@ export async function handleAdminEditGet(req: Request, env: Env, uuid: string):
   const url = new URL(req.url);
   const success = url.searchParams.get("success") || "";
   const error = url.searchParams.get("error") || "";
+  const invalidFields = url.searchParams.get("fields") || "";
 
   const csrfState = ensureCsrfToken(req);
 
@@ -1157,10 +1175,16 @@ export async function handleAdminEditGet(req: Request, env: Env, uuid: string):
       .filter(Boolean);
   };
 
-  const name = canonical.name || "";
-  const alternateName = Array.isArray(canonical.alternateName) ? canonical.alternateName : [];
+  // Localized text: default-language values in the main inputs, other
+  // languages as "tag: text" lines
+  const nameParts = splitLocalized(canonical.name);
+  const descParts = splitLocalized(canonical.description);
+  const defaultLanguage = nameParts.language || descParts.language;
+  const altParts = splitLocalized(canonical.alternateName, defaultLanguage);
+  const name = nameParts.texts[0] || "";
+  const alternateName = altParts.texts;
   const urlVal = canonical.url || "";
-  const desc = canonical.description || "";
+  const desc = descParts.texts[0] || "";
   const emailHash = stored?._emailHash || null;
   const backupTokenHash = stored?._backupTokenHash || null;
 
@@ -1176,6 +1200,10 @@ export async function handleAdminEditGet(req: Request, env: Env, uuid: string):
   const foundingDate = isOrg ? ((canonical as any).foundingDate || "") : "";
   const affiliation = !isOrg ? extractUuids((canonical as any).affiliation) : [];
 
+  // Extended fields
+  const ext = canonical as any;
+  const knowsAbout: string[] = Array.isArray(ext.knowsAbout) ? ext.knowsAbout : [];
+
   // Unverified profiles are always deletable; verified profiles are protected after 7 days
   const isVerified = !!stored._emailVerified;
   const createdDate = canonical.dateCreated ? new Date(canonical.dateCreated) : null;
@@ -1195,6 +1223,8 @@ export async function handleAdminEditGet(req: Request, env: Env, uuid: string):
     invalid_url: "One or more URLs are invalid.",
     invalid_email: "Please enter a valid email address.",
     email_exists: "This email is already associated with another profile.",
+    invalid_profile: `Invalid value for: ${invalidFields || "one or more fields"}. Check formats and lengths.`,
+    superseded: "This profile has been superseded. Edit its successor instead.",
   };
 
   const html = `<!doctype html>
@@ -1396,6 +1426,27 @@ ${error ? `<div class="alert alert-error">${escapeHtml(errorMessages[error] || e
       <div class="hint">A short description of this ${isOrg ? "organization" : "person"}.</div>
       <div class="hint" style="color:#777;font-size:12px">Keep it concise. The canonical profile is intentionally small.</div>
     </div>
+
+    <div class="card">
+      <label>Language (optional)</label>
+      <input name="defaultLanguage" maxlength="35" value="${escapeHtml(defaultLanguage)}" placeholder="e.g., en">
+      <div class="hint">BCP 47 tag of the name, alternate names and description above.</div>
+      <div class="hint" style="color:#777;font-size:12px">Leave empty to publish them without a language.</div>
+    </div>
+
+    <div class="card">
+      <label>Translations (one <code>tag: text</code> per line)</label>
+      <textarea name="nameTranslations" placeholder="Name, e.g. ja: マイカル">${escapeHtml(formatTranslationLines(nameParts.translations))}</textarea>
+      <textarea name="alternateNameTranslations" placeholder="Alternate names" style="margin-top:6px">${escapeHtml(formatTranslationLines(altParts.translations))}</textarea>
+      <textarea name="descriptionTranslations" placeholder="Description" style="margin-top:6px">${escapeHtml(formatTranslationLines(descParts.translations))}</textarea>
+      <div class="hint">One name and one description per language.</div>
+    </div>
+
+    <div class="card">
+      <label>Public contact email (optional)</label>
+      <input name="contactEmail" type="email" maxlength="254" value="${escapeHtml(ext.email || "")}" placeholder="contact@example.com">
+      <div class="hint">Published in the public record. Not the login email.</div>
+    </div>
   </div>
 
 ${isOrg ? `
@@ -1413,6 +1464,17 @@ ${isOrg ? `
       <input type="date" name="foundingDate" value="${escapeHtml(foundingDate)}">
       <div class="hint">The date this organization was founded.</div>
     </div>
+
+    <div class="card">
+      <label>Legal name (optional)</label>
+      <input name="legalName" maxlength="200" value="${escapeHtml(ext.legalName || "")}">
+      <div class="hint">The registered name, if it differs from the name.</div>
+    </div>
+
+    <div class="card">
+      <label>Logo URL (optional)</label>
+      <input name="logo" maxlength="2048" value="${escapeHtml(ext.logo || "")}" placeholder="https://example.com/logo.png">
+    </div>
   </div>
 ` : `
   <h2 style="margin-top:24px;font-size:18px">Person Fields</h2>
@@ -1423,6 +1485,22 @@ ${isOrg ? `
       <div class="hint">AnchorID UUIDs of organizations this person is affiliated with.</div>
       <div class="hint" style="color:#777;font-size:12px">Enter just the UUID (e.g., 4ff7ed97-b78f-4ae6-9011-5af714ee241c).</div>
     </div>
+
+    <div class="card">
+      <label>Job title (optional)</label>
+      <input name="jobTitle" maxlength="100" value="${escapeHtml(ext.jobTitle || "")}">
+    </div>
+
+    <div class="card">
+      <label>Photo URL (optional)</label>
+      <input name="image" maxlength="2048" value="${escapeHtml(ext.image || "")}" placeholder="https://example.com/me.jpg">
+    </div>
+
+    <div class="card">
+      <label>Areas of expertise (one per line)</label>
+      <textarea name="knowsAbout" placeholder="One topic per line">${escapeHtml(knowsAbout.join("\n"))}</textarea>
+      <div class="hint" style="color:#777;font-size:12px">Up to 20 topics, 100 characters each.</div>
+    </div>
   </div>
 `}
 
@@ -1503,6 +1581,16 @@ ${claims.length === 0 ? `<div class="card" style="margin:14px 0">
         <div style="margin-top:8px;font-size:12px;color:#555">
           <strong>Proof location:</strong> <code style="font-size:11px">${escapeHtml((c.proof as any).url || "")}</code>
         </div>`;
+    } else if (c.proof.kind === "rel_me") {
+      proofDetails = `
+        <div style="margin-top:8px;font-size:12px;color:#555">
+          <strong>Proof location:</strong> rel="me" link on <code style="font-size:11px">${escapeHtml(c.proof.url)}</code>
+        </div>`;
+    } else if (c.proof.kind === "meta_tag") {
+      proofDetails = `
+        <div style="margin-top:8px;font-size:12px;color:#555">
+          <strong>Proof location:</strong> &lt;meta name="anchorid"&gt; in the head of <code style="font-size:11px">${escapeHtml(c.proof.url)}</code>
+        </div>`;
     } else if (c.proof.kind === "github_readme") {
       proofDetails = `
         <div style="margin-top:8px;font-size:12px;color:#555">
@@ -1563,6 +1651,8 @@ ${claims.length === 0 ? `<div class="card" style="margin:14px 0">
       </label>
       <select name="type" id="claimType" style="width:100%;padding:8px;border:1px solid #ddd;border-radius:6px;margin-bottom:12px">
         <option value="website">Website (.well-known/anchorid.txt)</option>
+        <option value="website_rel_me">Website (rel="me" link on home page)</option>
+        <option value="website_meta_tag">Website (&lt;meta&gt; tag in home page head)</option>
         <option value="github">GitHub (profile README)</option>
         <option value="dns">DNS (TXT record)</option>
         <option value="public">Public Profile (bio/description)</option>
@@ -1581,6 +1671,18 @@ ${claims.length === 0 ? `<div class="card" style="margin:14px 0">
         <code style="font-size:11px">anchorid=urn:uuid:${escapeHtml(uuid)}</code>
       </div>
 
+      <div id="relMeHint" style="display:none;font-size:12px;color:#555;margin-bottom:12px;padding:10px;background:#fff;border:1px solid #e0e0e0;border-radius:6px">
+        <strong>rel="me" Setup Instructions:</strong><br>
+        Add this to your home page's <code>&lt;head&gt;</code>, or as a visible link with <code>rel="me"</code>:<br>
+        <code style="font-size:11px">&lt;link rel="me" href="https://anchorid.net/resolve/${escapeHtml(uuid)}"&gt;</code>
+      </div>
+
+      <div id="metaTagHint" style="display:none;font-size:12px;color:#555;margin-bottom:12px;padding:10px;background:#fff;border:1px solid #e0e0e0;border-radius:6px">
+        <strong>Meta Tag Setup Instructions:</strong><br>
+        Add this inside the <code>&lt;head&gt;</code> of your home page (site builders often call it custom head code or header injection):<br>
+        <code style="font-size:11px">&lt;meta name="anchorid" content="urn:uuid:${escapeHtml(uuid)}"&gt;</code>
+      </div>
+
       <div id="xHint" style="display:none;font-size:12px;color:#555;margin-bottom:12px;padding:10px;background:#fff;border:1px solid #e0e0e0;border-radius:6px">
         <strong>X Setup Instructions:</strong><br>
         Add this link to your X bio, or to the website field on your profile:<br>
@@ -1667,15 +1769,27 @@ ${(() => {
     const urlInput = document.getElementById("claimUrl");
     const dnsHint = document.getElementById("dnsHint");
     const xHint = document.getElementById("xHint");
+    const relMeHint = document.getElementById("relMeHint");
+    const metaTagHint = document.getElementById("metaTagHint");
 
-    // Reset both hint boxes, then let the matching branch show its own.
+    // Reset the hint boxes, then let the matching branch show its own.
     dnsHint.style.display = "none";
+    relMeHint.style.display = "none";
+    metaTagHint.style.display = "none";
     if (xHint) xHint.style.display = "none";
 
     if (type === "website") {
       urlLabel.textContent = "Website URL";
       urlInput.placeholder = "https://example.com";
       dnsHint.style.display = "none";
+    } else if (type === "website_rel_me") {
+      urlLabel.textContent = "Website URL";
+      urlInput.placeholder = "https://example.com";
+      relMeHint.style.display = "block";
+    } else if (type === "website_meta_tag") {
+      urlLabel.textContent = "Website URL";
+      urlInput.placeholder = "https://example.com";
+      metaTagHint.style.display = "block";
     } else if (type === "github") {
       urlLabel.textContent = "GitHub Profile URL";
       urlInput.placeholder = "https://github.com/username";
@@ -1704,10 +1818,14 @@ ${(() => {
     statusEl.style.color = "#666";
 
     const formData = new FormData(e.target);
+    const selected = formData.get("type");
+    // Website options other than the default name their proof method.
+    const proof = { website_rel_me: "rel_me", website_meta_tag: "meta_tag" }[selected];
     const payload = {
       uuid: formData.get("uuid"),
-      type: formData.get("type"),
-      url: formData.get("url")
+      type: proof ? "website" : selected,
+      url: formData.get("url"),
+      proof
     };
 
     try {
@@ -1876,7 +1994,12 @@ ${isDeletable ? `
       <li>Email mapping (<code>email:&lt;hash&gt;</code>)</li>
       <li>Claims ledger (<code>claims:${escapeHtml(uuid)}</code>)</li>
       <li>Audit log (<code>audit:${escapeHtml(uuid)}</code>)</li>
+      <li>Public change feed (<code>events:${escapeHtml(uuid)}</code>)</li>
+      <li>Revision history (<code>history:${escapeHtml(uuid)}</code>, <code>revision:${escapeHtml(uuid)}:*</code>)</li>
+      <li>Relations (<code>relations:${escapeHtml(uuid)}</code>, and this profile's entries on the other side)</li>
+      <li>Succession marker (<code>succession:${escapeHtml(uuid)}</code>)</li>
     </ul>
+    <p style="margin:8px 0;font-size:13px;color:#555">Issued claim credentials are revoked; the status list (<code>vcstatus:${escapeHtml(uuid)}</code>) is kept so verifiers can see it.</p>
   </details>
 
   <form method="post" action="/admin/delete/${escapeHtml(uuid)}" id="deleteProfileForm"
@@ -2029,7 +2152,15 @@ export async function handleAdminSavePost(
     });
   }
 
-  // Regular profile update
+  // Regular profile update. As on /update, nothing of a superseded profile
+  // is published any more, and saving would re-open its relations.
+  if (await loadSuccession(env, uuid)) {
+    return new Response(null, {
+      status: 303,
+      headers: { Location: `/admin/edit/${uuid}?error=superseded`, "cache-control": "no-store" },
+    });
+  }
+
   const input: Record<string, unknown> = {
     name: fd.get("name"),
     alternateName: fd.get("alternateName"), // string with newlines is OK
@@ -2038,10 +2169,40 @@ export async function handleAdminSavePost(
     description: fd.get("description"),
   };
 
+  // Translations are appended as language-tagged values
+  if (fd.has("defaultLanguage")) input.defaultLanguage = fd.get("defaultLanguage");
+  const nameTranslations = parseTranslationLines(fd.get("nameTranslations"));
+  const alternateNameTranslations = parseTranslationLines(fd.get("alternateNameTranslations"));
+  const descriptionTranslations = parseTranslationLines(fd.get("descriptionTranslations"));
+  if (nameTranslations.length) input.name = [input.name, ...nameTranslations];
+  if (alternateNameTranslations.length) {
+    const lines = String(input.alternateName || "").split(/\r?\n/);
+    input.alternateName = [...lines, ...alternateNameTranslations];
+  }
+  if (descriptionTranslations.length) input.description = [input.description, ...descriptionTranslations];
+
   // Include entity-specific fields if present in the form
   if (fd.has("founder")) input.founder = fd.get("founder");
   if (fd.has("foundingDate")) input.foundingDate = fd.get("foundingDate");
   if (fd.has("affiliation")) input.affiliation = fd.get("affiliation");
+  // The public contact email is "contactEmail" here: "email" is the login
+  // email form above.
+  if (fd.has("contactEmail")) input.email = fd.get("contactEmail");
+  for (const field of ALL_EXTENDED_PROFILE_FIELDS) {
+    if (field !== "email" && fd.has(field)) input[field] = fd.get(field);
+  }
+
+  const invalid = validateProfileInput(input, stored["@type"] === "Organization" ? "Organization" : "Person");
+  if (invalid.length) {
+    const fields = [...new Set(invalid.map((e) => e.field))].join(",");
+    return new Response(null, {
+      status: 303,
+      headers: {
+        Location: `/admin/edit/${uuid}?error=invalid_profile&fields=${encodeURIComponent(fields)}`,
+        "cache-control": "no-store",
+      },
+    });
+  }
 
   const { profile: next, changed } = buildProfile(uuid, stored, input, [], {
     persistMergedSameAs: false,
@@ -2065,13 +2226,28 @@ export async function handleAdminSavePost(
       ...(stored._backupTokenHash ? { _backupTokenHash: stored._backupTokenHash } : {}),
       ...(stored._email ? { _email: stored._email } : {}),
       ...(stored._emailVerified ? { _emailVerified: stored._emailVerified } : {}),
+      ...(stored._claimsRemovedAt ? { _claimsRemovedAt: stored._claimsRemovedAt } : {}),
     };
 
+    await seedHistory(env, uuid);
     await env.ANCHOR_KV.put(`profile:${uuid}`, JSON.stringify(profileWithMeta));
+    // Before the revision, so it captures the new references' status
+    const relations = await syncOutgoingRelations(env, uuid, next, (uuids) => seedHistories(env, uuids));
 
     // Audit log
     const changedFields = computeChangedFields(stored, next);
     await appendAuditLog(env, uuid, req, "update", "admin", changedFields);
+    await recordRevision(env, uuid, "update", changedFields);
+    await recordProfileEvent(env, uuid, stored, next);
+    await recordChange(env, uuid, "update", next.dateModified);
+
+    for (const relation of relations.created) {
+      await notifyRelationRequest(env, relation, localizedText(next.name));
+    }
+    for (const relation of relations.dropped) {
+      await recordRevision(env, relation.target, "relations");
+      await recordChange(env, relation.target, "relations");
+    }
 
     return new Response(null, {
       status: 303,
@@ -2120,7 +2296,7 @@ export async function handleAdminRotateToken(
   // Audit log for token rotation
   await appendAuditLog(env, uuid, req, "rotate_token", "admin", undefined, "Backup token rotated");
 
-  const name = stored.name || "(unnamed)";
+  const name = localizedText(stored.name) || "(unnamed)";
 
   const html = `<!doctype html>
 <html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
@@ -2227,6 +2403,10 @@ export async function handleAdminDelete(
     `created:${uuid}`,
     `email:unhashed:${uuid}`,
     `ip:${uuid}`,
+    relationsKey(uuid),
+    successionKey(uuid),
+    eventsKey(uuid),
+    ...(await historyKeys(env, uuid)),
   ];
 
   // Delete email mapping if it exists
@@ -2252,15 +2432,27 @@ export async function handleAdminDelete(
 
   // Tombstone only once every fallible read above has succeeded — it is
   // permanent, so writing it and then failing before the deletes would
-  // strand a live profile's email login after the grace period. From here
-  // on, the only remaining steps are the deletes themselves.
+  // strand a live profile's email login after the grace period. Every write
+  // after it is safe to repeat: until the deletes land the profile is still
+  // stored, so deleting it again finishes the job.
   await env.ANCHOR_KV.put(deletedTombstoneKey(uuid), new Date().toISOString());
 
+  // Revoke issued credentials; the status list itself is kept
+  await syncCredentialStatus(env, uuid, []);
+  // Drop relations at the other profiles' ends too
+  await seedRelatedHistory(env, uuid);
+  const detached = await detachRelations(env, uuid);
+
   // Delete all keys in parallel
   await Promise.all(keysToDelete.map(key => env.ANCHOR_KV.delete(key)));
+  await recordChange(env, uuid, "delete");
+  for (const other of detached) {
+    await recordRevision(env, other, "relations");
+    await recordChange(env, other, "relations");
+  }
 
   // Redirect to admin home with success message
-  const name = stored.name || uuid.slice(0, 8);
+  const name = localizedText(stored.name) || uuid.slice(0, 8);
   return new Response(null, {
     status: 303,
     headers: {
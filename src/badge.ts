@@ -0,0 +1,192 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Verification badges: /badge/<uuid>.svg
+ *
+ * A small shields-style SVG for READMEs and site footers: "AnchorID" on the
+ * left, the profile's name (or short UUID) and its number of verified claims
+ * on the right. The image itself cannot carry a link, so embedders wrap it
+ * in one pointing at the claims ledger:
+ *
+ *   [![AnchorID](https://anchorid.net/badge/<uuid>.svg)](https://anchorid.net/claims/<uuid>)
+ *
+ * Query options:
+ *   ?type=<claim type>          one claim type's status ("github verified")
+ *   ?style=flat|flat-square     rounded (default) or square corners
+ *   ?size=small|medium|large    20px (default), 24px or 28px tall
+ *
+ * There is no font metric table in a Worker, so text widths are estimated
+ * per character class; generous padding hides the error.
+ */
+
+import type { Env } from "./env";
+import type { ClaimType } from "./claims/types";
+import { claimsLastModified, isUuid, loadClaims } from "./claims/store";
+import { localizedText } from "./domain/profile";
+import { conditionalResponse, embeddableImageHeaders, latestIso } from "./http";
+import { loadSuccession } from "./succession";
+
+export type BadgeStyle = "flat" | "flat-square";
+export type BadgeSize = "small" | "medium" | "large";
+
+export interface BadgeOptions {
+  style: BadgeStyle;
+  size: BadgeSize;
+  /** Claim type to report on instead of the total. */
+  type?: ClaimType;
+}
+
+const SIZES: Record<BadgeSize, { height: number; font: number; pad: number }> = {
+  small: { height: 20, font: 11, pad: 6 },
+  medium: { height: 24, font: 13, pad: 7 },
+  large: { height: 28, font: 15, pad: 8 },
+};
+
+const BADGE_CLAIM_TYPES: ClaimType[] = ["website", "github", "dns", "public", "x"];
+
+const COLORS = { label: "#555", verified: "#2e9e57", unverified: "#9f9f9f" };
+
+const MAX_NAME_CHARS = 32;
+
+/** Badge options from the query string; unknown values fall back to defaults. */
+export function parseBadgeOptions(params: URLSearchParams): BadgeOptions {
+  const style = params.get("style") === "flat-square" ? "flat-square" : "flat";
+  const size = params.get("size");
+  const type = (params.get("type") || "").toLowerCase();
+  return {
+    style,
+    size: size === "medium" || size === "large" ? size : "small",
+    // "social" is the legacy name for "public"
+    ...(type === "social" ? { type: "public" } : BADGE_CLAIM_TYPES.includes(type as ClaimType) ? { type: type as ClaimType } : {}),
+  };
+}
+
+function xmlEscape(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Approximate rendered width of `text` in Verdana at `font` px. */
+function textWidth(text: string, font: number): number {
+  let em = 0;
+  for (const ch of text) {
+    if (/[iljtf.,:;'!|I ]/.test(ch)) em += 0.35;
+    else if (/[mwMW@]/.test(ch)) em += 0.9;
+    else if (/[A-Z0-9]/.test(ch)) em += 0.68;
+    else if (ch.charCodeAt(0) > 0x2e80) em += 1; // CJK and other full-width
+    else em += 0.58;
+  }
+  return Math.ceil(em * font);
+}
+
+function truncate(name: string): string {
+  const chars = [...name.trim()];
+  return chars.length > MAX_NAME_CHARS ? chars.slice(0, MAX_NAME_CHARS - 1).join("") + "…" : chars.join("");
+}
+
+/**
+ * Render a badge. `message` is the right-hand text; `verified` picks its
+ * colour. Pure: callers decide what to say.
+ */
+export function renderBadgeSvg(label: string, message: string, verified: boolean, options: BadgeOptions): string {
+  const { height, font, pad } = SIZES[options.size];
+  const labelWidth = textWidth(label, font) + pad * 2;
+  const messageWidth = textWidth(message, font) + pad * 2;
+  const width = labelWidth + messageWidth;
+  const radius = options.style === "flat-square" ? 0 : 3;
+  const baseline = Math.round(height / 2 + font * 0.35);
+  const color = verified ? COLORS.verified : COLORS.unverified;
+  const title = `${label}: ${message}`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${xmlEscape(title)}">
+  <title>${xmlEscape(title)}</title>
+  <clipPath id="r"><rect width="${width}" height="${height}" rx="${radius}"/></clipPath>
+  <g clip-path="url(#r)">
+    <rect width="${labelWidth}" height="${height}" fill="${COLORS.label}"/>
+    <rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${color}"/>
+  </g>
+  <g fill="#fff" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="${font}" text-anchor="middle">
+    <text x="${labelWidth / 2}" y="${baseline}">${xmlEscape(label)}</text>
+    <text x="${labelWidth + messageWidth / 2}" y="${baseline}">${xmlEscape(message)}</text>
+  </g>
+</svg>
+`;
+}
+
+async function badgeResponse(
+  request: Request,
+  svg: string,
+  status: number,
+  lastModified: string | null
+): Promise<Response> {
+  const headers = {
+    "content-type": "image/svg+xml; charset=utf-8",
+    // Badges are fetched through image proxies (GitHub's camo) that honour
+    // these; a verification shows up within the hour.
+    "cache-control": status === 200
+      ? "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400"
+      : "public, max-age=60, s-maxage=300",
+    "access-control-allow-origin": "*",
+    ...embeddableImageHeaders(),
+  };
+  if (status !== 200) return new Response(svg, { status, headers });
+  return conditionalResponse(request, svg, headers, lastModified);
+}
+
+/** GET /badge/<uuid>.svg */
+export async function handleBadge(request: Request, env: Env, uuid: string): Promise<Response> {
+  const options = parseBadgeOptions(new URL(request.url).searchParams);
+  if (!isUuid(uuid)) {
+    return badgeResponse(request, renderBadgeSvg("AnchorID", "invalid", false, options), 400, null);
+  }
+  const u = uuid.toLowerCase();
+
+  const profile = (await env.ANCHOR_KV.get(`profile:${u}`, { type: "json" })) as any | null;
+  if (!profile) {
+    return badgeResponse(request, renderBadgeSvg("AnchorID", "not found", false, options), 404, null);
+  }
+
+  // Like /resolve, a superseded profile publishes nothing but the fact.
+  const succession = await loadSuccession(env, u);
+  if (succession) {
+    return badgeResponse(request, renderBadgeSvg("AnchorID", "superseded", false, options), 200, succession.at);
+  }
+
+  const name = truncate(localizedText(profile.name) || u.slice(0, 8));
+
+  const claims = await loadClaims(env, u);
+  const verified = claims.filter((c) => c.status === "verified");
+  const lastModified = latestIso([profile.dateModified, claimsLastModified(claims, profile)]);
+
+  let message: string;
+  let ok: boolean;
+  if (options.type) {
+    const type = options.type;
+    ok = verified.some((c) => c.type === type || (type === "public" && c.type === "social"));
+    message = `${name} · ${type} ${ok ? "verified" : "unverified"}`;
+  } else {
+    ok = verified.length > 0;
+    message = ok ? `${name} · ${verified.length} verified` : `${name} · unverified`;
+  }
+
+  return badgeResponse(request, renderBadgeSvg("AnchorID", message, ok, options), 200, lastModified);
+}
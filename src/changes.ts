@@ -0,0 +1,219 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Global change stream: /changes?since=<cursor>
+ *
+ * Lets mirrors and crawlers follow every UUID whose public record or claims
+ * ledger changed without re-resolving everything. Each change is its own KV
+ * key, so concurrent writers never overwrite each other:
+ *
+ *   changelog:<ISO 8601 ms>:<uuid>:<nonce> → ChangeEntry (also as metadata)
+ *
+ * KV lists keys in lexicographic order, which for these keys is time order,
+ * but cannot start a listing at an arbitrary key. Reads therefore list one
+ * UTC hour (the `changelog:<date>T<hh>` prefix) at a time, and a day with
+ * nothing in it costs one probe. A cursor is a position in that order: a
+ * timestamp, or the tail of the last key returned. When a page ends inside
+ * an hour, the cursor also carries the KV list cursor ("<tail>~<kv>"), so the
+ * next page resumes there instead of re-listing the hour from its start.
+ * Each request makes at most MAX_LISTS_PER_PAGE list calls.
+ *
+ * KV listings are eventually consistent, so a key written a moment ago can
+ * be missing from a listing that already shows later ones. Pages stop short
+ * of the last CHANGES_SETTLE_SECONDS (default 60): a cursor never moves past
+ * a change that might still appear.
+ *
+ * The log is append-only and global; profile deletion adds a "delete" entry
+ * rather than removing the earlier ones, which carry nothing but the UUID.
+ */
+
+import type { Env } from "./env";
+import { intFromEnv } from "./env";
+import { securityHeaders } from "./http";
+
+export type ChangeType = "create" | "update" | "claims" | "relations" | "succession" | "delete";
+
+export interface ChangeEntry {
+  uuid: string;
+  type: ChangeType;
+  /** The record's dateModified, or when the change happened for claims and deletions. */
+  dateModified: string;
+  at: string; // ISO 8601; when the change was logged
+}
+
+const CHANGELOG_PREFIX = "changelog:";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+/** KV list calls per request before handing back a cursor. */
+const MAX_LISTS_PER_PAGE = 50;
+
+const CURSOR = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z(:[0-9a-f-]{36}:[0-9a-f]+)?(~[A-Za-z0-9+/=_.-]+)?$/;
+
+function nonce(): string {
+  const bytes = new Uint8Array(4);
+  crypto.getRandomValues(bytes);
+  return [...bytes].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Append a change for `uuid`. `dateModified` defaults to now. */
+export async function recordChange(env: Env, uuid: string, type: ChangeType, dateModified?: string): Promise<void> {
+  const at = new Date().toISOString();
+  const entry: ChangeEntry = { uuid: uuid.toLowerCase(), type, dateModified: dateModified || at, at };
+  await env.ANCHOR_KV.put(`${CHANGELOG_PREFIX}${at}:${entry.uuid}:${nonce()}`, JSON.stringify(entry), {
+    metadata: entry,
+  });
+}
+
+function startOfNextDay(day: string): string {
+  const d = new Date(`${day}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+}
+
+function startOfNextHour(hour: string): string {
+  return new Date(Date.parse(`${hour}:00:00.000Z`) + 3600_000).toISOString();
+}
+
+/**
+ * One hour of the log, resuming at `cursor`. A KV cursor is only handed out
+ * when more keys follow, so one that errors or yields nothing is expired or
+ * hand-made: the hour is listed again and the caller skips by key.
+ */
+async function listHour(env: Env, hour: string, cursor: string | undefined, limit: number) {
+  const prefix = `${CHANGELOG_PREFIX}${hour}`;
+  if (cursor) {
+    const page = await env.ANCHOR_KV.list<ChangeEntry>({ prefix, cursor, limit }).catch(() => null);
+    if (page?.keys.length) return page;
+  }
+  return env.ANCHOR_KV.list<ChangeEntry>({ prefix, limit });
+}
+
+/**
+ * Position to read from: a cursor as given, any other parseable date as
+ * its ISO form, null when `since` is malformed.
+ */
+export function parseSince(since: string): string | null {
+  if (CURSOR.test(since)) return since;
+  const ms = Date.parse(since);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+export interface ChangesPage {
+  changes: Array<ChangeEntry & { cursor: string }>;
+  cursor: string;
+  more: boolean;
+}
+
+/**
+ * Changes after `position` and before `bound` (both ISO 8601 or cursors),
+ * oldest first. A null position starts at the first logged change.
+ */
+export async function readChanges(env: Env, position: string | null, bound: string, limit: number): Promise<ChangesPage> {
+  if (position === null) {
+    const first = await env.ANCHOR_KV.list({ prefix: CHANGELOG_PREFIX, limit: 1 });
+    if (!first.keys.length) return { changes: [], cursor: bound, more: false };
+    position = `${first.keys[0].name.slice(CHANGELOG_PREFIX.length, CHANGELOG_PREFIX.length + 13)}:00:00.000Z`;
+  }
+
+  const changes: ChangesPage["changes"] = [];
+  const lastHour = bound.slice(0, 13);
+  let [tail, kvCursor] = position.split("~") as [string, string | undefined];
+  let hour = tail.slice(0, 13);
+  let lists = 0;
+  const cursorHere = () => (kvCursor ? `${tail}~${kvCursor}` : tail);
+
+  while (hour <= lastHour) {
+    // At the start of a day, one probe skips it if empty or finds its first hour.
+    const day = hour.slice(0, 10);
+    if (!kvCursor && tail === `${day}T00:00:00.000Z`) {
+      if (++lists > MAX_LISTS_PER_PAGE) return { changes, cursor: tail, more: true };
+      const probe = await env.ANCHOR_KV.list({ prefix: `${CHANGELOG_PREFIX}${day}`, limit: 1 });
+      const firstHour = probe.keys[0]?.name.slice(CHANGELOG_PREFIX.length, CHANGELOG_PREFIX.length + 13);
+      if (firstHour && firstHour <= lastHour) {
+        hour = firstHour;
+        tail = `${hour}:00:00.000Z`;
+      } else if (firstHour || day === lastHour.slice(0, 10)) {
+        // Nothing settled is left before the bound.
+        return { changes, cursor: bound, more: false };
+      } else {
+        tail = startOfNextDay(day);
+        hour = tail.slice(0, 13);
+        continue;
+      }
+    }
+
+    do {
+      if (++lists > MAX_LISTS_PER_PAGE) return { changes, cursor: cursorHere(), more: true };
+      const page = await listHour(env, hour, kvCursor, limit - changes.length);
+      for (const key of page.keys) {
+        const keyTail = key.name.slice(CHANGELOG_PREFIX.length);
+        if (keyTail <= tail) continue;
+        // Not settled yet; every settled change before it has been read.
+        if (keyTail.slice(0, 24) >= bound) return { changes, cursor: bound, more: false };
+
+        const entry = key.metadata ?? ((await env.ANCHOR_KV.get(key.name, { type: "json" })) as ChangeEntry | null);
+        tail = keyTail;
+        if (entry) changes.push({ ...entry, cursor: keyTail });
+      }
+      kvCursor = page.list_complete ? undefined : page.cursor;
+      if (changes.length >= limit) {
+        // A finished hour before the bound's is settled: the next page starts after it.
+        if (!kvCursor && hour < lastHour) tail = startOfNextHour(hour);
+        return { changes, cursor: cursorHere(), more: true };
+      }
+    } while (kvCursor);
+
+    if (hour === lastHour) return { changes, cursor: bound, more: false };
+    tail = startOfNextHour(hour);
+    hour = tail.slice(0, 13);
+  }
+
+  // A cursor from the future (clock skew, hand-made): nothing to read yet.
+  return { changes, cursor: tail, more: false };
+}
+
+/** GET /changes?since=<cursor>&limit=<n> */
+export async function handleChanges(request: Request, env: Env): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const headers = {
+    "content-type": "application/json; charset=utf-8",
+    "access-control-allow-origin": "*",
+    ...securityHeaders(),
+  };
+
+  const since = params.get("since");
+  const position = since ? parseSince(since) : null;
+  if (since && !position) {
+    return new Response(JSON.stringify({ error: "invalid_since" }, null, 2), {
+      status: 400,
+      headers: { ...headers, "cache-control": "no-store" },
+    });
+  }
+
+  const limit = Math.min(Math.max(intFromEnv(params.get("limit") ?? undefined, DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const settleMs = intFromEnv(env.CHANGES_SETTLE_SECONDS, 60) * 1000;
+  const bound = new Date(Date.now() - settleMs).toISOString();
+
+  const page = await readChanges(env, position, bound, limit);
+  const next = `https://anchorid.net/changes?since=${encodeURIComponent(page.cursor)}`;
+  return new Response(JSON.stringify({ ...page, next }, null, 2), {
+    headers: { ...headers, "cache-control": "public, max-age=30" },
+  });
+}
@@ -0,0 +1,276 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * W3C Verifiable Credentials for verified claims.
+ *
+ * Each verified claim gets a VC Data Model 2.0 credential secured as a JWT
+ * (VC-JOSE-COSE, typ "vc+jwt") with the same Ed25519 key as signed
+ * responses, so the JWKS at /.well-known/jwks.json verifies both.
+ *
+ * Revocation uses a Bitstring Status List, one per identity:
+ *
+ *   vcstatus:<uuid> → CredentialStatusStore
+ *
+ * Every issuance takes a fresh index. syncCredentialStatus() runs after any
+ * claims write and reconciles the store with the ledger: a verified claim
+ * without a live entry gets one, an entry whose claim is no longer verified
+ * (failed, re-asserted, deleted) is revoked. Re-checks that keep a claim
+ * verified leave its entry alone, so a credential stays valid across them.
+ * Claims verified before credentials existed get their entry from the daily
+ * cron (reconcileCredentialStatus); reads never write.
+ *
+ * A revoked entry is reduced to its bit in `revoked`, so the store holds one
+ * entry per verified claim plus a bitstring that never outgrows the status
+ * list. Indexes are never reused; once an identity has used all
+ * MAX_STATUS_INDEXES, newly verified claims get no credential. The store
+ * outlives profile deletion so revocations stay visible to anyone holding an
+ * old credential.
+ *
+ * Credentials are rebuilt on request from the claim and its entry; the
+ * signature is deterministic, so the same issuance always yields the same JWT.
+ */
+
+import type { Env } from "../env";
+import type { Claim } from "./types";
+import { isUuid, loadClaims, nowIso } from "./store";
+import { securityHeaders } from "../http";
+import { b64url, fromB64url, signCompactJws } from "../signing";
+import { scanProfiles, type ScannedProfile } from "../cron";
+
+export const VC_JWT_MEDIA_TYPE = "application/vc+jwt";
+const VC_CONTEXT = "https://www.w3.org/ns/credentials/v2";
+const ISSUER = "https://anchorid.net";
+
+/**
+ * Spec minimum (16KB) — smaller lists would let a verifier guess who is
+ * checked. Also the cap on issuances per identity, so the list never grows.
+ */
+export const MAX_STATUS_INDEXES = 131072;
+
+export interface CredentialStatusEntry {
+  claimId: string;
+  index: number;
+  issuedAt: string; // ISO 8601; becomes the credential's validFrom
+}
+
+export interface CredentialStatusStore {
+  next: number;
+  updatedAt: string;
+  /** Unrevoked credentials, one per verified claim. */
+  entries: CredentialStatusEntry[];
+  /** base64url bitstring of revoked indexes; index 0 is the first byte's MSB. */
+  revoked: string;
+}
+
+export function credentialStatusKey(uuid: string): string {
+  return `vcstatus:${uuid.toLowerCase()}`;
+}
+
+export function statusListUrl(uuid: string): string {
+  return `https://anchorid.net/claims/${uuid.toLowerCase()}/status`;
+}
+
+export function credentialUrl(uuid: string, claimId: string): string {
+  return `https://anchorid.net/claims/${uuid.toLowerCase()}/${encodeURIComponent(claimId)}/credential`;
+}
+
+export async function loadCredentialStatus(env: Env, uuid: string): Promise<CredentialStatusStore> {
+  const raw = (await env.ANCHOR_KV.get(credentialStatusKey(uuid), { type: "json" })) as CredentialStatusStore | null;
+  if (raw && Array.isArray(raw.entries) && typeof raw.next === "number") return { ...raw, revoked: raw.revoked || "" };
+  return { next: 0, updatedAt: nowIso(), entries: [], revoked: "" };
+}
+
+/** The unrevoked entry for a claim, if any. */
+function liveEntry(store: CredentialStatusStore, claimId: string): CredentialStatusEntry | undefined {
+  return store.entries.find((e) => e.claimId === claimId);
+}
+
+/** The revocation bitstring, `bytes` long. */
+function revokedBits(store: CredentialStatusStore, bytes: number): Uint8Array {
+  const bits = new Uint8Array(bytes);
+  bits.set(fromB64url(store.revoked).subarray(0, bytes));
+  return bits;
+}
+
+/**
+ * Bring the status list in line with the current ledger. Call after every
+ * claims write; pass [] when the profile is being deleted to revoke all.
+ */
+export async function syncCredentialStatus(env: Env, uuid: string, claims: Claim[]): Promise<CredentialStatusStore> {
+  const store = await loadCredentialStatus(env, uuid);
+  const now = nowIso();
+  const verified = new Map(claims.filter((c) => c.status === "verified").map((c) => [c.id, c]));
+
+  const stale = store.entries.filter((e) => !verified.has(e.claimId));
+  const issue = [...verified.values()].filter((c) => !liveEntry(store, c.id)).slice(0, MAX_STATUS_INDEXES - store.next);
+  if (!stale.length && !issue.length) return store;
+
+  if (stale.length) {
+    const bits = revokedBits(store, Math.ceil(store.next / 8));
+    for (const entry of stale) bits[entry.index >> 3] |= 0x80 >> (entry.index & 7);
+    store.revoked = b64url(bits);
+    store.entries = store.entries.filter((e) => verified.has(e.claimId));
+  }
+
+  for (const claim of issue) {
+    store.entries.push({ claimId: claim.id, index: store.next++, issuedAt: claim.verifiedAt || now });
+  }
+
+  store.updatedAt = now;
+  await env.ANCHOR_KV.put(credentialStatusKey(uuid), JSON.stringify(store));
+  return store;
+}
+
+/**
+ * Issue credentials for claims verified before credentials existed, and
+ * revoke any a missed write left live. For the cron, over its profile scan
+ * (read here when not given): it reads every profile's ledger.
+ */
+export async function reconcileCredentialStatus(env: Env, profiles?: ScannedProfile[]): Promise<void> {
+  for (const { uuid } of profiles ?? (await scanProfiles(env))) {
+    await syncCredentialStatus(env, uuid, await loadClaims(env, uuid));
+  }
+}
+
+// ------------------------------------------------------------------
+// Documents
+// ------------------------------------------------------------------
+
+/**
+ * The check that issued the credential. Later re-checks leave it alone: they
+ * would otherwise change the JWT of an issuance that is still valid.
+ */
+function proofEvidence(claim: Claim, entry: CredentialStatusEntry): Record<string, unknown> {
+  const proof = claim.proof;
+  const location = proof.kind === "dns_txt" ? proof.qname : proof.url;
+  return {
+    type: ["AnchorIDProofCheck"],
+    proofKind: proof.kind,
+    proofLocation: location,
+    checkedAt: entry.issuedAt,
+  };
+}
+
+/** The unsigned credential for a verified claim and its status entry. */
+export function buildClaimCredential(uuid: string, claim: Claim, entry: CredentialStatusEntry): Record<string, unknown> {
+  const u = uuid.toLowerCase();
+  const statusUrl = statusListUrl(u);
+  return {
+    "@context": [VC_CONTEXT],
+    id: `${credentialUrl(u, claim.id)}#${entry.index}`,
+    type: ["VerifiableCredential", "AnchorIDClaimCredential"],
+    issuer: ISSUER,
+    validFrom: entry.issuedAt,
+    credentialSubject: {
+      id: `https://anchorid.net/resolve/${u}`,
+      controls: claim.url,
+      claimId: claim.id,
+      claimType: claim.type,
+    },
+    evidence: [proofEvidence(claim, entry)],
+    credentialStatus: {
+      id: `${statusUrl}#${entry.index}`,
+      type: "BitstringStatusListEntry",
+      statusPurpose: "revocation",
+      statusListIndex: String(entry.index),
+      statusListCredential: statusUrl,
+    },
+  };
+}
+
+async function gzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Multibase (base64url, "u" prefix) GZIP of the revocation bitstring. Index 0
+ * is the most significant bit of the first byte, as the spec requires.
+ */
+export async function encodeStatusList(store: CredentialStatusStore): Promise<string> {
+  return "u" + b64url(await gzip(revokedBits(store, MAX_STATUS_INDEXES / 8)));
+}
+
+export async function buildStatusListCredential(uuid: string, store: CredentialStatusStore): Promise<Record<string, unknown>> {
+  const statusUrl = statusListUrl(uuid);
+  return {
+    "@context": [VC_CONTEXT],
+    id: statusUrl,
+    type: ["VerifiableCredential", "BitstringStatusListCredential"],
+    issuer: ISSUER,
+    validFrom: store.updatedAt,
+    credentialSubject: {
+      id: `${statusUrl}#list`,
+      type: "BitstringStatusList",
+      statusPurpose: "revocation",
+      encodedList: await encodeStatusList(store),
+    },
+  };
+}
+
+// ------------------------------------------------------------------
+// Handlers
+// ------------------------------------------------------------------
+
+function jsonError(error: string, status: number, cacheControl = "no-store"): Response {
+  return new Response(JSON.stringify({ error }, null, 2), {
+    status,
+    headers: { "content-type": "application/json; charset=utf-8", "cache-control": cacheControl, ...securityHeaders() },
+  });
+}
+
+function vcJwtResponse(jwt: string): Response {
+  return new Response(jwt, {
+    headers: {
+      "content-type": VC_JWT_MEDIA_TYPE,
+      // Short: a revocation must reach status-list readers within minutes.
+      "cache-control": "public, max-age=300, s-maxage=300",
+      "access-control-allow-origin": "*",
+      ...securityHeaders(),
+    },
+  });
+}
+
+/** GET /claims/<uuid>/<claimId>/credential */
+export async function handleGetClaimCredential(env: Env, uuid: string, claimId: string): Promise<Response> {
+  if (!isUuid(uuid)) return jsonError("invalid_uuid", 400);
+  const u = uuid.toLowerCase();
+
+  const claims = await loadClaims(env, u);
+  const claim = claims.find((c) => c.id === claimId);
+  if (!claim) return jsonError("claim_not_found", 404, "public, max-age=60");
+  if (claim.status !== "verified") return jsonError("claim_not_verified", 404, "public, max-age=60");
+
+  // Not yet reached by the cron, or past the per-identity issuance cap.
+  const entry = liveEntry(await loadCredentialStatus(env, u), claim.id);
+  if (!entry) return jsonError("credential_not_issued", 404, "public, max-age=60");
+
+  const jwt = await signCompactJws(env, buildClaimCredential(u, claim, entry), "vc+jwt");
+  if (!jwt) return jsonError("signing_not_configured", 501);
+  return vcJwtResponse(jwt);
+}
+
+/** GET /claims/<uuid>/status — the revocation list for that identity's credentials. */
+export async function handleGetStatusList(env: Env, uuid: string): Promise<Response> {
+  if (!isUuid(uuid)) return jsonError("invalid_uuid", 400);
+  const u = uuid.toLowerCase();
+
+  const store = await loadCredentialStatus(env, u);
+  const jwt = await signCompactJws(env, await buildStatusListCredential(u, store), "vc+jwt");
+  if (!jwt) return jsonError("signing_not_configured", 501);
+  return vcJwtResponse(jwt);
+}
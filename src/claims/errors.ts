@@ -92,6 +92,30 @@ export function getErrorInfo(failReason: string): ErrorInfo {
   }
 
   // Proof verification errors
+  if (failReason === "rel_me_not_found") {
+    return {
+      message: "No rel=\"me\" link to your AnchorID",
+      hint: "Your home page must contain <link rel=\"me\" href=\"https://anchorid.net/resolve/<uuid>\"> or an <a rel=\"me\"> link to it. Mentioning the URL in text is not enough.",
+      docLink: "/proofs/website",
+    };
+  }
+
+  if (failReason === "meta_tag_not_found") {
+    return {
+      message: "No AnchorID meta tag on your home page",
+      hint: "Add <meta name=\"anchorid\" content=\"urn:uuid:<uuid>\"> to the <head> of your home page (most site builders call this custom head code), publish, then verify again.",
+      docLink: "/proofs/website",
+    };
+  }
+
+  if (failReason === "meta_tag_mismatch") {
+    return {
+      message: "AnchorID meta tag found, but for a different AnchorID",
+      hint: "The tag's content must be urn:uuid:<your-uuid> or https://anchorid.net/resolve/<your-uuid>. Check that you copied your own UUID.",
+      docLink: "/proofs/website",
+    };
+  }
+
   if (failReason === "proof_not_found") {
     return {
       message: "Proof not found",
@@ -16,8 +16,9 @@
 
 import type { Env } from "../env";
 import type { Claim } from "./types";
-import { securityHeaders } from "../http";
-import { nowIso, isUuid, normalizeUrl, normalizeIdentityUrl, loadClaims, saveClaims, upsertClaim } from "./store";
+import { securityHeaders, conditionalResponse } from "../http";
+import { signedJsonBody, wantsEmbeddedProof } from "../signing";
+import { nowIso, isUuid, normalizeUrl, normalizeIdentityUrl, loadClaims, saveClaims, upsertClaim, claimsLastModified, stampClaimRemoval } from "./store";
 import {
   claimIdForWebsite,
   claimIdForGitHub,
@@ -28,6 +29,7 @@ import {
   claimIdForX,
   buildXProof,
   buildWellKnownProof,
+  buildHomePageProof,
   buildGitHubReadmeProof,
   buildDnsProof,
   buildPublicProof,
@@ -37,6 +39,14 @@ import {
 } from "./verify";
 import type { VerifyResult } from "./verify";
 import { getErrorInfo } from "./errors";
+import { seedHistory, recordRevision } from "../history";
+import { loadTombstone, tombstoneResponse } from "../resolve";
+import { syncCredentialStatus } from "./credentials";
+import { appendEvent, claimRef } from "../events";
+import { recordChange } from "../changes";
+import { ogImageUrl, socialMetaTags, verifiedSummary } from "../og";
+import { localizedText } from "../domain/profile";
+import { loadSuccession } from "../succession";
 import { sendClaimVerifiedEmail, sendClaimFailedEmail, shouldSendNotification } from "./notifications";
 
 // Optional: pass base resolver host in if you want staging/prod support later
@@ -119,15 +129,32 @@ export async function handleGetClaims(
   if (!isUuid(uuid)) return new Response("Bad UUID", { status: 400 });
 
   const claims = await loadClaims(env, uuid);
-  const body = JSON.stringify({ uuid, claims, dateModified: nowIso() }, null, 2);
-
-  return new Response(body, {
-    headers: {
+  if (!claims.length) {
+    // Deletion removes the ledger; say so rather than serve an empty one.
+    const deletedAt = await loadTombstone(env, uuid);
+    if (deletedAt) return tombstoneResponse(uuid.toLowerCase(), deletedAt);
+  }
+  // dateModified tracks the ledger itself (null while empty) — stamping the
+  // current time here made every body unique and defeated conditional GETs.
+  const profile = await env.ANCHOR_KV.get(`profile:${uuid.toLowerCase()}`, { type: "json" });
+  const dateModified = claimsLastModified(claims, profile);
+  const { body, headers: signatureHeaders } = await signedJsonBody(
+    env,
+    { uuid, claims, dateModified },
+    wantsEmbeddedProof(request)
+  );
+
+  return conditionalResponse(
+    request,
+    body,
+    {
       "content-type": "application/json; charset=utf-8",
       "cache-control": "public, max-age=60, s-maxage=300, stale-while-revalidate=86400",
       ...securityHeaders(),
+      ...signatureHeaders,
     },
-  });
+    dateModified
+  );
 }
 
 
@@ -139,12 +166,32 @@ export async function handleGetClaimsHtml(
   if (!isUuid(uuid)) return new Response("Bad UUID", { status: 400 });
 
   const claims = await loadClaims(env, uuid);
+  if (!claims.length) {
+    // Deletion removes the ledger; say so rather than serve an empty one.
+    const deletedAt = await loadTombstone(env, uuid);
+    if (deletedAt) return tombstoneResponse(uuid.toLowerCase(), deletedAt);
+  }
   const verified = claims.filter((c) => c.status === "verified");
   const others = claims.filter((c) => c.status !== "verified");
 
   const resolveUrl = `https://anchorid.net/resolve/${uuid}`;
   const claimsUrl = `https://anchorid.net/claims/${uuid}`;
 
+  // Link previews name the identity, not just the UUID — unless it is
+  // superseded, when like /resolve they publish nothing of the old profile.
+  const profile = (await env.ANCHOR_KV.get(`profile:${uuid.toLowerCase()}`, { type: "json" })) as any | null;
+  const superseded = await loadSuccession(env, uuid);
+  const displayName = (!superseded && localizedText(profile?.name)) || uuid;
+  const verifiedTypes = verified.map((c) => (c.type === "social" ? "public" : c.type));
+  const socialTags = socialMetaTags({
+    title: `${displayName} • AnchorID claims`,
+    description: `${verifiedSummary(verified.length, verifiedTypes)}. Each verified claim is backed by a public proof checked by AnchorID.`,
+    url: claimsUrl,
+    image: ogImageUrl(uuid),
+    imageAlt: `${displayName}: ${verifiedSummary(verified.length)}`,
+    type: "website",
+  });
+
   function esc(s: string): string {
     return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
   }
@@ -196,6 +243,7 @@ export async function handleGetClaimsHtml(
   <meta charset="utf-8" />
   <meta name="viewport" content="width=device-width, initial-scale=1" />
   <title>AnchorID Claims • ${esc(uuid)}</title>
+  ${socialTags}
   <style>
     body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Ubuntu,Cantarell,Noto Sans,sans-serif;margin:24px;max-width:920px;line-height:1.4}
     header{display:flex;gap:12px;align-items:baseline;flex-wrap:wrap}
@@ -298,8 +346,16 @@ export async function handlePostClaim(request: Request,   env: Env): Promise<Res
     const host = validation.url!.hostname.toLowerCase();
     const canonicalUrl = `https://${host}`;
 
+    // Same claim either way; switching method re-files it under the same id.
+    const method = String(payload.proof || "well_known");
+    if (method !== "well_known" && method !== "rel_me" && method !== "meta_tag") {
+      return new Response("Bad proof method. Use well_known, rel_me or meta_tag", { status: 400 });
+    }
+
     const id = claimIdForWebsite(canonicalUrl);
-    const proof = buildWellKnownProof(canonicalUrl, resolverUrl);
+    const proof = method === "well_known"
+      ? buildWellKnownProof(canonicalUrl, resolverUrl)
+      : buildHomePageProof(method, canonicalUrl, resolverUrl);
     claim = {
       id,
       type: "website",
@@ -428,8 +484,18 @@ export async function handlePostClaim(request: Request,   env: Env): Promise<Res
   }
 
   const list = await loadClaims(env, uuid);
+  const existing = list.find((c) => c.id === claim.id);
   const updated = upsertClaim(list, claim);
+  await seedHistory(env, uuid);
   await saveClaims(env, uuid, updated);
+  // Re-asserting a verified claim resets it, which can change sameAs.
+  await recordRevision(env, uuid, "claims");
+  await syncCredentialStatus(env, uuid, updated);
+  await recordChange(env, uuid, "claims");
+  // A re-assertion that changes nothing is not news to feed readers.
+  if (!existing || existing.status !== claim.status) {
+    await appendEvent(env, uuid, { type: "claim_added", claim: claimRef(claim) });
+  }
 
   return new Response(JSON.stringify({ ok: true, claim }, null, 2), {
     headers: {
@@ -521,10 +587,23 @@ export async function handlePostClaimVerify(
 
   const updated = [...list];
   updated[idx] = claim;
+  await seedHistory(env, uuid);
   await saveClaims(env, uuid, updated);
+  await recordRevision(env, uuid, "claims");
+  // A claim that stops verifying revokes its credential.
+  await syncCredentialStatus(env, uuid, updated);
+  await recordChange(env, uuid, "claims");
 
   // Send notification if status changed (success or failure)
   if (previousStatus !== result.status) {
+    if (result.status === "verified" || result.status === "failed") {
+      await appendEvent(env, uuid, {
+        type: result.status === "verified" ? "claim_verified" : "claim_failed",
+        claim: claimRef(claim),
+        ...(claim.failReason ? { failReason: claim.failReason } : {}),
+      });
+    }
+
     // Get profile to retrieve email (if notifications enabled)
     const profile = await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" }) as any | null;
     const email = profile?._email;
@@ -584,7 +663,13 @@ export async function handlePostClaimDelete(
   const updated = [...list.slice(0, idx), ...list.slice(idx + 1)];
 
   // Save updated claims list
+  await seedHistory(env, uuid);
   await saveClaims(env, uuid, updated);
+  await stampClaimRemoval(env, uuid, nowIso());
+  await recordRevision(env, uuid, "claims");
+  await syncCredentialStatus(env, uuid, updated);
+  await appendEvent(env, uuid, { type: "claim_deleted", claim: claimRef(deletedClaim) });
+  await recordChange(env, uuid, "claims");
 
   return new Response(JSON.stringify({
     ok: true,
@@ -16,6 +16,7 @@
 
 import type { Env } from "../env";
 import type { Claim } from "./types";
+import { latestIso } from "../http";
 
 export function nowIso(): string {
   return new Date().toISOString();
@@ -61,6 +62,23 @@ export async function saveClaims(env: Env, uuid: string, claims: Claim[]): Promi
   await env.ANCHOR_KV.put(claimsKey(uuid), JSON.stringify(claims));
 }
 
+/**
+ * When the ledger last changed: the latest claim update, or the latest
+ * deletion, stamped on the profile as _claimsRemovedAt. Without the stamp,
+ * deleting the newest claim would move Last-Modified backwards.
+ */
+export function claimsLastModified(claims: Claim[], profile: any): string | null {
+  return latestIso([...claims.map((c) => c.updatedAt), profile?._claimsRemovedAt]);
+}
+
+/** Stamp a claim deletion on the profile; see claimsLastModified(). */
+export async function stampClaimRemoval(env: Env, uuid: string, at: string): Promise<void> {
+  const key = `profile:${uuid.toLowerCase()}`;
+  const profile = (await env.ANCHOR_KV.get(key, { type: "json" })) as any | null;
+  if (!profile) return;
+  await env.ANCHOR_KV.put(key, JSON.stringify({ ...profile, _claimsRemovedAt: at }));
+}
+
 export function upsertClaim(list: Claim[], claim: Claim): Claim[] {
   const idx = list.findIndex((c) => c.id === claim.id);
   if (idx >= 0) {
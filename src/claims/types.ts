@@ -21,6 +21,19 @@ export type ClaimProof =
   | { kind: "github_readme"; url: string; mustContain: string; fallbackUrls?: string[] }
   | { kind: "dns_txt"; qname: string; expectedToken: string }
   | { kind: "profile_page"; url: string; mustContain: string; fallbackUrls?: string[] }
+  /**
+   * IndieWeb rel="me": the site's home page links to the resolver URL with
+   * `<link rel="me">` or `<a rel="me">`. For hosted platforms that cannot
+   * serve /.well-known/anchorid.txt. Unlike the substring proofs, only a
+   * parsed link counts — the resolver URL in page text proves nothing.
+   */
+  | { kind: "rel_me"; url: string; mustContain: string }
+  /**
+   * `<meta name="anchorid" content="urn:uuid:<uuid>">` (or the resolver URL)
+   * in the home page's head. For site builders that allow custom head tags
+   * but not files.
+   */
+  | { kind: "meta_tag"; url: string; mustContain: string }
   /**
    * X (Twitter) profile bio / website field, read through the X API.
    *
@@ -187,6 +187,25 @@ export function buildWellKnownProof(domainOrUrl: string, resolverUrl: string): C
   };
 }
 
+/**
+ * A proof read from the site's home page (rel="me" link or meta tag). Like
+ * the .well-known proof it stands for the whole host, so any path the
+ * claimant entered is dropped: a deeper page may carry markup written by
+ * other people.
+ */
+export function buildHomePageProof(kind: "rel_me" | "meta_tag", domainOrUrl: string, resolverUrl: string): ClaimProof {
+  let host = domainOrUrl;
+  try {
+    if (domainOrUrl.includes("://")) host = new URL(domainOrUrl).hostname;
+  } catch {}
+  host = host.toLowerCase();
+  return {
+    kind,
+    url: `https://${host}/`,
+    mustContain: resolverUrl,
+  };
+}
+
 export function buildGitHubReadmeProof(githubProfileUrl: string, resolverUrl: string): ClaimProof | null {
   const parsed = parseGitHubProfile(githubProfileUrl);
   if (!parsed) return null;
@@ -837,6 +856,152 @@ export function profilePageHasUuidMarker(mustContain: string, text: string): boo
   return new RegExp(`\\baid:[ \\t]*${uuid}`).test(haystack);
 }
 
+// ------------------ Home-page HTML proofs (rel="me", meta tag) ------------------
+
+/** Elements whose content is not markup; a rel="me" inside them is not a link. */
+const NON_MARKUP_RE = /<!--[\s\S]*?-->|<(script|style|template|textarea|title)\b[\s\S]*?<\/\1\s*>/gi;
+const ATTR_RE = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", sol: "/", colon: ":", period: ".", num: "#", equals: "=",
+};
+
+function decodeHtmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);?/gi, (match, ref: string) => {
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+/** Attributes of a start tag, lowercased names; the first of a duplicate wins, as in HTML. */
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of source.matchAll(ATTR_RE)) {
+    const name = m[1].toLowerCase();
+    if (name in attrs) continue;
+    attrs[name] = decodeHtmlEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+/** Start tags named `names`, in document order, outside comments and raw text. */
+function startTags(html: string, names: string[]): Array<{ name: string; attrs: Record<string, string> }> {
+  const markup = html.replace(NON_MARKUP_RE, "");
+  const re = new RegExp(`<(${names.join("|")})\\b((?:[^>"']|"[^"]*"|'[^']*')*)>`, "gi");
+  return [...markup.matchAll(re)].map((m) => ({ name: m[1].toLowerCase(), attrs: parseAttributes(m[2]) }));
+}
+
+/**
+ * Absolute targets of every `<a rel="me">` and `<link rel="me">` in a page.
+ *
+ * `rel` is a space-separated, case-insensitive token list, so "me",
+ * "Me" and "nofollow me" all count but "home" does not. Relative hrefs are
+ * resolved against the page's `<base href>` if it has one (the first, as
+ * browsers do), else against the URL the page was served from.
+ */
+export function extractRelMeLinks(html: string, pageUrl: string): string[] {
+  const tags = startTags(html, ["a", "link", "base"]);
+
+  let base = pageUrl;
+  const baseTag = tags.find((t) => t.name === "base" && "href" in t.attrs);
+  if (baseTag) {
+    try {
+      base = new URL(baseTag.attrs.href.trim(), pageUrl).toString();
+    } catch {}
+  }
+
+  const links: string[] = [];
+  for (const { name, attrs } of tags) {
+    if (name === "base" || !("href" in attrs)) continue;
+    const rel = (attrs.rel || "").toLowerCase().split(/[\t\n\f\r ]+/);
+    if (!rel.includes("me")) continue;
+    try {
+      links.push(new URL(attrs.href.trim(), base).toString());
+    } catch {}
+  }
+  return links;
+}
+
+/** True if a link points at the claimant's resolver URL or its short form (/<uuid>). */
+export function relMeLinksProveClaim(links: string[], mustContain: string): boolean {
+  const uuidMatch = mustContain.match(UUID_RE);
+  if (!uuidMatch) return false;
+  const uuid = uuidMatch[1].toLowerCase();
+
+  return links.some((link) => {
+    let u: URL;
+    try {
+      u = new URL(link);
+    } catch {
+      return false;
+    }
+    if (u.protocol !== "https:" && u.protocol !== "http:") return false;
+    if (u.hostname !== "anchorid.net" || u.search) return false;
+    const path = u.pathname.replace(/\/$/, "").toLowerCase();
+    return path === `/resolve/${uuid}` || path === `/${uuid}`;
+  });
+}
+
+/**
+ * `content` of every `<meta name="anchorid">` in the document head — the
+ * markup before `<body>` (or `</head>`), since a meta tag in the body is
+ * more likely user content than the site owner's.
+ */
+export function extractAnchorIdMetaValues(html: string): string[] {
+  const markup = html.replace(NON_MARKUP_RE, "");
+  const end = markup.search(/<\/head\s*>|<body\b/i);
+  const head = end >= 0 ? markup.slice(0, end) : markup;
+  return startTags(head, ["meta"])
+    .filter((t) => (t.attrs.name || "").trim().toLowerCase() === "anchorid")
+    .map((t) => (t.attrs.content || "").trim());
+}
+
+/** True if a meta value is the claimant's urn:uuid or resolver URL. */
+export function metaValuesProveClaim(values: string[], mustContain: string): boolean {
+  const uuidMatch = mustContain.match(UUID_RE);
+  if (!uuidMatch) return false;
+  const uuid = uuidMatch[1].toLowerCase();
+  const accepted = [`urn:uuid:${uuid}`, `https://anchorid.net/resolve/${uuid}`];
+  return values.some((v) => accepted.includes(v.toLowerCase().replace(/\/$/, "")));
+}
+
+/**
+ * Fetch the home page a rel="me" or meta-tag proof is read from. A fetch that
+ * fails comes back as the claim's failed result, the same for both kinds.
+ */
+async function fetchHomePage(url: string): Promise<{ html: string; pageUrl: string } | { failed: VerifyResult }> {
+  const result = await safeFetchText(url);
+  if (!result.ok) {
+    return {
+      failed: {
+        status: "failed",
+        failReason: result.error ? `fetch_blocked:${result.error}` : `fetch_failed:${result.status}`,
+      },
+    };
+  }
+  return { html: result.text, pageUrl: result.finalUrl || url };
+}
+
+async function verifyMetaTagClaim(proof: { url: string; mustContain: string }): Promise<VerifyResult> {
+  const page = await fetchHomePage(proof.url);
+  if ("failed" in page) return page.failed;
+  const values = extractAnchorIdMetaValues(page.html);
+  if (metaValuesProveClaim(values, proof.mustContain)) return { status: "verified" };
+  // A tag for someone else is most often a copy-paste slip, so say so.
+  return { status: "failed", failReason: values.length ? "meta_tag_mismatch" : "meta_tag_not_found" };
+}
+
+async function verifyRelMeClaim(proof: { url: string; mustContain: string }): Promise<VerifyResult> {
+  const page = await fetchHomePage(proof.url);
+  if ("failed" in page) return page.failed;
+  const links = extractRelMeLinks(page.html, page.pageUrl);
+  if (relMeLinksProveClaim(links, proof.mustContain)) return { status: "verified" };
+  return { status: "failed", failReason: "rel_me_not_found" };
+}
+
 // ------------------ X (Twitter) profile verification ------------------
 
 const X_API_TIMEOUT_MS = 5000;
@@ -1132,6 +1297,14 @@ export async function verifyClaim(
     return verifyXClaim(claim, kv, env, bypassCache);
   }
 
+  if (claim.proof.kind === "rel_me") {
+    return verifyRelMeClaim(claim.proof);
+  }
+
+  if (claim.proof.kind === "meta_tag") {
+    return verifyMetaTagClaim(claim.proof);
+  }
+
   // Handle website, github, and social profile claims
   if (claim.proof.kind === "well_known" || claim.proof.kind === "github_readme" || claim.proof.kind === "profile_page") {
     let text: string;
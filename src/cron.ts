@@ -0,0 +1,101 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * The daily cron's shared profile scan.
+ *
+ * Every cron step (purge, relations, credentials, sitemap) walks all
+ * profiles. Listing and reading them once per step multiplied the KV reads
+ * towards the Worker's subrequest cap, so scheduled() scans once and hands
+ * the result to each step. Steps run one after another, each through
+ * runCronStep(): one that throws is logged and the rest still run.
+ *
+ * reconcileRelations() lives here rather than in relations.ts because it
+ * records revisions, and history.ts reads relations through resolve.ts.
+ */
+
+import type { Env } from "./env";
+import { recordChange } from "./changes";
+import { localizedText } from "./domain/profile";
+import { recordRevision, seedHistories } from "./history";
+import { notifyRelationRequest, syncOutgoingRelations, RELATION_KINDS } from "./relations";
+
+export interface ScannedProfile {
+  uuid: string;
+  stored: Record<string, any>;
+  superseded: boolean;
+}
+
+async function listKeys(env: Env, prefix: string): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await env.ANCHOR_KV.list({ prefix, limit: 1000, cursor });
+    names.push(...result.keys.map((k) => k.name.slice(prefix.length)));
+    cursor = result.list_complete ? undefined : result.cursor;
+  } while (cursor);
+  return names;
+}
+
+/** Every stored profile, read once, with whether it has been superseded. */
+export async function scanProfiles(env: Env): Promise<ScannedProfile[]> {
+  const superseded = new Set(await listKeys(env, "succession:"));
+  const profiles: ScannedProfile[] = [];
+  for (const uuid of await listKeys(env, "profile:")) {
+    const stored = (await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" })) as Record<string, any> | null;
+    if (stored) profiles.push({ uuid, stored, superseded: superseded.has(uuid) });
+  }
+  return profiles;
+}
+
+/** Run one step, logging a throw instead of passing it on. Returns whether it completed. */
+export async function runCronStep(name: string, step: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await step();
+    return true;
+  } catch (e: any) {
+    console.error(`cron step ${name} failed:`, e?.stack || String(e));
+    return false;
+  }
+}
+
+/**
+ * Create the relations no save did, and email their targets. Over the
+ * profile scan (read here when not given). Superseded profiles are skipped,
+ * since their references are no longer published. A stale relation found on
+ * the way is dropped like a save would. Returns how many relations it
+ * created.
+ */
+export async function reconcileRelations(env: Env, profiles?: ScannedProfile[]): Promise<number> {
+  let created = 0;
+  for (const { uuid, stored, superseded } of profiles ?? (await scanProfiles(env))) {
+    if (superseded) continue;
+    if (!RELATION_KINDS.some((kind) => Array.isArray(stored[kind]) && stored[kind].length)) continue;
+    const synced = await syncOutgoingRelations(env, uuid, stored, (uuids) => seedHistories(env, uuids));
+    if (!synced.created.length && !synced.dropped.length) continue;
+
+    await recordRevision(env, uuid, "relations");
+    for (const relation of synced.created) {
+      await notifyRelationRequest(env, relation, localizedText(stored.name));
+      created++;
+    }
+    for (const relation of synced.dropped) {
+      await recordRevision(env, relation.target, "relations");
+      await recordChange(env, relation.target, "relations");
+    }
+  }
+  return created;
+}
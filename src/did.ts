@@ -0,0 +1,72 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * did:web documents for AnchorIDs.
+ *
+ *   did:web:anchorid.net:id:<uuid>  →  https://anchorid.net/id/<uuid>/did.json
+ *
+ * The document is derived from the resolved record on every request (never
+ * stored), so it cannot drift from the profile. It carries no verification
+ * methods: an AnchorID is an attribution anchor, not a key holder, and the
+ * DID only links into the existing records.
+ */
+
+import { buildIdentifier } from "./domain/profile";
+
+export const DID_MEDIA_TYPE = "application/did+ld+json";
+
+export function didForUuid(uuid: string): string {
+  return `did:web:anchorid.net:id:${uuid.toLowerCase()}`;
+}
+
+export function didDocumentUrl(uuid: string): string {
+  return `https://anchorid.net/id/${uuid.toLowerCase()}/did.json`;
+}
+
+/**
+ * Build the DID document from a resolved record (the /resolve output, with
+ * verified claims already merged into sameAs).
+ *
+ * alsoKnownAs: the urn:uuid identifier, the canonical resolver URL, then the
+ * effective sameAs. Services point at the resolver and the claims ledger.
+ */
+export function buildDidDocument(uuid: string, record: Record<string, any>): Record<string, unknown> {
+  const u = uuid.toLowerCase();
+  const did = didForUuid(u);
+  const resolveUrl = `https://anchorid.net/resolve/${u}`;
+  const sameAs: string[] = Array.isArray(record.sameAs) ? record.sameAs : [];
+
+  const alsoKnownAs = [...new Set([buildIdentifier(u).value, resolveUrl, ...sameAs])];
+
+  return {
+    "@context": ["https://www.w3.org/ns/did/v1"],
+    id: did,
+    alsoKnownAs,
+    service: [
+      {
+        id: `${did}#profile`,
+        type: "AnchorIDProfile",
+        serviceEndpoint: resolveUrl,
+      },
+      {
+        id: `${did}#claims`,
+        type: "AnchorIDClaims",
+        serviceEndpoint: `https://anchorid.net/claims/${u}`,
+      },
+    ],
+  };
+}
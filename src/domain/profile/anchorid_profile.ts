@@ -43,6 +43,19 @@ export type PropertyValue = {
   value: string; // "urn:uuid:<uuid>"
 };
 
+// A JSON-LD language-tagged string
+export type LangString = {
+  "@value": string;
+  "@language": string; // BCP 47, canonical case
+};
+
+/**
+ * name / description: a plain string, or one value per language with the
+ * default language first. alternateName: strings and tagged values, in the
+ * user's order. Untagged strings have no declared language.
+ */
+export type LocalizedText = string | Array<string | LangString>;
+
 // Reference to another AnchorID entity (for founder/affiliation)
 export type EntityRef = {
   "@id": string;
@@ -55,11 +68,12 @@ type BaseProfile = {
   identifier: PropertyValue;
   dateCreated: ISO8601UTC;
   dateModified: ISO8601UTC;
-  name?: string;
-  alternateName?: string[];
-  description?: string;
+  name?: LocalizedText;
+  alternateName?: Array<string | LangString>;
+  description?: LocalizedText;
   url?: string;
   sameAs?: string[];
+  email?: string; // public contact address, opt-in; unrelated to the login email
   mainEntityOfPage: WebPageRef;
   subjectOf: WebPageRef;
   isPartOf: WebSiteRef;
@@ -68,12 +82,17 @@ type BaseProfile = {
 export type PersonProfile = BaseProfile & {
   "@type": "Person";
   affiliation?: EntityRef[]; // References to Organization records
+  image?: string; // Photo URL
+  jobTitle?: string;
+  knowsAbout?: string[]; // Areas of expertise
 };
 
 export type OrganizationProfile = BaseProfile & {
   "@type": "Organization";
   founder?: EntityRef[]; // References to Person records
   foundingDate?: string; // ISO 8601 date
+  logo?: string; // Logo URL
+  legalName?: string;
 };
 
 // Union type for any AnchorID profile
@@ -81,18 +100,66 @@ export type AnchorProfile = PersonProfile | OrganizationProfile;
 
 export type ProfileInput = {
   "@type"?: unknown; // "Person" or "Organization"
-  name?: unknown;
-  alternateName?: unknown; // accept string|string[]
-  description?: unknown;
+  name?: unknown; // string, {"@value","@language"}, an array of those, or a language map
+  alternateName?: unknown; // as name, plus comma/newline-separated strings
+  description?: unknown; // as name
+  defaultLanguage?: unknown; // BCP 47 tag given to untagged strings in this input
   url?: unknown;
   sameAs?: unknown; // accept string|string[]
+  email?: unknown;
   // Person-specific
   affiliation?: unknown; // accept string|string[] of UUIDs or resolve URLs
+  image?: unknown;
+  jobTitle?: unknown;
+  knowsAbout?: unknown; // accept string|string[]
   // Organization-specific
   founder?: unknown; // accept string|string[] of UUIDs or resolve URLs
   foundingDate?: unknown;
+  logo?: unknown;
+  legalName?: unknown;
 };
 
+/**
+ * Optional schema.org properties beyond the core record, by the type that
+ * may carry them. Absent from an input means "keep stored"; present but
+ * empty clears the field.
+ */
+export const EXTENDED_PROFILE_FIELDS = {
+  Person: ["email", "image", "jobTitle", "knowsAbout"],
+  Organization: ["email", "logo", "legalName"],
+} as const satisfies Record<EntityType, readonly (keyof ProfileInput)[]>;
+
+/** Every extended field, whichever type carries it (for form and patch parsing). */
+export const ALL_EXTENDED_PROFILE_FIELDS = [
+  ...new Set([...EXTENDED_PROFILE_FIELDS.Person, ...EXTENDED_PROFILE_FIELDS.Organization]),
+] as const;
+
+/** Length and count limits for the extended fields. */
+export const PROFILE_FIELD_LIMITS = {
+  email: 254,
+  imageUrl: 2048, // image and logo
+  jobTitle: 100,
+  legalName: 200,
+  knowsAboutItem: 100,
+  knowsAboutItems: 20,
+  languages: 20, // distinct languages per localized field
+} as const;
+
+export type ProfileFieldError = {
+  field: string;
+  reason:
+    | "invalid_type"
+    | "too_long"
+    | "too_many"
+    | "invalid_url"
+    | "invalid_email"
+    | "invalid_language"
+    | "duplicate_language";
+};
+
+/** Fields that accept language-tagged values. */
+export const LOCALIZED_PROFILE_FIELDS = ["name", "alternateName", "description"] as const;
+
 export type BuildProfileOptions = {
   nowIso?: () => ISO8601UTC;
 
@@ -265,12 +332,6 @@ function splitMultilineOrComma(s: string): string[] {
   return lines;
 }
 
-function canonicalizeString(value: unknown): string | undefined {
-  if (!isNonEmptyString(value)) return undefined;
-  const s = value.trim();
-  return s.length ? s : undefined;
-}
-
 function canonicalizeStringArray(value: unknown): string[] | undefined {
   const arr: string[] = Array.isArray(value)
     ? value.filter((x) => typeof x === "string").map((x) => x.trim())
@@ -350,7 +411,7 @@ function buildRefs(uuid: string) {
   return { mainEntityOfPage, subjectOf };
 }
 
-function buildIdentifier(uuid: string): PropertyValue {
+export function buildIdentifier(uuid: string): PropertyValue {
   return {
     "@type": "PropertyValue",
     propertyID: "canonical-uuid",
@@ -431,6 +492,299 @@ function canonicalizeEntityRefs(value: unknown): EntityRef[] | undefined {
   return refs.length > 0 ? refs : undefined;
 }
 
+// ------------------------------------------------------------------
+// Language-tagged text
+// ------------------------------------------------------------------
+
+/**
+ * Well-formed BCP 47 tag (RFC 5646 langtag, plus private use): language,
+ * optional script, region and variants. Not checked against the IANA
+ * registry — well-formed is what JSON-LD requires.
+ */
+const LANGUAGE_TAG_RE =
+  /^[a-z]{2,3}(-[a-z]{4})?(-(?:[a-z]{2}|\d{3}))?(-(?:[a-z\d]{5,8}|\d[a-z\d]{3}))*(-x(-[a-z\d]{1,8})+)?$/i;
+
+/** A BCP 47 tag in canonical case ("zh-hant-tw" → "zh-Hant-TW"), or undefined. */
+export function canonicalLanguageTag(value: unknown): string | undefined {
+  if (!isNonEmptyString(value)) return undefined;
+  const tag = value.trim();
+  if (tag.length > 35 || !LANGUAGE_TAG_RE.test(tag)) return undefined;
+
+  let privateUse = false;
+  return tag
+    .split("-")
+    .map((part, i) => {
+      if (part.toLowerCase() === "x") privateUse = true;
+      if (i === 0 || privateUse) return part.toLowerCase();
+      if (/^[a-z]{4}$/i.test(part)) return part[0].toUpperCase() + part.slice(1).toLowerCase();
+      if (/^[a-z]{2}$/i.test(part)) return part.toUpperCase();
+      return part.toLowerCase();
+    })
+    .join("-");
+}
+
+function isLangString(x: unknown): x is LangString {
+  return !!x && typeof x === "object" && typeof (x as any)["@value"] === "string" && typeof (x as any)["@language"] === "string";
+}
+
+type RawLocalized = { text: unknown; language?: unknown };
+
+/**
+ * Flatten any accepted localized input into (text, language) pairs, or null
+ * when its shape is not one we accept. Language maps ({"ja": "…"}) may hold
+ * a string or an array of strings per language.
+ */
+function localizedEntries(value: unknown): RawLocalized[] | null {
+  if (typeof value === "string") return [{ text: value }];
+  const items = Array.isArray(value) ? value : [value];
+  const out: RawLocalized[] = [];
+  for (const item of items) {
+    if (typeof item === "string") {
+      out.push({ text: item });
+    } else if (item && typeof item === "object" && "@value" in item) {
+      out.push({ text: (item as any)["@value"], language: (item as any)["@language"] ?? null });
+    } else if (item && typeof item === "object" && !Array.isArray(value)) {
+      for (const [language, texts] of Object.entries(item)) {
+        for (const text of Array.isArray(texts) ? texts : [texts]) out.push({ text, language });
+      }
+    } else {
+      return null;
+    }
+  }
+  return out;
+}
+
+/**
+ * Canonicalize a localized field. Untagged strings take `defaultLanguage`
+ * when one is set. With `perLanguage`, one value per language (first wins)
+ * with the default language first; a lone untagged value stays a plain
+ * string so records without translations keep their old shape. Entries with
+ * a malformed tag are dropped (validateProfileInput reports them).
+ */
+function canonicalizeLocalized(
+  value: unknown,
+  defaultLanguage: string | undefined,
+  perLanguage: boolean
+): Array<string | LangString> | string | undefined {
+  const entries = typeof value === "string" && !perLanguage
+    ? splitMultilineOrComma(value).map((text) => ({ text } as RawLocalized))
+    : localizedEntries(value);
+  if (!entries) return undefined;
+
+  const values: Array<string | LangString> = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (typeof entry.text !== "string") continue;
+    const text = entry.text.trim();
+    if (!text) continue;
+
+    let language = defaultLanguage;
+    if (entry.language != null && entry.language !== "") {
+      language = canonicalLanguageTag(entry.language);
+      if (!language) continue;
+    }
+
+    const key = perLanguage ? language ?? "" : `${language ?? ""}\u0000${text}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    values.push(language ? { "@value": text, "@language": language } : text);
+  }
+  if (!values.length) return undefined;
+
+  if (perLanguage) {
+    const isDefault = (v: string | LangString) => (typeof v === "string" ? true : v["@language"] === defaultLanguage);
+    values.sort((a, b) => Number(isDefault(b)) - Number(isDefault(a)));
+    if (values.length === 1 && typeof values[0] === "string") return values[0];
+  }
+  return values;
+}
+
+function languageOf(v: string | LangString): string | undefined {
+  return typeof v === "string" ? undefined : v["@language"];
+}
+
+/**
+ * The language untagged input is assumed to be in when an input does not
+ * say: whatever the stored name (or description) leads with.
+ */
+function storedDefaultLanguage(stored: AnchorProfile | null | undefined): string | undefined {
+  for (const v of [stored?.name, stored?.description]) {
+    if (Array.isArray(v) && v.length) return languageOf(v[0]);
+  }
+  return undefined;
+}
+
+/**
+ * Display text of a localized value: the `language` variant if there is one,
+ * else the default (first) value. Plain strings pass through.
+ */
+export function localizedText(value: unknown, language?: string): string {
+  if (typeof value === "string") return value;
+  if (!Array.isArray(value) || !value.length) return "";
+  const wanted = language ? value.find((v) => isLangString(v) && v["@language"].toLowerCase() === language.toLowerCase()) : undefined;
+  const chosen = wanted ?? value[0];
+  return typeof chosen === "string" ? chosen : isLangString(chosen) ? chosen["@value"] : "";
+}
+
+/**
+ * Split a localized value for editing: the default-language text(s) and
+ * language, and every other-language value as a translation. The default is
+ * `language` when given, else whatever the value leads with.
+ */
+export function splitLocalized(
+  value: unknown,
+  defaultLanguage?: string
+): { texts: string[]; language: string; translations: LangString[] } {
+  const values: Array<string | LangString> = typeof value === "string" ? [value] : Array.isArray(value) ? value : [];
+  const language = defaultLanguage ?? (values.length ? languageOf(values[0]) ?? "" : "");
+  const texts: string[] = [];
+  const translations: LangString[] = [];
+  for (const v of values) {
+    if (typeof v === "string") texts.push(v);
+    else if (isLangString(v) && v["@language"] === language) texts.push(v["@value"]);
+    else if (isLangString(v)) translations.push(v);
+  }
+  return { texts, language, translations };
+}
+
+/** A LangString before its tag has been checked. */
+export type RawLangString = { "@value": string; "@language": string };
+
+/**
+ * Parse the edit forms' translation boxes: one "<tag>: <text>" per line.
+ * Lines without a colon are kept with an empty tag so validation can
+ * report them instead of silently dropping text.
+ */
+export function parseTranslationLines(text: unknown): RawLangString[] {
+  if (typeof text !== "string") return [];
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const m = /^([A-Za-z0-9-]+)\s*:\s*(.+)$/.exec(line);
+      return m ? { "@value": m[2].trim(), "@language": m[1] } : { "@value": line, "@language": "" };
+    });
+}
+
+/** Format translations for the edit forms' boxes (inverse of parseTranslationLines). */
+export function formatTranslationLines(values: LangString[]): string {
+  return values.map((v) => `${v["@language"]}: ${v["@value"]}`).join("\n");
+}
+
+function validateLocalized(field: string, value: unknown, errors: ProfileFieldError[]): void {
+  const fail = (reason: ProfileFieldError["reason"]): void => {
+    errors.push({ field, reason });
+  };
+  const entries = typeof value === "string" ? [] : localizedEntries(value);
+  if (!entries) return fail("invalid_type");
+  if (entries.some((e) => typeof e.text !== "string")) return fail("invalid_type");
+
+  const languages: string[] = [];
+  for (const e of entries) {
+    if (e.language == null || e.language === "") {
+      // An explicitly empty tag comes from a translation line with no "tag:"
+      if (e.language === "") return fail("invalid_language");
+      continue;
+    }
+    const tag = canonicalLanguageTag(e.language);
+    if (!tag) return fail("invalid_language");
+    if (String(e.text).trim()) languages.push(tag);
+  }
+
+  const distinct = new Set(languages);
+  if (distinct.size > PROFILE_FIELD_LIMITS.languages) return fail("too_many");
+  if (field !== "alternateName" && distinct.size !== languages.length) fail("duplicate_language");
+}
+
+function isPlainEmail(s: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
+}
+
+/** Single-line text: trimmed, inner whitespace runs collapsed. */
+function canonicalizeLine(value: unknown): string | undefined {
+  if (!isNonEmptyString(value)) return undefined;
+  return value.trim().replace(/\s+/g, " ");
+}
+
+function canonicalizeEmail(value: unknown): string | undefined {
+  const s = canonicalizeLine(value);
+  return s && s.length <= PROFILE_FIELD_LIMITS.email && isPlainEmail(s) ? s : undefined;
+}
+
+function canonicalizeImageUrl(value: unknown): string | undefined {
+  const canon = canonicalizeUrl(value);
+  return canon && canon.length <= PROFILE_FIELD_LIMITS.imageUrl ? canon : undefined;
+}
+
+function canonicalizeBoundedLine(value: unknown, max: number): string | undefined {
+  const s = canonicalizeLine(value);
+  return s && s.length <= max ? s : undefined;
+}
+
+function canonicalizeKnowsAbout(value: unknown): string[] | undefined {
+  const items = (canonicalizeStringArray(value) ?? [])
+    .map((x) => x.replace(/\s+/g, " "))
+    .filter((x) => x.length <= PROFILE_FIELD_LIMITS.knowsAboutItem)
+    .slice(0, PROFILE_FIELD_LIMITS.knowsAboutItems);
+  return items.length ? items : undefined;
+}
+
+/**
+ * Strict checks for language-tagged text and the extended fields of
+ * `entityType`, run by the write paths before buildProfile(). buildProfile()
+ * itself stays lenient and drops what it cannot canonicalize; this is what
+ * tells the user why. Empty values are valid (they clear the field); fields
+ * the type does not carry are ignored, as buildProfile() ignores them.
+ */
+export function validateProfileInput(input: ProfileInput, entityType: EntityType): ProfileFieldError[] {
+  const errors: ProfileFieldError[] = [];
+  const fields: readonly string[] = EXTENDED_PROFILE_FIELDS[entityType];
+  const limits = PROFILE_FIELD_LIMITS;
+
+  for (const field of LOCALIZED_PROFILE_FIELDS) {
+    if (input[field] != null) validateLocalized(field, input[field], errors);
+  }
+  if (isNonEmptyString(input.defaultLanguage) && !canonicalLanguageTag(input.defaultLanguage)) {
+    errors.push({ field: "defaultLanguage", reason: "invalid_language" });
+  } else if (input.defaultLanguage != null && typeof input.defaultLanguage !== "string") {
+    errors.push({ field: "defaultLanguage", reason: "invalid_type" });
+  }
+
+  for (const field of fields) {
+    if (!(field in input)) continue;
+    const value = (input as Record<string, unknown>)[field];
+    if (value == null || value === "") continue;
+    const fail = (reason: ProfileFieldError["reason"]) => errors.push({ field, reason });
+
+    if (field === "knowsAbout") {
+      const items = Array.isArray(value) ? value : typeof value === "string" ? splitMultilineOrComma(value) : null;
+      if (!items || !items.every((x) => typeof x === "string")) fail("invalid_type");
+      else if (items.filter((x) => x.trim()).length > limits.knowsAboutItems) fail("too_many");
+      else if (items.some((x) => x.trim().length > limits.knowsAboutItem)) fail("too_long");
+      continue;
+    }
+
+    if (typeof value !== "string") {
+      fail("invalid_type");
+      continue;
+    }
+    const s = value.trim();
+    if (!s) continue;
+
+    if (field === "image" || field === "logo") {
+      if (s.length > limits.imageUrl) fail("too_long");
+      else if (!canonicalizeUrl(s)) fail("invalid_url");
+    } else if (field === "email") {
+      if (s.length > limits.email) fail("too_long");
+      else if (!isPlainEmail(s)) fail("invalid_email");
+    } else if (field === "jobTitle" || field === "legalName") {
+      if (s.length > limits[field]) fail("too_long");
+    }
+  }
+  return errors;
+}
+
 /**
  * Canonicalize founding date.
  * Accepts ISO 8601 date string (YYYY-MM-DD or full datetime).
@@ -462,6 +816,8 @@ function canonicalizeFoundingDate(value: unknown): string | undefined {
  * - `dateCreated` is immutable after first write
  * - `@type` is immutable after first write (Person or Organization)
  * - URL normalization + dedupe for `url` and `sameAs`
+ * - Extended fields (email, image/jobTitle/knowsAbout, logo/legalName) are
+ *   canonicalized and bounded; values that fail are dropped, not stored
  * - `sameAs` merge policy:
  *   - manual sameAs comes from stored (or input on writes)
  *   - verifiedUrls are merged in as an effective/public union set
@@ -500,10 +856,22 @@ export function buildProfile(
     (input?.["@type"] === "Organization" ? "Organization" : "Person");
 
   // Canonicalize optional inputs (input wins if present)
-  const name = canonicalizeString(input?.name) ?? stored?.name;
+  // Untagged strings in this input take its defaultLanguage, else the stored one.
+  const defaultLanguage = input && "defaultLanguage" in (input as any)
+    ? canonicalLanguageTag(input.defaultLanguage)
+    : storedDefaultLanguage(stored);
+
+  const name = canonicalizeLocalized(input?.name, defaultLanguage, true) ?? stored?.name;
   const alternateName =
-    canonicalizeStringArray(input?.alternateName) ?? stored?.alternateName;
-  const description = canonicalizeString(input?.description) ?? stored?.description;
+    (canonicalizeLocalized(input?.alternateName, defaultLanguage, false) as Array<string | LangString> | undefined) ??
+    stored?.alternateName;
+  const description = canonicalizeLocalized(input?.description, defaultLanguage, true) ?? stored?.description;
+
+  // Extended fields: present in input (even empty) replaces the stored value.
+  const fromInput = <T>(key: keyof ProfileInput, canon: (v: unknown) => T | undefined, storedValue: T | undefined) =>
+    input && key in (input as any) ? canon(input[key]) : storedValue;
+
+  const email = fromInput("email", canonicalizeEmail, stored?.email);
 
   const url = (() => {
     const candidate = input?.url ?? stored?.url;
@@ -566,6 +934,7 @@ export function buildProfile(
     ...(description ? { description } : {}),
     ...(url ? { url } : {}),
     ...(sameAs && sameAs.length ? { sameAs } : {}),
+    ...(email ? { email } : {}),
     mainEntityOfPage: refs.mainEntityOfPage,
     subjectOf: refs.subjectOf,
     isPartOf: WEBSITE,
@@ -587,11 +956,20 @@ export function buildProfile(
       return storedOrg?.foundingDate;
     })();
 
+    const logo = fromInput("logo", canonicalizeImageUrl, storedOrg?.logo);
+    const legalName = fromInput(
+      "legalName",
+      (v) => canonicalizeBoundedLine(v, PROFILE_FIELD_LIMITS.legalName),
+      storedOrg?.legalName
+    );
+
     candidate = {
       ...baseFields,
       "@type": "Organization",
       ...(founder ? { founder } : {}),
       ...(foundingDate ? { foundingDate } : {}),
+      ...(logo ? { logo } : {}),
+      ...(legalName ? { legalName } : {}),
     } as OrganizationProfile;
   } else {
     // Person-specific fields
@@ -602,10 +980,21 @@ export function buildProfile(
       return storedPerson?.affiliation;
     })();
 
+    const image = fromInput("image", canonicalizeImageUrl, storedPerson?.image);
+    const jobTitle = fromInput(
+      "jobTitle",
+      (v) => canonicalizeBoundedLine(v, PROFILE_FIELD_LIMITS.jobTitle),
+      storedPerson?.jobTitle
+    );
+    const knowsAbout = fromInput("knowsAbout", canonicalizeKnowsAbout, storedPerson?.knowsAbout);
+
     candidate = {
       ...baseFields,
       "@type": "Person",
       ...(affiliation ? { affiliation } : {}),
+      ...(image ? { image } : {}),
+      ...(jobTitle ? { jobTitle } : {}),
+      ...(knowsAbout ? { knowsAbout } : {}),
     } as PersonProfile;
   }
 
@@ -17,3 +17,4 @@
 export * from "./anchorid_profile";
 
 
+export * from "./rdf";
@@ -0,0 +1,310 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * RDF serializations of a resolved profile (Turtle, N-Triples, RDF/XML).
+ *
+ * This is not a general JSON-LD processor. It converts exactly the shape that
+ * buildProfile() produces: a schema.org context, nested nodes with or without
+ * "@id", "@type" strings, and plain string/array values — alone, or as the
+ * nodes of a top-level "@graph". Every other key maps to
+ * http://schema.org/<key>. Properties whose values are URLs become IRIs,
+ * date properties become typed literals, everything else is a plain literal.
+ *
+ * Nodes that share an "@id" merge, as they would under any JSON-LD processor:
+ * mainEntityOfPage points at the resolver URL, so the record's subject is
+ * typed both Person (or Organization) and WebPage.
+ */
+
+export const SCHEMA_NS = "http://schema.org/";
+const RDF_NS = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const XSD_NS = "http://www.w3.org/2001/XMLSchema#";
+
+export const RDF_MEDIA_TYPES = {
+  turtle: "text/turtle",
+  ntriples: "application/n-triples",
+  rdfxml: "application/rdf+xml",
+} as const;
+
+export type RdfMediaType = (typeof RDF_MEDIA_TYPES)[keyof typeof RDF_MEDIA_TYPES];
+
+/** schema.org properties whose string values are IRIs, not text. */
+const IRI_PROPERTIES = new Set(["url", "sameAs", "image", "logo"]);
+
+/**
+ * AnchorID annotations on references, not properties of the referenced
+ * entity; asserting them in RDF would attach them to the wrong node.
+ */
+const ANNOTATION_KEYS = new Set(["relationStatus"]);
+
+/** schema.org properties carrying ISO 8601 dates. */
+const DATE_PROPERTIES = new Set(["dateCreated", "dateModified", "foundingDate"]);
+
+type Term =
+  | { kind: "iri"; value: string }
+  | { kind: "bnode"; value: string }
+  | { kind: "literal"; value: string; datatype?: string; language?: string };
+
+interface Triple {
+  s: Term;
+  p: string;
+  o: Term;
+}
+
+// ------------------------------------------------------------------
+// JSON-LD → triples
+// ------------------------------------------------------------------
+
+function profileToTriples(doc: Record<string, unknown>): Triple[] {
+  const triples: Triple[] = [];
+  let nextBnode = 0;
+
+  const subjectFor = (node: Record<string, unknown>): Term => {
+    const id = node["@id"];
+    return typeof id === "string" && id
+      ? { kind: "iri", value: id }
+      : { kind: "bnode", value: `b${nextBnode++}` };
+  };
+
+  const literalFor = (key: string, value: unknown): Term | null => {
+    if (typeof value === "string") {
+      if (IRI_PROPERTIES.has(key)) return { kind: "iri", value };
+      if (DATE_PROPERTIES.has(key)) {
+        const datatype = /^\d{4}-\d{2}-\d{2}$/.test(value) ? "date" : "dateTime";
+        return { kind: "literal", value, datatype: XSD_NS + datatype };
+      }
+      return { kind: "literal", value };
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+      const datatype = Number.isInteger(value) ? "integer" : "decimal";
+      return { kind: "literal", value: String(value), datatype: XSD_NS + datatype };
+    }
+    if (typeof value === "boolean") {
+      return { kind: "literal", value: String(value), datatype: XSD_NS + "boolean" };
+    }
+    return null;
+  };
+
+  // Parent-to-child links are emitted before the child's own triples so the
+  // root subject always comes first in the output.
+  const visit = (node: Record<string, unknown>, subject: Term): void => {
+    const types = node["@type"];
+    for (const t of Array.isArray(types) ? types : [types]) {
+      if (typeof t === "string" && t) {
+        triples.push({ s: subject, p: RDF_NS + "type", o: { kind: "iri", value: SCHEMA_NS + t } });
+      }
+    }
+
+    for (const [key, raw] of Object.entries(node)) {
+      if (key.startsWith("@") || key.startsWith("_") || ANNOTATION_KEYS.has(key)) continue;
+
+      const predicate = SCHEMA_NS + key;
+      for (const value of Array.isArray(raw) ? raw : [raw]) {
+        if (value && typeof value === "object") {
+          const obj = value as Record<string, unknown>;
+          if (typeof obj["@value"] === "string") {
+            triples.push({
+              s: subject,
+              p: predicate,
+              o: {
+                kind: "literal",
+                value: obj["@value"],
+                language: typeof obj["@language"] === "string" ? obj["@language"] : undefined,
+              },
+            });
+            continue;
+          }
+          const child = subjectFor(obj);
+          triples.push({ s: subject, p: predicate, o: child });
+          visit(obj, child);
+          continue;
+        }
+
+        const term = literalFor(key, value);
+        if (term) triples.push({ s: subject, p: predicate, o: term });
+      }
+    }
+  };
+
+  // ?expand=relations wraps the record and its relations in an @graph.
+  const graph = doc["@graph"];
+  for (const node of Array.isArray(graph) ? graph : [doc]) {
+    visit(node as Record<string, unknown>, subjectFor(node as Record<string, unknown>));
+  }
+  return triples;
+}
+
+// ------------------------------------------------------------------
+// N-Triples
+// ------------------------------------------------------------------
+
+function escapeLiteral(s: string): string {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+}
+
+/** IRIREF forbids these characters outright; \u-escape them. */
+function escapeIri(s: string): string {
+  return s.replace(/[\u0000- <>"{}|^`\\]/g, (c) =>
+    "\\u" + c.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")
+  );
+}
+
+function ntTerm(t: Term): string {
+  if (t.kind === "iri") return `<${escapeIri(t.value)}>`;
+  if (t.kind === "bnode") return `_:${t.value}`;
+  let out = `"${escapeLiteral(t.value)}"`;
+  if (t.language) out += `@${t.language}`;
+  else if (t.datatype) out += `^^<${escapeIri(t.datatype)}>`;
+  return out;
+}
+
+export function toNTriples(doc: Record<string, unknown>): string {
+  return profileToTriples(doc)
+    .map((t) => `${ntTerm(t.s)} <${escapeIri(t.p)}> ${ntTerm(t.o)} .\n`)
+    .join("");
+}
+
+// ------------------------------------------------------------------
+// Turtle
+// ------------------------------------------------------------------
+
+function ttlName(iri: string): string {
+  if (iri === RDF_NS + "type") return "a";
+  for (const [prefix, ns] of [["schema", SCHEMA_NS], ["xsd", XSD_NS]] as const) {
+    if (iri.startsWith(ns)) {
+      const local = iri.slice(ns.length);
+      if (/^[A-Za-z][A-Za-z0-9]*$/.test(local)) return `${prefix}:${local}`;
+    }
+  }
+  return `<${escapeIri(iri)}>`;
+}
+
+function ttlTerm(t: Term, position: "subject" | "object"): string {
+  if (t.kind === "iri") {
+    // rdf:type objects read better as schema:Person than as a full IRI.
+    return position === "object" && t.value.startsWith(SCHEMA_NS) ? ttlName(t.value) : `<${escapeIri(t.value)}>`;
+  }
+  if (t.kind === "bnode") return `_:${t.value}`;
+  let out = `"${escapeLiteral(t.value)}"`;
+  if (t.language) out += `@${t.language}`;
+  else if (t.datatype) out += `^^${ttlName(t.datatype)}`;
+  return out;
+}
+
+function groupBySubject(triples: Triple[]): Map<string, { subject: Term; byPredicate: Map<string, Term[]> }> {
+  const groups = new Map<string, { subject: Term; byPredicate: Map<string, Term[]> }>();
+  for (const t of triples) {
+    const key = `${t.s.kind}:${t.s.value}`;
+    let g = groups.get(key);
+    if (!g) {
+      g = { subject: t.s, byPredicate: new Map() };
+      groups.set(key, g);
+    }
+    const list = g.byPredicate.get(t.p) ?? [];
+    list.push(t.o);
+    g.byPredicate.set(t.p, list);
+  }
+  return groups;
+}
+
+export function toTurtle(doc: Record<string, unknown>): string {
+  const lines = [
+    `@prefix schema: <${SCHEMA_NS}> .`,
+    `@prefix xsd: <${XSD_NS}> .`,
+    "",
+  ];
+
+  for (const { subject, byPredicate } of groupBySubject(profileToTriples(doc)).values()) {
+    const preds = [...byPredicate.entries()].map(
+      ([p, objs]) => `    ${ttlName(p)} ${objs.map((o) => ttlTerm(o, "object")).join(", ")}`
+    );
+    lines.push(`${ttlTerm(subject, "subject")}\n${preds.join(" ;\n")} .`, "");
+  }
+
+  return lines.join("\n");
+}
+
+// ------------------------------------------------------------------
+// RDF/XML
+// ------------------------------------------------------------------
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function xmlPredicate(iri: string): string {
+  if (iri === RDF_NS + "type") return "rdf:type";
+  // schema.org property names are always valid NCNames.
+  return `schema:${iri.slice(SCHEMA_NS.length)}`;
+}
+
+export function toRdfXml(doc: Record<string, unknown>): string {
+  const out = [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<rdf:RDF xmlns:rdf="${RDF_NS}" xmlns:schema="${SCHEMA_NS}">`,
+  ];
+
+  for (const { subject, byPredicate } of groupBySubject(profileToTriples(doc)).values()) {
+    const about = subject.kind === "iri"
+      ? `rdf:about="${escapeXml(subject.value)}"`
+      : `rdf:nodeID="${subject.value}"`;
+    out.push(`  <rdf:Description ${about}>`);
+
+    for (const [p, objs] of byPredicate) {
+      const tag = xmlPredicate(p);
+      for (const o of objs) {
+        if (o.kind === "iri") {
+          out.push(`    <${tag} rdf:resource="${escapeXml(o.value)}"/>`);
+        } else if (o.kind === "bnode") {
+          out.push(`    <${tag} rdf:nodeID="${o.value}"/>`);
+        } else {
+          const attr = o.language
+            ? ` xml:lang="${escapeXml(o.language)}"`
+            : o.datatype
+              ? ` rdf:datatype="${escapeXml(o.datatype)}"`
+              : "";
+          out.push(`    <${tag}${attr}>${escapeXml(o.value)}</${tag}>`);
+        }
+      }
+    }
+
+    out.push(`  </rdf:Description>`);
+  }
+
+  out.push(`</rdf:RDF>`, "");
+  return out.join("\n");
+}
+
+/** Serialize a resolved profile to one of the RDF_MEDIA_TYPES. */
+export function serializeRdf(doc: Record<string, unknown>, mediaType: RdfMediaType): string {
+  switch (mediaType) {
+    case RDF_MEDIA_TYPES.turtle:
+      return toTurtle(doc);
+    case RDF_MEDIA_TYPES.ntriples:
+      return toNTriples(doc);
+    case RDF_MEDIA_TYPES.rdfxml:
+      return toRdfXml(doc);
+  }
+}
@@ -44,9 +44,13 @@ export interface Env {
   // Per-IP rate limits
   IP_RESOLVE_RL_PER_HOUR?: string; // default 300 (per IP for /resolve/<uuid> endpoint)
   IP_CLAIMS_RL_PER_HOUR?: string;  // default 300 (per IP for /claims/<uuid> endpoint)
+  IP_RESOLVE_BATCH_RL_PER_HOUR?: string; // default 3000 (per IP, counted per UUID, for POST /resolve/batch)
+  RESOLVE_BATCH_MAX?: string;      // default 100 (max UUIDs per POST /resolve/batch)
+  CHANGES_SETTLE_SECONDS?: string; // default 60 (how far /changes stays behind now; see src/changes.ts)
   IP_LOGIN_RL_PER_HOUR?: string;   // default 10 (per IP for login attempts)
   IP_EDIT_RL_PER_HOUR?: string;    // default 30 (per IP for edit page loads)
   IP_UPDATE_RL_PER_HOUR?: string;  // default 60 (per IP for update submissions)
+  IP_VALIDATE_RL_PER_HOUR?: string; // default 120 (per IP for POST /validate)
   IP_CLAIM_RL_PER_HOUR?: string;   // default 30 (per IP for claim creation)
   IP_VERIFY_RL_PER_HOUR?: string;  // default 20 (per IP for claim verification)
   IP_ADMIN_LOGIN_RL_PER_HOUR?: string; // default 5 (per IP for admin login)
@@ -62,6 +66,13 @@ export interface Env {
   // MUST NOT be rotated or removed once set — see src/email-index.ts.
   EMAIL_PEPPER?: string;
 
+  // Optional: Ed25519 signing of /resolve and /claims JSON bodies.
+  // SIGNING_KEY is the current private key as a JWK (Wrangler secret);
+  // SIGNING_KEYS_RETIRED is a JSON array of earlier *public* JWKs, kept in
+  // /.well-known/jwks.json after a rotation. See src/signing.ts.
+  SIGNING_KEY?: string;
+  SIGNING_KEYS_RETIRED?: string;
+
   // Optional: expose the raw KV key-enumeration endpoint at /admin/debug/kv
   ENABLE_ADMIN_DEBUG?: string; // "true" to enable
 
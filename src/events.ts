@@ -0,0 +1,307 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Public change feeds: /feed/<uuid>.atom and /feed/<uuid>.json
+ *
+ * The audit log is admin-only (it records IPs and login methods), so feeds
+ * read a separate, public-safe event log written alongside it:
+ *
+ *   events:<uuid> → PublicEvent[] (newest first, capped)
+ *
+ * An event carries only what /resolve and /claims already publish: changed
+ * field values, and the id, type and URL of a claim that was added,
+ * verified, failed or deleted. Underscore-prefixed metadata never appears.
+ *
+ * Feeds are JSON Feed 1.1 and Atom (RFC 4287). Event ids are per-identity
+ * sequence numbers, so entry ids stay stable as older events fall off the end.
+ *
+ * A superseded identity's feed, like its /resolve record, publishes nothing
+ * of the old profile: its one entry points at the successor.
+ * Like the audit log, appends are a non-atomic KV read-modify-write.
+ */
+
+import type { Env } from "./env";
+import type { Claim } from "./claims/types";
+import { isUuid } from "./claims/store";
+import { ALL_EXTENDED_PROFILE_FIELDS, localizedText } from "./domain/profile";
+import { conditionalResponse, securityHeaders } from "./http";
+import { loadSuccession, type Succession } from "./succession";
+
+export type PublicEventType =
+  | "profile_updated"
+  | "claim_added"
+  | "claim_verified"
+  | "claim_failed"
+  | "claim_deleted"
+  | "superseded";
+
+export interface FieldChange {
+  field: string;
+  from?: unknown; // absent when the field was added
+  to?: unknown; // absent when the field was removed
+}
+
+export interface PublicEvent {
+  id: number;
+  type: PublicEventType;
+  at: string; // ISO 8601
+  changes?: FieldChange[];
+  claim?: { id: string; type: string; url: string };
+  failReason?: string;
+  supersededBy?: string; // uuid of the successor
+}
+
+export type FeedFormat = "atom" | "json";
+
+const EVENT_LOG_LIMIT = 100;
+
+/** Published profile fields whose changes are reported. */
+const FEED_FIELDS = [
+  "name",
+  "alternateName",
+  "url",
+  "description",
+  "sameAs",
+  "founder",
+  "foundingDate",
+  "affiliation",
+  ...ALL_EXTENDED_PROFILE_FIELDS,
+];
+
+export function eventsKey(uuid: string): string {
+  return `events:${uuid.toLowerCase()}`;
+}
+
+export function feedUrl(uuid: string, format: FeedFormat): string {
+  return `https://anchorid.net/feed/${uuid.toLowerCase()}.${format}`;
+}
+
+export async function loadEvents(env: Env, uuid: string): Promise<PublicEvent[]> {
+  const raw = await env.ANCHOR_KV.get(eventsKey(uuid), { type: "json" });
+  return Array.isArray(raw) ? (raw as PublicEvent[]) : [];
+}
+
+/** Record an event; `id` and `at` are assigned here. */
+export async function appendEvent(
+  env: Env,
+  uuid: string,
+  event: Omit<PublicEvent, "id" | "at">
+): Promise<PublicEvent> {
+  const log = await loadEvents(env, uuid);
+  const entry: PublicEvent = { id: (log[0]?.id ?? 0) + 1, at: new Date().toISOString(), ...event };
+  log.unshift(entry);
+  if (log.length > EVENT_LOG_LIMIT) log.length = EVENT_LOG_LIMIT;
+  await env.ANCHOR_KV.put(eventsKey(uuid), JSON.stringify(log));
+  return entry;
+}
+
+/** Old and new values of every published field that differs. */
+export function profileFieldChanges(before: any, after: any): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of FEED_FIELDS) {
+    const a = before?.[field];
+    const b = after?.[field];
+    if (JSON.stringify(a ?? null) === JSON.stringify(b ?? null)) continue;
+    changes.push({ field, ...(a !== undefined ? { from: a } : {}), ...(b !== undefined ? { to: b } : {}) });
+  }
+  return changes;
+}
+
+/** Record a profile save, if it changed anything published. */
+export async function recordProfileEvent(env: Env, uuid: string, before: any, after: any): Promise<void> {
+  const changes = profileFieldChanges(before, after);
+  if (changes.length) await appendEvent(env, uuid, { type: "profile_updated", changes });
+}
+
+/** The public part of a claim, as carried by claim events. */
+export function claimRef(claim: Claim): NonNullable<PublicEvent["claim"]> {
+  return { id: claim.id, type: claim.type, url: claim.url };
+}
+
+// ------------------------------------------------------------------
+// Rendering
+// ------------------------------------------------------------------
+
+const CLAIM_TITLES: Record<Exclude<PublicEventType, "profile_updated" | "superseded">, string> = {
+  claim_added: "Claim added",
+  claim_verified: "Claim verified",
+  claim_failed: "Claim failed verification",
+  claim_deleted: "Claim deleted",
+};
+
+function eventTitle(event: PublicEvent): string {
+  if (event.type === "profile_updated") {
+    return `Profile updated: ${(event.changes || []).map((c) => c.field).join(", ")}`;
+  }
+  if (event.type === "superseded") {
+    return `Superseded by https://anchorid.net/resolve/${event.supersededBy}`;
+  }
+  const claim = event.claim;
+  return `${CLAIM_TITLES[event.type]}${claim ? `: ${claim.type} ${claim.url}` : ""}`;
+}
+
+function eventText(event: PublicEvent): string {
+  if (event.type === "profile_updated") {
+    return (event.changes || [])
+      .map((c) => {
+        const from = c.from === undefined ? "(unset)" : JSON.stringify(c.from);
+        const to = c.to === undefined ? "(unset)" : JSON.stringify(c.to);
+        return `${c.field}: ${from} → ${to}`;
+      })
+      .join("\n");
+  }
+  const lines = [eventTitle(event)];
+  if (event.failReason) lines.push(`Reason: ${event.failReason}`);
+  return lines.join("\n");
+}
+
+/**
+ * Where an entry links: the record for profile changes, the successor's
+ * record for succession, the ledger for claims.
+ */
+function eventLink(uuid: string, event: PublicEvent): string {
+  if (event.type === "superseded") return `https://anchorid.net/resolve/${event.supersededBy}`;
+  return event.type === "profile_updated"
+    ? `https://anchorid.net/resolve/${uuid}`
+    : `https://anchorid.net/claims/${uuid}`;
+}
+
+/** The one entry of a superseded identity's feed. Logged events start at 1. */
+function supersededEvent(succession: Succession): PublicEvent {
+  return { id: 0, type: "superseded", at: succession.at, supersededBy: succession.supersededBy };
+}
+
+function eventId(uuid: string, event: PublicEvent): string {
+  return `https://anchorid.net/feed/${uuid}#event-${event.id}`;
+}
+
+function xmlEscape(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+export interface FeedContext {
+  uuid: string;
+  name: string;
+  /** Feed-level timestamp when there are no events yet. */
+  updated: string;
+}
+
+export function renderAtomFeed(ctx: FeedContext, events: PublicEvent[]): string {
+  const u = ctx.uuid.toLowerCase();
+  const updated = events[0]?.at || ctx.updated;
+  const entries = events.map((e) => `  <entry>
+    <id>${xmlEscape(eventId(u, e))}</id>
+    <title>${xmlEscape(eventTitle(e))}</title>
+    <updated>${xmlEscape(e.at)}</updated>
+    <link rel="alternate" href="${xmlEscape(eventLink(u, e))}"/>
+    <category term="${e.type}"/>
+    <content type="text">${xmlEscape(eventText(e))}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${xmlEscape(feedUrl(u, "atom"))}</id>
+  <title>${xmlEscape(`${ctx.name} • AnchorID changes`)}</title>
+  <updated>${xmlEscape(updated)}</updated>
+  <link rel="self" type="application/atom+xml" href="${xmlEscape(feedUrl(u, "atom"))}"/>
+  <link rel="alternate" type="text/html" href="https://anchorid.net/resolve/${u}"/>
+  <author><name>AnchorID</name><uri>https://anchorid.net</uri></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+export function renderJsonFeed(ctx: FeedContext, events: PublicEvent[]): Record<string, unknown> {
+  const u = ctx.uuid.toLowerCase();
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: `${ctx.name} • AnchorID changes`,
+    home_page_url: `https://anchorid.net/resolve/${u}`,
+    feed_url: feedUrl(u, "json"),
+    authors: [{ name: "AnchorID", url: "https://anchorid.net" }],
+    items: events.map((e) => ({
+      id: eventId(u, e),
+      url: eventLink(u, e),
+      title: eventTitle(e),
+      content_text: eventText(e),
+      date_published: e.at,
+      tags: [e.type],
+      // JSON Feed extension: the structured event
+      _anchorid: e,
+    })),
+  };
+}
+
+// ------------------------------------------------------------------
+// Handler
+// ------------------------------------------------------------------
+
+const FEED_MEDIA_TYPES: Record<FeedFormat, string> = {
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+/** GET /feed/<uuid>.atom | /feed/<uuid>.json */
+export async function handleFeed(request: Request, env: Env, uuid: string, format: FeedFormat): Promise<Response> {
+  const errorHeaders = { "content-type": "application/json; charset=utf-8", ...securityHeaders() };
+  if (!isUuid(uuid)) {
+    return new Response(JSON.stringify({ error: "invalid_uuid" }, null, 2), {
+      status: 400,
+      headers: { ...errorHeaders, "cache-control": "no-store" },
+    });
+  }
+  const u = uuid.toLowerCase();
+
+  const profile = (await env.ANCHOR_KV.get(`profile:${u}`, { type: "json" })) as any | null;
+  if (!profile) {
+    return new Response(JSON.stringify({ error: "not_found" }, null, 2), {
+      status: 404,
+      headers: { ...errorHeaders, "cache-control": "public, max-age=60" },
+    });
+  }
+
+  const succession = await loadSuccession(env, u);
+  const events = succession ? [supersededEvent(succession)] : await loadEvents(env, u);
+  const ctx: FeedContext = succession
+    ? { uuid: u, name: u, updated: succession.at }
+    : {
+        uuid: u,
+        name: localizedText(profile.name) || u,
+        updated: profile.dateModified || profile.dateCreated || new Date().toISOString(),
+      };
+  const body = format === "atom"
+    ? renderAtomFeed(ctx, events)
+    : JSON.stringify(renderJsonFeed(ctx, events), null, 2);
+
+  return conditionalResponse(
+    request,
+    body,
+    {
+      "content-type": FEED_MEDIA_TYPES[format],
+      "cache-control": "public, max-age=300, s-maxage=300",
+      "access-control-allow-origin": "*",
+      ...securityHeaders(),
+    },
+    events[0]?.at || ctx.updated
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * Immutable revision history of the published record.
+ *
+ * KV layout:
+ *   history:<uuid>         → RevisionIndexEntry[] (oldest first)
+ *   revision:<uuid>:<rev>  → Revision (written once, never rewritten)
+ *
+ * A revision captures what /resolve returned at that moment — the record
+ * from loadStoredResolvedProfile(), with verified claims merged into sameAs,
+ * relation status and members applied, or the minimal record once
+ * superseded — plus the verified claims themselves. recordRevision() is
+ * called after any write that can change that (profile save, claim
+ * verify/delete, relation writes at either end, succession) and is a no-op
+ * when the published record did not actually change, so callers need not
+ * diff.
+ *
+ * Profiles created before history existed have no revisions. Write paths
+ * call seedHistory() *before* writing so the prior state becomes revision 1
+ * instead of being lost; a relation write seeds the profiles at the other
+ * ends too (seedRelatedHistory(), or seedHistories() as the beforeWrite of
+ * syncOutgoingRelations()).
+ *
+ * Like the audit log, the index is a non-atomic KV read-modify-write; two
+ * concurrent saves of one profile can race. Known limitation, same as every
+ * other KV counter/list here.
+ */
+
+import type { Env } from "./env";
+import type { Claim } from "./claims/types";
+import { loadClaims } from "./claims/store";
+import { loadRelations } from "./relations";
+import { loadStoredResolvedProfile } from "./resolve";
+
+export type RevisionReason = "create" | "update" | "claims" | "relations" | "succession" | "seed";
+
+export interface RevisionIndexEntry {
+  rev: number;
+  at: string; // ISO 8601; when this state became current
+  reason: RevisionReason;
+  changes?: string[];
+  /** Ids of the claims verified in this revision. */
+  verifiedClaims: string[];
+  digest: string; // SHA-256 of the record; skips no-op revisions
+}
+
+export interface RevisionClaim {
+  id: string;
+  type: string;
+  url: string;
+  verifiedAt?: string;
+}
+
+export interface Revision {
+  rev: number;
+  at: string;
+  record: Record<string, any>;
+  verifiedClaims: RevisionClaim[];
+}
+
+export function historyKey(uuid: string): string {
+  return `history:${uuid.toLowerCase()}`;
+}
+
+export function revisionKey(uuid: string, rev: number): string {
+  return `revision:${uuid.toLowerCase()}:${rev}`;
+}
+
+export async function loadHistory(env: Env, uuid: string): Promise<RevisionIndexEntry[]> {
+  const raw = await env.ANCHOR_KV.get(historyKey(uuid), { type: "json" });
+  return Array.isArray(raw) ? (raw as RevisionIndexEntry[]) : [];
+}
+
+export async function loadRevision(env: Env, uuid: string, rev: number): Promise<Revision | null> {
+  return (await env.ANCHOR_KV.get(revisionKey(uuid, rev), { type: "json" })) as Revision | null;
+}
+
+/** Latest revision whose `at` is at or before `atMs`, or null. */
+export function revisionAt(index: RevisionIndexEntry[], atMs: number): RevisionIndexEntry | null {
+  let found: RevisionIndexEntry | null = null;
+  for (const entry of index) {
+    if (Date.parse(entry.at) <= atMs) found = entry;
+  }
+  return found;
+}
+
+/** Every KV key holding history for a UUID, for profile deletion. */
+export async function historyKeys(env: Env, uuid: string): Promise<string[]> {
+  const index = await loadHistory(env, uuid);
+  return [historyKey(uuid), ...index.map((e) => revisionKey(uuid, e.rev))];
+}
+
+async function digestRecord(record: unknown): Promise<string> {
+  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(record)));
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function verifiedClaimsOf(claims: Claim[]): RevisionClaim[] {
+  return claims
+    .filter((c) => c.status === "verified")
+    .map((c) => ({
+      id: c.id,
+      type: c.type,
+      url: c.url,
+      ...(c.verifiedAt ? { verifiedAt: c.verifiedAt } : {}),
+    }));
+}
+
+async function appendRevision(
+  env: Env,
+  uuid: string,
+  index: RevisionIndexEntry[],
+  reason: RevisionReason,
+  at: string | null,
+  changes?: string[]
+): Promise<RevisionIndexEntry | null> {
+  const resolved = await loadStoredResolvedProfile(env, uuid.toLowerCase());
+  if (!resolved) return null;
+
+  const { record, lastModified, verifiedUrls } = resolved;
+  const digest = await digestRecord(record);
+
+  const last = index[index.length - 1];
+  if (last && last.digest === digest) return null;
+
+  // Only the claims the record merged: none once superseded.
+  const verifiedClaims = verifiedClaimsOf(await loadClaims(env, uuid)).filter((c) => verifiedUrls.includes(c.url));
+  const entry: RevisionIndexEntry = {
+    rev: (last?.rev ?? 0) + 1,
+    at: at ?? lastModified ?? new Date().toISOString(),
+    reason,
+    ...(changes && changes.length ? { changes } : {}),
+    verifiedClaims: verifiedClaims.map((c) => c.id),
+    digest,
+  };
+
+  // Revision first: an index entry must never point at a missing snapshot.
+  const revision: Revision = { rev: entry.rev, at: entry.at, record, verifiedClaims };
+  await env.ANCHOR_KV.put(revisionKey(uuid, entry.rev), JSON.stringify(revision));
+  await env.ANCHOR_KV.put(historyKey(uuid), JSON.stringify([...index, entry]));
+  return entry;
+}
+
+/**
+ * Capture the current state as revision 1 if this UUID has no history yet.
+ * Call before a write. Dated from the record's own lastModified, since that
+ * is when the state it captures came into being.
+ */
+export async function seedHistory(env: Env, uuid: string): Promise<void> {
+  const index = await loadHistory(env, uuid);
+  if (index.length) return;
+  await appendRevision(env, uuid, index, "seed", null);
+}
+
+/** seedHistory() for each UUID; the `beforeWrite` of syncOutgoingRelations(). */
+export async function seedHistories(env: Env, uuids: string[]): Promise<void> {
+  for (const uuid of uuids) await seedHistory(env, uuid);
+}
+
+/**
+ * seedHistory() for every profile at the other end of `uuid`'s relations,
+ * whose record a relation write can change. Call before the write.
+ */
+export async function seedRelatedHistory(env: Env, uuid: string): Promise<void> {
+  const { outgoing, incoming } = await loadRelations(env, uuid);
+  await seedHistories(env, [...new Set([...outgoing.map((r) => r.target), ...incoming.map((r) => r.source)])]);
+}
+
+/** Capture the current state as a new revision if it differs from the last. */
+export async function recordRevision(
+  env: Env,
+  uuid: string,
+  reason: RevisionReason,
+  changes?: string[]
+): Promise<RevisionIndexEntry | null> {
+  const index = await loadHistory(env, uuid);
+  return appendRevision(env, uuid, index, reason, new Date().toISOString(), changes);
+}
@@ -94,3 +94,150 @@ export function secretPageHeaders(nonce: string): Record<string, string> {
     "referrer-policy": "no-referrer",
   };
 }
+
+/**
+ * Headers for images meant to be embedded on other sites (/badge). An SVG
+ * opened directly is a document, so it still gets a CSP with no script at
+ * all; CORP cross-origin lets other origins' <img> tags load it.
+ */
+export function embeddableImageHeaders(): Record<string, string> {
+  return {
+    "x-content-type-options": "nosniff",
+    "referrer-policy": "strict-origin-when-cross-origin",
+    "cross-origin-resource-policy": "cross-origin",
+    "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'; frame-ancestors *",
+  };
+}
+
+/**
+ * Pick a media type from `offered` for the request's Accept header.
+ *
+ * Each offered type takes the q-value of the most specific matching range
+ * (type/subtype over type/* over *\/*). Highest q wins; ties go to the
+ * earlier entry in `offered`, so list the server's preference first. A
+ * missing or empty Accept header means "anything" and yields offered[0].
+ * Returns null when every offered type is excluded (caller sends 406).
+ */
+export function negotiateMediaType(accept: string | null, offered: readonly string[]): string | null {
+  if (!accept || !accept.trim()) return offered[0] ?? null;
+
+  const ranges = accept.split(",").map((part) => {
+    const [range, ...params] = part.trim().toLowerCase().split(";");
+    let q = 1;
+    for (const p of params) {
+      const [k, v] = p.trim().split("=");
+      if (k === "q") {
+        const n = Number(v);
+        q = Number.isFinite(n) ? Math.min(Math.max(n, 0), 1) : 0;
+      }
+    }
+    return { range: range.trim(), q };
+  });
+
+  let best: string | null = null;
+  let bestQ = 0;
+
+  for (const type of offered) {
+    const [major] = type.split("/");
+    let q = -1;
+    let specificity = -1;
+    for (const r of ranges) {
+      const s = r.range === type ? 2 : r.range === `${major}/*` ? 1 : r.range === "*/*" ? 0 : -1;
+      if (s > specificity) {
+        specificity = s;
+        q = r.q;
+      }
+    }
+    if (q > bestQ) {
+      best = type;
+      bestQ = q;
+    }
+  }
+
+  return best;
+}
+
+// ------------------------------------------------------------------
+// Conditional GET (ETag / Last-Modified / 304)
+// ------------------------------------------------------------------
+
+/**
+ * Strong ETag over the exact response body. Every representation is a
+ * deterministic rendering of the stored record, so hashing the body gives
+ * each format its own validator without a separate per-format suffix.
+ */
+export async function bodyEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `"${hex.slice(0, 32)}"`;
+}
+
+/**
+ * RFC 9110 §13.2.2 evaluation order for GET/HEAD: If-None-Match wins when
+ * present (weak comparison, so a W/ prefix from an intermediary still
+ * matches); If-Modified-Since is only consulted without it. HTTP dates have
+ * one-second resolution, so the stored timestamp is truncated to match.
+ */
+export function isNotModified(request: Request, etag: string, lastModifiedMs: number | null): boolean {
+  const inm = request.headers.get("if-none-match");
+  if (inm !== null) {
+    const opaque = etag.replace(/^W\//, "");
+    return inm.split(",").some((t) => {
+      const tag = t.trim();
+      return tag === "*" || tag.replace(/^W\//, "") === opaque;
+    });
+  }
+
+  const ims = request.headers.get("if-modified-since");
+  if (ims !== null && lastModifiedMs !== null) {
+    const since = Date.parse(ims);
+    if (Number.isNaN(since)) return false;
+    return Math.floor(lastModifiedMs / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+/**
+ * 200 with ETag/Last-Modified, or a bodiless 304 when the client's copy is
+ * current. `lastModified` is an ISO timestamp (or null when unknown). The
+ * 304 repeats the headers a cache needs to refresh its stored entry.
+ */
+export async function conditionalResponse(
+  request: Request,
+  body: string,
+  headers: Record<string, string>,
+  lastModified: string | null
+): Promise<Response> {
+  const etag = await bodyEtag(body);
+  const lastModifiedMs = lastModified ? Date.parse(lastModified) : NaN;
+  const validators: Record<string, string> = { etag };
+  if (!Number.isNaN(lastModifiedMs)) {
+    validators["last-modified"] = new Date(lastModifiedMs).toUTCString();
+  }
+
+  if (isNotModified(request, etag, Number.isNaN(lastModifiedMs) ? null : lastModifiedMs)) {
+    const keep: Record<string, string> = {};
+    for (const name of ["cache-control", "vary"]) {
+      if (headers[name]) keep[name] = headers[name];
+    }
+    return new Response(null, { status: 304, headers: { ...keep, ...validators } });
+  }
+
+  return new Response(body, { status: 200, headers: { ...headers, ...validators } });
+}
+
+/** Latest of a set of ISO timestamps, ignoring missing/unparseable ones. */
+export function latestIso(values: Array<string | null | undefined>): string | null {
+  let best: string | null = null;
+  let bestMs = -Infinity;
+  for (const v of values) {
+    if (!v) continue;
+    const ms = Date.parse(v);
+    if (!Number.isNaN(ms) && ms > bestMs) {
+      best = v;
+      bestMs = ms;
+    }
+  }
+  return best;
+}
@@ -43,10 +43,29 @@ import {
 } from "./claims/handlers";
 
 import { loadClaims } from "./claims/store";
+import { syncCredentialStatus, reconcileCredentialStatus, handleGetClaimCredential, handleGetStatusList } from "./claims/credentials";
 
-import { buildProfile, mergeSameAs } from "./domain/profile";
+import { buildProfile, mergeSameAs, serializeRdf, validateProfileInput, localizedText, splitLocalized, formatTranslationLines, RDF_MEDIA_TYPES, ALL_EXTENDED_PROFILE_FIELDS } from "./domain/profile";
+import type { RdfMediaType } from "./domain/profile";
 import { sendEmail, hasEmailConfig } from "./email";
-import { securityHeaders, staticPageHeaders, secretPageHeaders, noncedHeaders, newScriptNonce, injectScriptNonce } from "./http";
+import { loadStoredResolvedProfile, expandRelations, MAX_EXPANSION_DEPTH, loadTombstone, tombstoneResponse } from "./resolve";
+import { buildDidDocument, DID_MEDIA_TYPE } from "./did";
+import { buildJrd, uuidFromWebfingerResource, JRD_MEDIA_TYPE } from "./webfinger";
+import { publicJwks, signedJsonBody, wantsEmbeddedProof } from "./signing";
+import { loadSuccession, saveSuccession, successionKey } from "./succession";
+import { loadRelations, syncOutgoingRelations, respondToRelation, detachRelations, confirmedIncoming, notifyRelationRequest, relationsKey, RELATION_KINDS, type RelationKind } from "./relations";
+import type { ResolvedProfile } from "./resolve";
+import { handleBadge } from "./badge";
+import { handleQr, type QrFormat } from "./qr";
+import { handleOgImage, type OgFormat } from "./og";
+import { jsonSchema, schemaUrl, SCHEMA_NAMES, SCHEMA_MEDIA_TYPE } from "./schemas";
+import { eventsKey, handleFeed, recordProfileEvent, type FeedFormat } from "./events";
+import { handleChanges, recordChange } from "./changes";
+import { handleSitemapIndex, handlePagesSitemap, handleProfileSitemap, rebuildSitemap } from "./sitemap";
+import { reconcileRelations, runCronStep, scanProfiles, type ScannedProfile } from "./cron";
+import { seedHistory, seedHistories, seedRelatedHistory, recordRevision, historyKeys, loadHistory, loadRevision, revisionAt } from "./history";
+import { renderProfileHtml, relatedEntityIds, uuidFromResolveUrl } from "./profile-html";
+import { securityHeaders, staticPageHeaders, secretPageHeaders, noncedHeaders, newScriptNonce, injectScriptNonce, negotiateMediaType, conditionalResponse, latestIso } from "./http";
 import type { Env } from "./env";
 import { intFromEnv, kvTtlFromEnv } from "./env";
 import { emailIndexHash, legacyEmailHash, lookupEmailUuid, emailPointerKey, deletedTombstoneKey } from "./email-index";
@@ -148,7 +167,8 @@ type ClaimAuthResult =
   | { ok: false; response: Response };
 
 /**
- * Shared authorization for /claim, /claim/verify and /claim/delete.
+ * Shared authorization for /claim, /claim/verify, /claim/delete,
+ * /relation/respond and /succession.
  *
  * Reads and parses the body once (malformed JSON is a 400, not an unhandled
  * exception), then authorizes either as admin or as the owner of the target
@@ -288,51 +308,64 @@ async function handleHealthCheck(env: Env): Promise<Response> {
 }
 
 
-// Purge unverified profiles that are 5+ days old (run from scheduled cron)
-async function purgeUnverifiedProfiles(env: Env): Promise<void> {
+// Purge unverified profiles that are 5+ days old (run from scheduled cron).
+// Returns every UUID it tried to purge, so later cron steps leave them out;
+// one failure is logged and the rest are still purged.
+async function purgeUnverifiedProfiles(env: Env, profiles: ScannedProfile[]): Promise<string[]> {
   const fiveDays = 5 * 24 * 60 * 60 * 1000;
   const now = Date.now();
+  const purged: string[] = [];
 
-  // List all profile UUIDs
-  const uuids: string[] = [];
-  let cursor: string | undefined;
-  do {
-    const result = await env.ANCHOR_KV.list({ prefix: "profile:", limit: 1000, cursor });
-    uuids.push(...result.keys.map(k => k.name.slice("profile:".length)));
-    cursor = result.list_complete ? undefined : (result as any).cursor;
-  } while (cursor);
-
-  for (const uuid of uuids) {
-    const stored = await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" }) as any | null;
-    if (!stored || stored._emailVerified) continue;
+  for (const { uuid, stored } of profiles) {
+    if (stored._emailVerified) continue;
 
     const created = stored.dateCreated ? new Date(stored.dateCreated).getTime() : null;
     if (!created || (now - created) < fiveDays) continue;
 
-    const keysToDelete = [
-      `profile:${uuid}`, `claims:${uuid}`, `audit:${uuid}`,
-      `signup:${uuid}`, `created:${uuid}`,
-      `email:unhashed:${uuid}`, `ip:${uuid}`,
-    ];
-    if (stored._emailHash) keysToDelete.push(`email:${stored._emailHash}`);
-    // Purged profiles are young enough that the plaintext email is still in
-    // KV (7-day TTL) — derive BOTH index hashes from it rather than trusting
-    // a single eventually-consistent pointer read to name the live key.
-    const plainEmail = await env.ANCHOR_KV.get(`email:unhashed:${uuid}`);
-    if (plainEmail) {
-      keysToDelete.push(`email:${await legacyEmailHash(plainEmail)}`);
-      keysToDelete.push(`email:${await emailIndexHash(env, plainEmail)}`);
-    }
-    const emailPointer = await env.ANCHOR_KV.get(emailPointerKey(uuid));
-    if (emailPointer) keysToDelete.push(`email:${emailPointer}`);
-    keysToDelete.push(emailPointerKey(uuid));
-
-    // Tombstone only once every fallible read above has succeeded — it is
-    // permanent, so writing it and then failing before the deletes would
-    // strand a live profile's email login after the grace period. From here
-    // on, the only remaining steps are the deletes themselves.
-    await env.ANCHOR_KV.put(deletedTombstoneKey(uuid), new Date().toISOString());
-    await Promise.all(keysToDelete.map(k => env.ANCHOR_KV.delete(k)));
+    purged.push(uuid);
+    try {
+      await purgeProfile(env, uuid, stored);
+    } catch (e: any) {
+      console.error(`purge of ${uuid} failed:`, e?.stack || String(e));
+    }
+  }
+  return purged;
+}
+
+async function purgeProfile(env: Env, uuid: string, stored: Record<string, any>): Promise<void> {
+  const keysToDelete = [
+    `profile:${uuid}`, `claims:${uuid}`, `audit:${uuid}`, relationsKey(uuid), successionKey(uuid), eventsKey(uuid),
+    `signup:${uuid}`, `created:${uuid}`,
+    `email:unhashed:${uuid}`, `ip:${uuid}`,
+    ...(await historyKeys(env, uuid)),
+  ];
+  if (stored._emailHash) keysToDelete.push(`email:${stored._emailHash}`);
+  // Purged profiles are young enough that the plaintext email is still in
+  // KV (7-day TTL) — derive BOTH index hashes from it rather than trusting
+  // a single eventually-consistent pointer read to name the live key.
+  const plainEmail = await env.ANCHOR_KV.get(`email:unhashed:${uuid}`);
+  if (plainEmail) {
+    keysToDelete.push(`email:${await legacyEmailHash(plainEmail)}`);
+    keysToDelete.push(`email:${await emailIndexHash(env, plainEmail)}`);
+  }
+  const emailPointer = await env.ANCHOR_KV.get(emailPointerKey(uuid));
+  if (emailPointer) keysToDelete.push(`email:${emailPointer}`);
+  keysToDelete.push(emailPointerKey(uuid));
+
+  // Tombstone only once every fallible read above has succeeded — it is
+  // permanent, so writing it and then failing before the deletes would
+  // strand a live profile's email login after the grace period. Every write
+  // after it is safe to repeat: until the deletes land the profile is still
+  // stored, so the next cron run purges it again and finishes the job.
+  await env.ANCHOR_KV.put(deletedTombstoneKey(uuid), new Date().toISOString());
+  await syncCredentialStatus(env, uuid, []);
+  await seedRelatedHistory(env, uuid);
+  const detached = await detachRelations(env, uuid);
+  await Promise.all(keysToDelete.map(k => env.ANCHOR_KV.delete(k)));
+  await recordChange(env, uuid, "delete");
+  for (const other of detached) {
+    await recordRevision(env, other, "relations");
+    await recordChange(env, other, "relations");
   }
 }
 
@@ -349,7 +382,16 @@ export default {
   },
 
   async scheduled(_event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
-    await purgeUnverifiedProfiles(env);
+    let profiles: ScannedProfile[] = [];
+    if (!(await runCronStep("scan", async () => { profiles = await scanProfiles(env); }))) return;
+
+    let purged: string[] = [];
+    await runCronStep("purge", async () => { purged = await purgeUnverifiedProfiles(env, profiles); });
+    const live = profiles.filter((p) => !purged.includes(p.uuid));
+
+    await runCronStep("relations", () => reconcileRelations(env, live));
+    await runCronStep("credentials", () => reconcileCredentialStatus(env, live));
+    await runCronStep("sitemap", () => rebuildSitemap(env, live));
   },
 };
 
@@ -678,20 +720,16 @@ async function route(request: Request, env: Env): Promise<Response> {
       });
     }
 
-    // Sitemap
+    // Sitemaps: index, static pages, profile pages (built by the cron)
     if (path === "/sitemap.xml") {
-      const xml = await env.ANCHOR_KV.get("page:sitemap");
-      if (!xml) {
-        return new Response("Sitemap not found", { status: 404 });
-      }
-      return new Response(xml, {
-        headers: {
-          "content-type": "application/xml; charset=utf-8",
-          "cache-control":
-            "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800",
-          ...securityHeaders(),
-        },
-      });
+      return handleSitemapIndex(env);
+    }
+    if (path === "/sitemap-pages.xml") {
+      return handlePagesSitemap(env);
+    }
+    const sitemapMatch = /^\/sitemap-profiles-([1-9][0-9]{0,5})\.xml$/.exec(path);
+    if (sitemapMatch) {
+      return handleProfileSitemap(env, parseInt(sitemapMatch[1], 10));
     }
 
     // Robots.txt
@@ -726,6 +764,36 @@ async function route(request: Request, env: Env): Promise<Response> {
       });
     }
 
+    // WebFinger (RFC 7033)
+    if (path === "/.well-known/webfinger" && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:resolve", ipLimit, () => handleWebfinger(request, env));
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Public keys for X-AnchorID-Signature (see src/signing.ts)
+    if (path === "/.well-known/jwks.json" && (request.method === "GET" || request.method === "HEAD")) {
+      const res = await conditionalResponse(
+        request,
+        JSON.stringify(await publicJwks(env), null, 2),
+        {
+          "content-type": "application/jwk-set+json; charset=utf-8",
+          // Short: after a rotation new signatures appear within minutes.
+          "cache-control": "public, max-age=300, s-maxage=300",
+          "access-control-allow-origin": "*",
+          ...securityHeaders(),
+        },
+        null
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
     // .well-known/anchorid.txt - Website proof for anchorid.net
     // Demonstrates website proof linking the AnchorID organization to its founder
     if (path === "/.well-known/anchorid.txt") {
@@ -876,22 +944,51 @@ https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
       });
     }
 
+	// Verifiable credentials for verified claims, and their revocation list.
+	// Claim ids can contain "/" (public:host/path), so match from both ends.
+	const credentialMatch = path.match(/^\/claims\/([^/]+)\/(.+)\/credential$/);
+	const statusListMatch = path.match(/^\/claims\/([^/]+)\/status$/);
+	if ((credentialMatch || statusListMatch) && (request.method === "GET" || request.method === "HEAD")) {
+		const ipLimit = parseInt(env.IP_CLAIMS_RL_PER_HOUR || "300", 10);
+		const ipRateLimited = await checkIpRateLimit(request, env, "ip:claims", ipLimit);
+		if (ipRateLimited) return ipRateLimited;
+
+		let res: Response;
+		if (credentialMatch) {
+			let claimId: string;
+			try {
+				claimId = decodeURIComponent(credentialMatch[2]);
+			} catch {
+				return json({ error: "invalid_claim_id" }, 400, { "cache-control": "no-store" });
+			}
+			res = await handleGetClaimCredential(env, credentialMatch[1], claimId);
+		} else {
+			res = await handleGetStatusList(env, statusListMatch![1]);
+		}
+		if (request.method === "HEAD") {
+			return new Response(null, { status: res.status, headers: res.headers });
+		}
+		return res;
+	}
+
 	// Public claims list
 	if (path.startsWith("/claims/") && (request.method === "GET" || request.method === "HEAD")) {
 		// Per-IP rate limit for public claims endpoint
 		const ipLimit = parseInt(env.IP_CLAIMS_RL_PER_HOUR || "300", 10);
-		const ipRateLimited = await checkIpRateLimit(request, env, "ip:claims", ipLimit);
-		if (ipRateLimited) return ipRateLimited;
 
   		const uuid = path.slice("/claims/".length);
 
   		// If browser asks for HTML, serve the human page (GET only)
   		if (request.method === "GET" && wantsHtml(request)) {
+    	const ipRateLimited = await checkIpRateLimit(request, env, "ip:claims", ipLimit);
+    	if (ipRateLimited) return ipRateLimited;
     	return handleGetClaimsHtml(request, env, uuid);
   		}
 
   		// Otherwise serve JSON (GET/HEAD)
-  		const res = await handleGetClaims(request, env, uuid);
+  		const res = await withReadRateLimit(request, env, "ip:claims", ipLimit, () =>
+  			handleGetClaims(request, env, uuid)
+  		);
 
   		if (request.method === "HEAD") {
     		return new Response(null, { status: res.status, headers: res.headers });
@@ -941,6 +1038,30 @@ https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
 		return handlePostClaimVerify(forwardWithBody(request, auth.bodyText), env);
 	}
 
+	// Token-gated: accept/reject a relation asserted by another profile
+	// (admin or the owner of the profile it points at)
+	if (path === "/relation/respond" && request.method === "POST") {
+		const ipRateLimited = await checkIpRateLimit(request, env, "ip:claim", intFromEnv(env.IP_CLAIM_RL_PER_HOUR, 30));
+		if (ipRateLimited) return ipRateLimited;
+
+		const auth = await authorizeClaimRequest(request, env);
+		if (!auth.ok) return auth.response;
+
+		return handleRelationRespond(request, env, auth.targetUuid, auth.bodyText, auth.isAdmin);
+	}
+
+	// Token-gated: mark a profile as superseded by another
+	// (admin, or the owner of both profiles)
+	if (path === "/succession" && request.method === "POST") {
+		const ipRateLimited = await checkIpRateLimit(request, env, "ip:claim", intFromEnv(env.IP_CLAIM_RL_PER_HOUR, 30));
+		if (ipRateLimited) return ipRateLimited;
+
+		const auth = await authorizeClaimRequest(request, env);
+		if (!auth.ok) return auth.response;
+
+		return handleSuccession(request, env, auth.targetUuid, auth.bodyText, auth.isAdmin);
+	}
+
 	// Token-gated: delete claim (admin or user for own profile)
 	if (path === "/claim/delete" && request.method === "POST") {
 		// Per-IP rate limit (same as claim creation to prevent deletion spam)
@@ -976,14 +1097,138 @@ https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
 		return response;
 	}
 
+    // Batch resolver: POST /resolve/batch (must precede the /resolve/<uuid> prefix)
+    if (path === "/resolve/batch" && request.method === "POST") {
+      return handleResolveBatch(request, env);
+    }
+
     // Resolver (v1): /resolve/<uuid>
     if (path.startsWith("/resolve/")) {
       // Per-IP rate limit for public resolver endpoint
       const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
-      const ipRateLimited = await checkIpRateLimit(request, env, "ip:resolve", ipLimit);
-      if (ipRateLimited) return ipRateLimited;
+      return withReadRateLimit(request, env, "ip:resolve", ipLimit, () => handleResolve(request, env));
+    }
+
+    // DID document (did:web): /id/<uuid>/did.json
+    const didPathMatch = /^\/id\/([^/]+)\/did\.json$/.exec(path);
+    if (didPathMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:resolve", ipLimit, () =>
+        handleDidDocument(request, env, didPathMatch[1])
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Revision history: /history/<uuid>
+    if (path.startsWith("/history/") && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:history", ipLimit, () => handleHistory(request, env));
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
 
-      return handleResolve(request, env);
+    // JSON Schemas for the public contract (see src/schemas.ts)
+    const schemaMatch = /^\/schemas\/([a-z-]+)\.json$/.exec(path);
+    if (schemaMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const schema = jsonSchema(schemaMatch[1]);
+      if (!schema) return json({ error: "not_found", schemas: SCHEMA_NAMES.map(schemaUrl) }, 404);
+      const res = await conditionalResponse(
+        request,
+        JSON.stringify(schema, null, 2),
+        {
+          "content-type": `${SCHEMA_MEDIA_TYPE}; charset=utf-8`,
+          "cache-control": "public, max-age=3600, s-maxage=86400",
+          "access-control-allow-origin": "*",
+          ...securityHeaders(),
+        },
+        null
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Patch dry run: POST /validate
+    if (path === "/validate" && request.method === "POST") {
+      return handleValidate(request, env);
+    }
+
+    // Verification badge: /badge/<uuid>.svg
+    const badgeMatch = /^\/badge\/([^/]+)\.svg$/.exec(path);
+    if (badgeMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:badge", ipLimit, () =>
+        handleBadge(request, env, badgeMatch[1])
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // QR code for the resolver URL: /qr/<uuid>.svg, /qr/<uuid>.png
+    const qrMatch = /^\/qr\/([^/]+)\.(svg|png)$/.exec(path);
+    if (qrMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:qr", ipLimit, () =>
+        handleQr(request, env, qrMatch[1], qrMatch[2] as QrFormat)
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Link preview image: /og/<uuid>.png, /og/<uuid>.svg
+    const ogMatch = /^\/og\/([^/]+)\.(png|svg)$/.exec(path);
+    if (ogMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:og", ipLimit, () =>
+        handleOgImage(request, env, ogMatch[1], ogMatch[2] as OgFormat)
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Change feed: /feed/<uuid>.atom, /feed/<uuid>.json
+    const feedMatch = /^\/feed\/([^/]+)\.(atom|json)$/.exec(path);
+    if (feedMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:feed", ipLimit, () =>
+        handleFeed(request, env, feedMatch[1], feedMatch[2] as FeedFormat)
+      );
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Global change stream for mirrors: /changes?since=<cursor>
+    if (path === "/changes" && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = (await checkIpRateLimit(request, env, "ip:changes", ipLimit)) ?? (await handleChanges(request, env));
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
+    }
+
+    // Reverse relation index: /relations/<uuid>
+    if (path.startsWith("/relations/") && (request.method === "GET" || request.method === "HEAD")) {
+      const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
+      const res = await withReadRateLimit(request, env, "ip:relations", ipLimit, () => handleRelations(request, env));
+      if (request.method === "HEAD") {
+        return new Response(null, { status: res.status, headers: res.headers });
+      }
+      return res;
     }
 
     // Public create (self-service identity creation)
@@ -1023,15 +1268,31 @@ https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
     const uuidPathRe = /^\/[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     if (uuidPathRe.test(path)) {
       const ipLimit = parseInt(env.IP_RESOLVE_RL_PER_HOUR || "300", 10);
-      const ipRateLimited = await checkIpRateLimit(request, env, "ip:resolve", ipLimit);
-      if (ipRateLimited) return ipRateLimited;
-      return handleResolve(request, env);
+      return withReadRateLimit(request, env, "ip:resolve", ipLimit, () => handleResolve(request, env));
     }
 
     return new Response("Not Found", { status: 404 });
 }
 
 // ------------------ Routes ------------------
+
+/**
+ * Media types /resolve can produce, in server preference order. JSON-LD
+ * stays first so clients sending no Accept header (or only a wildcard) get
+ * exactly what they always got. Browsers name text/html explicitly and so
+ * get the HTML view.
+ */
+const RESOLVE_MEDIA_TYPES = [
+  "application/ld+json",
+  "application/json",
+  RDF_MEDIA_TYPES.turtle,
+  RDF_MEDIA_TYPES.ntriples,
+  RDF_MEDIA_TYPES.rdfxml,
+  "text/html",
+] as const;
+
+const RESOLVE_CACHE_CONTROL = "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400";
+
 async function handleResolve(request: Request, env: Env): Promise<Response> {
   const url = new URL(request.url);
   const uuid = (url.pathname.startsWith("/resolve/")
@@ -1046,57 +1307,367 @@ async function handleResolve(request: Request, env: Env): Promise<Response> {
     return ldjson({ error: "invalid_uuid" }, 400, { "cache-control": "no-store" });
   }
 
-  const u = uuid.toLowerCase();
+  const mediaType = negotiateMediaType(request.headers.get("accept"), RESOLVE_MEDIA_TYPES);
+  if (!mediaType) {
+    return json(
+      { error: "not_acceptable", supported: RESOLVE_MEDIA_TYPES },
+      406,
+      { "cache-control": "no-store", vary: "Accept" }
+    );
+  }
 
-  // 1) KV-first: profile:<uuid>
-  if (env.ANCHOR_KV) {
-    const kvKey = `profile:${u}`;
-    const profile = (await env.ANCHOR_KV.get(kvKey, { type: "json" })) as any | null;
-
-    if (profile) {
-      const storedDateCreated = typeof profile.dateCreated === "string" ? profile.dateCreated : null;
-      const storedDateModified = typeof profile.dateModified === "string" ? profile.dateModified : null;
-
-      const claims = await loadClaims(env, u);
-      const verifiedUrls = claims
-        .filter((c) => c.status === "verified")
-        .map((c) => c.url);
-
-      const { profile: canonical, effectiveSameAs } = buildProfile(
-        u,
-        profile,
-        null,
-        verifiedUrls,
-        {
-          persistMergedSameAs: false,
-          bumpOnNoop: false,
-        }
-      );
+  // ?relations=confirmed: publish only references the other side accepted
+  const relationsParam = url.searchParams.get("relations");
+  if (relationsParam !== null && relationsParam !== "confirmed") {
+    return json({ error: "invalid_relations", supported: ["confirmed"] }, 400, { "cache-control": "no-store" });
+  }
+  const confirmedOnly = relationsParam === "confirmed";
+
+  // Graph view: ?expand=relations[&depth=<n>]
+  const expand = url.searchParams.get("expand");
+  let depth = 0;
+  if (expand !== null) {
+    const noStore = { "cache-control": "no-store" };
+    if (expand !== "relations") {
+      return json({ error: "invalid_expand", supported: ["relations"] }, 400, noStore);
+    }
+    const depthParam = url.searchParams.get("depth") ?? "1";
+    depth = /^[0-9]$/.test(depthParam) ? Number(depthParam) : NaN;
+    if (!(depth >= 1 && depth <= MAX_EXPANSION_DEPTH)) {
+      return json({ error: "invalid_depth", max: MAX_EXPANSION_DEPTH }, 400, noStore);
+    }
+    if (url.searchParams.has("rev") || url.searchParams.has("at")) {
+      // Related records have no common timeline to expand a revision against.
+      return json({ error: "invalid_request", message: "expand cannot be combined with rev or at" }, 400, noStore);
+    }
+  }
+
+  // Point-in-time view: ?rev=<n> or ?at=<ISO 8601>
+  if (url.searchParams.has("rev") || url.searchParams.has("at")) {
+    return handleResolveRevision(request, env, uuid.toLowerCase(), mediaType);
+  }
+
+  const resolved = await loadResolvedProfile(env, uuid.toLowerCase(), confirmedOnly);
+  if (!resolved) {
+    const deletedAt = await loadTombstone(env, uuid);
+    if (deletedAt) return tombstoneResponse(uuid.toLowerCase(), deletedAt);
+    return ldjson(
+      { error: "not_found" },
+      404,
+      { "cache-control": "public, max-age=60, s-maxage=300" }
+    );
+  }
 
-      // IMPORTANT: /resolve is a read view. Do not “invent” new timestamps.
-      if (storedDateCreated) canonical.dateCreated = storedDateCreated;
-      if (storedDateModified) canonical.dateModified = storedDateModified;
+  // A person reading a superseded record wants the successor; data clients
+  // get the record itself, with its supersededBy pointer.
+  const successor = resolved.record.supersededBy?.["@id"];
+  if (successor && mediaType === "text/html") {
+    return new Response(null, {
+      status: 301,
+      headers: { location: successor, vary: "Accept", "cache-control": "public, max-age=300", ...securityHeaders() },
+    });
+  }
 
-      const resolved = { ...canonical, sameAs: effectiveSameAs };
+  // The HTML page already names its relations; expansion is for data clients.
+  if (depth && mediaType !== "text/html") {
+    const graph = await expandRelations(resolved, depth, (u) => loadResolvedProfile(env, u, confirmedOnly));
+    return resolvedProfileResponse(request, env, graph, mediaType);
+  }
 
-      return ldjson(resolved, 200, {
-        "cache-control":
-          "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400",
-      });
+  return resolvedProfileResponse(request, env, resolved, mediaType);
+}
+
+/**
+ * POST /resolve/batch  { "uuids": ["<uuid>", ...] }
+ *
+ * Resolves up to RESOLVE_BATCH_MAX UUIDs in one request, each exactly as
+ * GET /resolve/<uuid> would (JSON-LD only). The response maps every
+ * submitted string to its record, to { "error": "gone", "deletedAt" } for a
+ * deleted UUID (single /resolve answers 410), or to { "error": "not_found" |
+ * "invalid_uuid" }. Rate limiting is separate from ip:resolve and weighted
+ * by batch size, so one batch of 100 costs the same as 100 single lookups
+ * against its own hourly budget.
+ */
+async function handleResolveBatch(request: Request, env: Env): Promise<Response> {
+  const noStore = { "cache-control": "no-store" };
+
+  const sizeError = await checkRequestSize(request);
+  if (sizeError) return sizeError;
+
+  const bodyText = await request.text();
+  const tooLarge = oversizedBody(bodyText);
+  if (tooLarge) return tooLarge;
+
+  let payload: any;
+  try {
+    payload = JSON.parse(bodyText);
+  } catch {
+    return json({ error: "bad_json" }, 400, noStore);
+  }
+
+  const uuids = payload?.uuids;
+  if (!Array.isArray(uuids) || !uuids.length || !uuids.every((u) => typeof u === "string")) {
+    return json({ error: "invalid_request", message: "Expected { \"uuids\": [\"<uuid>\", ...] }" }, 400, noStore);
+  }
+
+  const max = intFromEnv(env.RESOLVE_BATCH_MAX, 100);
+  if (uuids.length > max) {
+    return json({ error: "too_many_uuids", max }, 400, noStore);
+  }
+
+  const ipRateLimited = await checkIpRateLimit(
+    request,
+    env,
+    "ip:resolve_batch",
+    intFromEnv(env.IP_RESOLVE_BATCH_RL_PER_HOUR, 3000),
+    uuids.length
+  );
+  if (ipRateLimited) return ipRateLimited;
+
+  // Resolve each distinct UUID once, however many spellings were submitted.
+  const distinct = [...new Set(uuids.map((u: string) => u.trim().toLowerCase()).filter(isUuid))];
+  const records = new Map<string, Record<string, any>>();
+  await Promise.all(distinct.map(async (u) => {
+    const resolved = await loadResolvedProfile(env, u);
+    if (resolved) {
+      records.set(u, resolved.record);
+      return;
     }
+    const deletedAt = await loadTombstone(env, u);
+    records.set(u, deletedAt ? { error: "gone", deletedAt } : { error: "not_found" });
+  }));
+
+  // No prototype, so a submitted "__proto__" is kept like any other key.
+  const results: Record<string, unknown> = Object.create(null);
+  for (const submitted of uuids as string[]) {
+    const u = submitted.trim().toLowerCase();
+    results[submitted] = isUuid(u) ? records.get(u) : { error: "invalid_uuid" };
+  }
+
+  return json({ results }, 200, noStore);
+}
+
+/**
+ * /resolve/<uuid>?rev=<n> or ?at=<ISO 8601>: the record as it was published
+ * then, with the claims verified at that time merged into sameAs. `at` picks
+ * the latest revision at or before the given instant. A profile with no
+ * recorded history has only its current state, valid from its lastModified.
+ */
+async function handleResolveRevision(
+  request: Request,
+  env: Env,
+  u: string,
+  mediaType: string
+): Promise<Response> {
+  const url = new URL(request.url);
+  const revParam = url.searchParams.get("rev");
+  const atParam = url.searchParams.get("at");
+  const noStore = { "cache-control": "no-store" };
+
+  if (revParam !== null && atParam !== null) {
+    return json({ error: "invalid_request", message: "Use either rev or at, not both" }, 400, noStore);
+  }
+
+  let atMs = NaN;
+  if (revParam !== null && !/^[1-9][0-9]{0,8}$/.test(revParam)) {
+    return json({ error: "invalid_rev" }, 400, noStore);
+  }
+  if (atParam !== null) {
+    atMs = /^\d{4}-\d{2}-\d{2}/.test(atParam) ? Date.parse(atParam) : NaN;
+    if (Number.isNaN(atMs)) return json({ error: "invalid_at" }, 400, noStore);
+  }
+
+  const notFound = (error: string) =>
+    ldjson({ error }, 404, { "cache-control": "public, max-age=60, s-maxage=300" });
+
+  const index = await loadHistory(env, u);
+  if (!index.length) {
+    const current = await loadResolvedProfile(env, u);
+    if (!current) {
+      const deletedAt = await loadTombstone(env, u);
+      return deletedAt ? tombstoneResponse(u, deletedAt) : notFound("not_found");
+    }
+    const since = current.lastModified ? Date.parse(current.lastModified) : NaN;
+    if (atParam === null || Number.isNaN(since) || atMs < since) return notFound("revision_not_found");
+    return resolvedProfileResponse(request, env, current, mediaType);
+  }
+
+  const entry = revParam !== null
+    ? index.find((e) => e.rev === Number(revParam)) ?? null
+    : revisionAt(index, atMs);
+  if (!entry) return notFound("revision_not_found");
+
+  const revision = await loadRevision(env, u, entry.rev);
+  if (!revision) return notFound("revision_not_found");
+
+  // Memento (RFC 7089) headers, so archive tooling can follow the history.
+  return resolvedProfileResponse(
+    request,
+    env,
+    {
+      record: revision.record,
+      verifiedUrls: revision.verifiedClaims.map((c) => c.url),
+      lastModified: revision.at,
+    },
+    mediaType,
+    {
+      "memento-datetime": new Date(revision.at).toUTCString(),
+      link: `<https://anchorid.net/resolve/${u}>; rel="original", <https://anchorid.net/history/${u}>; rel="timemap"`,
+      "x-anchorid-revision": String(revision.rev),
+    }
+  );
+}
+
+/**
+ * GET /id/<uuid>/did.json: the did:web document for an AnchorID, built from
+ * the same resolved record as /resolve so the two never disagree.
+ */
+async function handleDidDocument(request: Request, env: Env, rawUuid: string): Promise<Response> {
+  const uuid = rawUuid.trim().toLowerCase();
+  if (!isUuid(uuid)) {
+    return json({ error: "invalid_uuid" }, 400, { "cache-control": "no-store" });
+  }
+
+  const resolved = await loadResolvedProfile(env, uuid);
+  if (!resolved) {
+    return json({ error: "not_found" }, 404, { "cache-control": "public, max-age=60, s-maxage=300" });
+  }
+
+  return conditionalResponse(
+    request,
+    JSON.stringify(buildDidDocument(uuid, resolved.record), null, 2),
+    {
+      "content-type": `${DID_MEDIA_TYPE}; charset=utf-8`,
+      ...securityHeaders(),
+      "cache-control": RESOLVE_CACHE_CONTROL,
+      // DID resolvers commonly run client-side; the document is public.
+      "access-control-allow-origin": "*",
+    },
+    resolved.lastModified
+  );
+}
+
+/**
+ * GET /.well-known/webfinger?resource=<uri>[&rel=<rel>…]
+ * 400 for a missing resource, 404 for one that is not a known AnchorID.
+ * Errors carry CORS too, so browser clients can read the status.
+ */
+async function handleWebfinger(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const cors = { "access-control-allow-origin": "*" };
+  const resource = url.searchParams.get("resource");
+  if (!resource || !resource.trim()) {
+    return json({ error: "missing_resource" }, 400, { "cache-control": "no-store", ...cors });
+  }
+
+  const uuid = uuidFromWebfingerResource(resource);
+  const resolved = uuid ? await loadResolvedProfile(env, uuid) : null;
+  if (!uuid || !resolved) {
+    return json({ error: "not_found" }, 404, { "cache-control": "public, max-age=60, s-maxage=300", ...cors });
+  }
+
+  return conditionalResponse(
+    request,
+    JSON.stringify(buildJrd(resource, uuid, resolved, url.searchParams.getAll("rel")), null, 2),
+    {
+      "content-type": `${JRD_MEDIA_TYPE}; charset=utf-8`,
+      ...securityHeaders(),
+      "cache-control": RESOLVE_CACHE_CONTROL,
+      ...cors,
+    },
+    resolved.lastModified
+  );
+}
+
+/**
+ * GET /history/<uuid>: the revision index, oldest first. Each entry links to
+ * its point-in-time record; the snapshots themselves are immutable.
+ */
+async function handleHistory(request: Request, env: Env): Promise<Response> {
+  const uuid = new URL(request.url).pathname.slice("/history/".length).trim().toLowerCase();
+  if (!isUuid(uuid)) {
+    return json({ error: "invalid_uuid" }, 400, { "cache-control": "no-store" });
+  }
+
+  const index = await loadHistory(env, uuid);
+  if (!index.length && !(await env.ANCHOR_KV.get(`profile:${uuid}`))) {
+    return json({ error: "not_found" }, 404, { "cache-control": "public, max-age=60, s-maxage=300" });
+  }
+
+  const revisions = index.map((e) => ({
+    rev: e.rev,
+    at: e.at,
+    reason: e.reason,
+    ...(e.changes ? { changes: e.changes } : {}),
+    verifiedClaims: e.verifiedClaims,
+    url: `https://anchorid.net/resolve/${uuid}?rev=${e.rev}`,
+  }));
+  const latest = index.length ? index[index.length - 1].at : null;
+
+  return conditionalResponse(
+    request,
+    JSON.stringify({ uuid, revisions }, null, 2),
+    {
+      "content-type": "application/json; charset=utf-8",
+      ...securityHeaders(),
+      "cache-control": "public, max-age=60, s-maxage=300",
+    },
+    latest
+  );
+}
+
+/**
+ * GET /relations/<uuid>: who points at this profile, with its consent.
+ * `member` lists Persons whose affiliation this Organization confirmed,
+ * `founderOf` the Organizations naming this Person as a confirmed founder.
+ * Pending and rejected relations are never listed.
+ */
+async function handleRelations(request: Request, env: Env): Promise<Response> {
+  const uuid = new URL(request.url).pathname.slice("/relations/".length).trim().toLowerCase();
+  if (!isUuid(uuid)) {
+    return json({ error: "invalid_uuid" }, 400, { "cache-control": "no-store" });
+  }
+  if (!(await env.ANCHOR_KV.get(`profile:${uuid}`))) {
+    return json({ error: "not_found" }, 404, { "cache-control": "public, max-age=60, s-maxage=300" });
+  }
+
+  const { incoming, removedAt } = await loadRelations(env, uuid);
+  const listed = (kind: RelationKind) =>
+    confirmedIncoming(incoming, kind).map((r) => ({
+      "@id": `https://anchorid.net/resolve/${r.source}`,
+      confirmedAt: r.updatedAt,
+    }));
+
+  return conditionalResponse(
+    request,
+    JSON.stringify({ uuid, member: listed("affiliation"), founderOf: listed("founder") }, null, 2),
+    {
+      "content-type": "application/json; charset=utf-8",
+      ...securityHeaders(),
+      "cache-control": "public, max-age=60, s-maxage=300",
+    },
+    latestIso([...incoming.map((r) => r.updatedAt), removedAt])
+  );
+}
+
+/**
+ * The public record for a UUID: stored profile + verified claims, run
+ * through buildProfile() as a read view. Null when the UUID is unknown.
+ */
+async function loadResolvedProfile(env: Env, u: string, confirmedRelationsOnly = false): Promise<ResolvedProfile | null> {
+  // 1) KV-first: profile:<uuid>
+  if (env.ANCHOR_KV) {
+    const resolved = await loadStoredResolvedProfile(env, u, confirmedRelationsOnly);
+    if (resolved) return resolved;
   }
 
   // 2) Fallback: founder hardcode (keeps existing behavior while KV is empty)
   const founderUuid = "4ff7ed97-b78f-4ae6-9011-5af714ee241c";
   if (u !== founderUuid.toLowerCase()) {
-    return ldjson(
-      { error: "not_found" },
-      404,
-      { "cache-control": "public, max-age=60, s-maxage=300" }
-    );
+    return null;
   }
 
-  const body = {
+  const record = {
     "@context": "https://schema.org",
     "@type": "Person",
     "@id": `https://anchorid.net/resolve/${founderUuid}`,
@@ -1119,9 +1690,67 @@ async function handleResolve(request: Request, env: Env): Promise<Response> {
 //  const claimsUrl = `https://anchorid.net/claims/${u}`;
 //  upsertSubjectOf(profile, claimsUrl)
 
-  return ldjson(body, 200, {
-    "cache-control": "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400",
-  });
+  return { record, verifiedUrls: [], lastModified: record.dateModified };
+}
+
+/** Cap on KV reads per HTML render; a record rarely links more than a few. */
+const MAX_RELATED_NAME_LOOKUPS = 20;
+
+/** Display names for a record's founder/affiliation/member references, by @id. */
+async function loadRelatedNames(env: Env, record: Record<string, any>): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+  if (!env.ANCHOR_KV) return names;
+
+  const ids = [...new Set(relatedEntityIds(record, ["founder", "affiliation", "member"]))].slice(0, MAX_RELATED_NAME_LOOKUPS);
+  await Promise.all(ids.map(async (id) => {
+    const uuid = uuidFromResolveUrl(id);
+    if (!uuid) return;
+    const related = (await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" })) as any | null;
+    const name = localizedText(related?.name);
+    if (name) names[id] = name;
+  }));
+  return names;
+}
+
+/**
+ * Serialize a resolved record in the negotiated media type, answering 304
+ * when the client's cached copy of that representation is still current.
+ */
+async function resolvedProfileResponse(
+  request: Request,
+  env: Env,
+  resolved: ResolvedProfile,
+  mediaType: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<Response> {
+  let body: string;
+  let signatureHeaders: Record<string, string> = {};
+  if (mediaType === "text/html") {
+    const relatedNames = await loadRelatedNames(env, resolved.record);
+    body = renderProfileHtml(resolved.record, { verifiedUrls: resolved.verifiedUrls, relatedNames });
+  } else if (mediaType === "application/ld+json" || mediaType === "application/json") {
+    // Only the JSON representations are signed: the signature covers the
+    // canonical JSON, which mirrors of the RDF/HTML forms can fetch alongside.
+    const signed = await signedJsonBody(env, resolved.record, wantsEmbeddedProof(request));
+    body = signed.body;
+    signatureHeaders = signed.headers;
+  } else {
+    body = serializeRdf(resolved.record, mediaType as RdfMediaType);
+  }
+
+  return conditionalResponse(
+    request,
+    body,
+    {
+      "content-type": `${mediaType}; charset=utf-8`,
+      ...securityHeaders(),
+      "cache-control": RESOLVE_CACHE_CONTROL,
+      vary: "Accept",
+      ...signatureHeaders,
+      ...extraHeaders,
+    },
+    resolved.lastModified
+  );
 }
 
 
@@ -1378,6 +2007,8 @@ async function handleSignup(request: Request, env: Env): Promise<Response> {
 
   // Audit log
   await appendAuditLog(env, uuid, request, "create", "magic_link", undefined, "Self-service signup");
+  await recordRevision(env, uuid, "create");
+  await recordChange(env, uuid, "create", profile.dateModified);
 
   // Send setup email
   const origin = new URL(request.url).origin;
@@ -1427,7 +2058,7 @@ async function handleSetupPage(request: Request, env: Env): Promise<Response> {
   // Token will be consumed by handleUpdate() on first successful save
 
   const profile = await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" }) as any | null;
-  const name = profile?.name || "(unnamed)";
+  const name = localizedText(profile?.name) || "(unnamed)";
   const entityType = profile?.["@type"] || "Person";
 
   const html = `<!doctype html>
@@ -1981,11 +2612,22 @@ async function handleEditPage(request: Request, env: Env): Promise<Response> {
       .filter(Boolean);
   };
 
+  // Localized text: the default-language value goes in the main field,
+  // other languages in the translation boxes.
+  const nameParts = splitLocalized(canonical.name);
+  const descParts = splitLocalized(canonical.description);
+  const defaultLanguage = nameParts.language || descParts.language;
+  const altParts = splitLocalized(canonical.alternateName, defaultLanguage);
+
   const current = {
-    name: canonical.name || "",
-    alternateName: Array.isArray(canonical.alternateName) ? canonical.alternateName : [],
+    name: nameParts.texts[0] || "",
+    alternateName: altParts.texts,
     url: canonical.url || "",
-    description: canonical.description || "",
+    description: descParts.texts[0] || "",
+    defaultLanguage,
+    nameTranslations: formatTranslationLines(nameParts.translations),
+    alternateNameTranslations: formatTranslationLines(altParts.translations),
+    descriptionTranslations: formatTranslationLines(descParts.translations),
     manualSameAs,
     verifiedSameAs: verifiedUrls,
     effectiveSameAs,
@@ -1994,6 +2636,28 @@ async function handleEditPage(request: Request, env: Env): Promise<Response> {
     foundingDate: isOrg ? ((canonical as any).foundingDate || "") : "",
     // Person fields
     affiliation: !isOrg ? extractUuids((canonical as any).affiliation) : [],
+    // Extended fields
+    email: (canonical as any).email || "",
+    image: (canonical as any).image || "",
+    jobTitle: (canonical as any).jobTitle || "",
+    knowsAbout: Array.isArray((canonical as any).knowsAbout) ? (canonical as any).knowsAbout as string[] : [],
+    logo: (canonical as any).logo || "",
+    legalName: (canonical as any).legalName || "",
+  };
+
+  // Relations: who has listed this profile, and the status of its own references
+  const relations = await loadRelations(env, uuid);
+  const sourceNames: Record<string, string> = {};
+  await Promise.all(relations.incoming.slice(0, MAX_RELATED_NAME_LOOKUPS).map(async (r) => {
+    const p = (await env.ANCHOR_KV.get(`profile:${r.source}`, { type: "json" })) as any | null;
+    if (p && localizedText(p.name)) sourceNames[r.source] = localizedText(p.name);
+  }));
+  const outgoingStatusHtml = (kind: RelationKind): string => {
+    const mine = relations.outgoing.filter((r) => r.kind === kind);
+    if (!mine.length) return "";
+    return `<p class="hint-secondary">Confirmation: ${mine
+      .map((r) => `<code>${escapeHtml(r.target)}</code> ${escapeHtml(r.status)}`)
+      .join(", ")}</p>`;
   };
 
   const { token: csrfToken, needsSet: needsCsrfCookie } = ensureCsrfToken(request);
@@ -2094,16 +2758,63 @@ async function handleEditPage(request: Request, env: Env): Promise<Response> {
     <p class="hint-secondary">Keep it concise. The canonical profile is intentionally small.</p>
   </div>
 
+  <div class="section">
+    <h3>Languages</h3>
+  </div>
+
+  <div class="field">
+    <label for="defaultLanguage">Language of the fields above (optional)</label>
+    <input id="defaultLanguage" name="defaultLanguage" value="${escapeHtml(current.defaultLanguage)}" placeholder="e.g. en" maxlength="35">
+    <p class="hint">A BCP 47 language tag such as <code>en</code>, <code>ja</code> or <code>pt-BR</code>. Leave empty to publish them without a language.</p>
+  </div>
+
+  <div class="field">
+    <label for="nameTranslations">Name in other languages (one per line)</label>
+    <textarea id="nameTranslations" name="nameTranslations" rows="2" placeholder="ja: マイカル">${escapeHtml(current.nameTranslations)}</textarea>
+    <p class="hint-secondary">Write each as <code>tag: text</code>. One name per language.</p>
+  </div>
+
+  <div class="field">
+    <label for="alternateNameTranslations">Alternate names in other languages (one per line)</label>
+    <textarea id="alternateNameTranslations" name="alternateNameTranslations" rows="2" placeholder="ja: マイク">${escapeHtml(current.alternateNameTranslations)}</textarea>
+  </div>
+
+  <div class="field">
+    <label for="descriptionTranslations">Description in other languages (one per line)</label>
+    <textarea id="descriptionTranslations" name="descriptionTranslations" rows="2">${escapeHtml(current.descriptionTranslations)}</textarea>
+  </div>
+
+  <div class="field">
+    <label for="email">Public contact email (optional)</label>
+    <input id="email" name="email" type="email" maxlength="254" value="${escapeHtml(current.email)}">
+    <p class="hint">Published in your public record. Leave empty to keep it private.</p>
+    <p class="hint-secondary">Separate from the email you sign in with, which is never published.</p>
+  </div>
+
 ${isOrg ? `
   <div class="section">
     <h3>Organization Fields</h3>
   </div>
 
+  <div class="field">
+    <label for="legalName">Legal name (optional)</label>
+    <input id="legalName" name="legalName" maxlength="200" value="${escapeHtml(current.legalName)}">
+    <p class="hint">The registered name, if it differs from the name above.</p>
+  </div>
+
+  <div class="field">
+    <label for="logo">Logo URL (optional)</label>
+    <input id="logo" name="logo" maxlength="2048" value="${escapeHtml(current.logo)}">
+    <p class="hint">An https link to the organization's logo image.</p>
+  </div>
+
   <div class="field">
     <label for="founder">Founders (UUIDs, one per line)</label>
     <textarea id="founder" name="founder" rows="3">${escapeHtml(current.founder.join("\n"))}</textarea>
     <p class="hint">AnchorID UUIDs of people who founded this organization.</p>
     <p class="hint-secondary">Enter just the UUID (e.g., 4ff7ed97-b78f-4ae6-9011-5af714ee241c), not the full URL.</p>
+    <p class="hint-secondary">Each founder is asked to confirm; until then the link is published as unconfirmed.</p>
+    ${outgoingStatusHtml("founder")}
   </div>
 
   <div class="field">
@@ -2116,11 +2827,30 @@ ${isOrg ? `
     <h3>Person Fields</h3>
   </div>
 
+  <div class="field">
+    <label for="jobTitle">Job title (optional)</label>
+    <input id="jobTitle" name="jobTitle" maxlength="100" value="${escapeHtml(current.jobTitle)}">
+  </div>
+
+  <div class="field">
+    <label for="image">Photo URL (optional)</label>
+    <input id="image" name="image" maxlength="2048" value="${escapeHtml(current.image)}">
+    <p class="hint">An https link to a photo of you.</p>
+  </div>
+
+  <div class="field">
+    <label for="knowsAbout">Areas of expertise (one per line, optional)</label>
+    <textarea id="knowsAbout" name="knowsAbout" rows="3">${escapeHtml(current.knowsAbout.join("\n"))}</textarea>
+    <p class="hint-secondary">Up to 20 topics, 100 characters each.</p>
+  </div>
+
   <div class="field">
     <label for="affiliation">Affiliations (UUIDs, one per line)</label>
     <textarea id="affiliation" name="affiliation" rows="3">${escapeHtml(current.affiliation.join("\n"))}</textarea>
     <p class="hint">AnchorID UUIDs of organizations this person is affiliated with.</p>
     <p class="hint-secondary">Enter just the UUID (e.g., 4ff7ed97-b78f-4ae6-9011-5af714ee241c), not the full URL.</p>
+    <p class="hint-secondary">Each organization is asked to confirm; until then the link is published as unconfirmed.</p>
+    ${outgoingStatusHtml("affiliation")}
   </div>
 `}
 
@@ -2130,6 +2860,31 @@ ${isOrg ? `
   </div>
 </form>
 
+${relations.incoming.length ? `<div class="section" style="margin-top:40px">
+  <h2>Relation Requests</h2>
+  <p class="hint">Profiles that list this ${isOrg ? "organization" : "person"}. Only accepted ones are shown as confirmed on their records; rejected ones are not published.</p>
+  <div style="margin-top:14px;display:grid;gap:10px">
+  ${relations.incoming.map((r) => {
+    const label = r.kind === "founder" ? "lists you as a founder" : "lists you as an affiliation";
+    const name = sourceNames[r.source] || r.source;
+    const button = (decision: string, text: string) =>
+      `<button type="button" class="relation-btn" data-source="${escapeHtml(r.source)}" data-kind="${escapeHtml(r.kind)}" data-decision="${decision}"
+        style="padding:6px 12px;font-size:12px;cursor:pointer;border:1px solid #111;border-radius:6px;${decision === "accept" ? "background:#111;color:#fff" : "background:#fff;color:#333"}">${text}</button>`;
+    return `
+    <div style="background:#f6f6f6;padding:12px;border-radius:8px;display:flex;justify-content:space-between;align-items:center;gap:10px">
+      <div>
+        <a href="/resolve/${escapeHtml(r.source)}">${escapeHtml(name)}</a> ${label}
+        <span style="font-size:12px;color:#555">(${escapeHtml(r.status)})</span>
+      </div>
+      <div style="display:flex;gap:6px">
+        ${r.status !== "confirmed" ? button("accept", "Accept") : ""}
+        ${r.status !== "rejected" ? button("reject", r.status === "confirmed" ? "Withdraw" : "Reject") : ""}
+      </div>
+    </div>`;
+  }).join("")}
+  </div>
+</div>` : ""}
+
 <div class="section" style="margin-top:40px">
   <h2>Identity Claims</h2>
   <p class="hint">Prove ownership of websites, domains, and accounts. Verified claims automatically appear in your sameAs.</p>
@@ -2167,6 +2922,16 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
         <div style="margin-top:8px;font-size:12px;color:#555">
           <strong>Proof location:</strong> <code style="font-size:11px">${escapeHtml((c.proof as any).url || "")}</code>
         </div>`;
+    } else if (c.proof.kind === "rel_me") {
+      proofDetails = `
+        <div style="margin-top:8px;font-size:12px;color:#555">
+          <strong>Proof location:</strong> rel="me" link on <code style="font-size:11px">${escapeHtml(c.proof.url)}</code>
+        </div>`;
+    } else if (c.proof.kind === "meta_tag") {
+      proofDetails = `
+        <div style="margin-top:8px;font-size:12px;color:#555">
+          <strong>Proof location:</strong> &lt;meta name="anchorid"&gt; in the head of <code style="font-size:11px">${escapeHtml(c.proof.url)}</code>
+        </div>`;
     } else if (c.proof.kind === "github_readme") {
       proofDetails = `
         <div style="margin-top:8px;font-size:12px;color:#555">
@@ -2222,6 +2987,8 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
       <label style="display:block;margin-bottom:8px;font-weight:500">Claim Type</label>
       <select id="claimType" style="width:100%;padding:8px;border:1px solid #ddd;border-radius:6px;margin-bottom:12px;font:inherit">
         <option value="website">Website (.well-known/anchorid.txt)</option>
+        <option value="website_rel_me">Website (rel="me" link on home page)</option>
+        <option value="website_meta_tag">Website (&lt;meta&gt; tag in home page head)</option>
         <option value="github">GitHub (profile README)</option>
         <option value="dns">DNS (TXT record)</option>
         <option value="public">Public Profile (any public bio)</option>
@@ -2238,6 +3005,18 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
         <code style="font-size:11px">anchorid=urn:uuid:${escapeHtml(uuid)}</code>
       </div>
 
+      <div id="relMeHint" style="display:none;font-size:12px;color:#555;margin-bottom:12px;padding:10px;background:#fff;border:1px solid #e0e0e0;border-radius:6px">
+        <strong>rel="me" Setup Instructions:</strong><br>
+        Add this to your home page's <code>&lt;head&gt;</code>, or as a visible link with <code>rel="me"</code>:<br>
+        <code style="font-size:11px">&lt;link rel="me" href="https://anchorid.net/resolve/${escapeHtml(uuid)}"&gt;</code>
+      </div>
+
+      <div id="metaTagHint" style="display:none;font-size:12px;color:#555;margin-bottom:12px;padding:10px;background:#fff;border:1px solid #e0e0e0;border-radius:6px">
+        <strong>Meta Tag Setup Instructions:</strong><br>
+        Add this inside the <code>&lt;head&gt;</code> of your home page (site builders often call it custom head code or header injection):<br>
+        <code style="font-size:11px">&lt;meta name="anchorid" content="urn:uuid:${escapeHtml(uuid)}"&gt;</code>
+      </div>
+
       <div id="xHint" style="display:none;font-size:12px;color:#555;margin-bottom:12px;padding:10px;background:#fff;border:1px solid #e0e0e0;border-radius:6px">
         <strong>X Setup Instructions:</strong><br>
         Add this link to your X bio, or to the website field on your profile:<br>
@@ -2301,15 +3080,27 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
     const urlInput = document.getElementById("claimUrl");
     const dnsHint = document.getElementById("dnsHint");
     const xHint = document.getElementById("xHint");
+    const relMeHint = document.getElementById("relMeHint");
+    const metaTagHint = document.getElementById("metaTagHint");
 
-    // Reset both hint boxes, then let the matching branch show its own.
+    // Reset the hint boxes, then let the matching branch show its own.
     dnsHint.style.display = "none";
+    relMeHint.style.display = "none";
+    metaTagHint.style.display = "none";
     if (xHint) xHint.style.display = "none";
 
     if (type === "website") {
       urlLabel.textContent = "Website URL";
       urlInput.placeholder = "https://example.com";
       dnsHint.style.display = "none";
+    } else if (type === "website_rel_me") {
+      urlLabel.textContent = "Website URL";
+      urlInput.placeholder = "https://example.com";
+      relMeHint.style.display = "block";
+    } else if (type === "website_meta_tag") {
+      urlLabel.textContent = "Website URL";
+      urlInput.placeholder = "https://example.com";
+      metaTagHint.style.display = "block";
     } else if (type === "github") {
       urlLabel.textContent = "GitHub Profile URL";
       urlInput.placeholder = "https://github.com/username";
@@ -2337,7 +3128,10 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
     statusEl.textContent = "Adding...";
     statusEl.style.color = "#666";
 
-    const type = document.getElementById("claimType").value;
+    const selected = document.getElementById("claimType").value;
+    // Website options other than the default name their proof method.
+    const proof = { website_rel_me: "rel_me", website_meta_tag: "meta_tag" }[selected];
+    const type = proof ? "website" : selected;
     const url = document.getElementById("claimUrl").value.trim();
 
     try {
@@ -2347,7 +3141,7 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
           "Content-Type": "application/json",
           "Authorization": "Bearer " + sessionToken
         },
-        body: JSON.stringify({ uuid: profileUuid, type, url })
+        body: JSON.stringify({ uuid: profileUuid, type, url, proof })
       });
 
       if (res.ok) {
@@ -2399,6 +3193,37 @@ ${claims.length === 0 ? `<div style="background:#f6f6f6;padding:14px;border-radi
     });
   });
 
+  // Accept/reject relations asserted by other profiles
+  document.querySelectorAll(".relation-btn").forEach(btn => {
+    btn.addEventListener("click", async function() {
+      this.disabled = true;
+      try {
+        const res = await fetch("/relation/respond", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": "Bearer " + sessionToken
+          },
+          body: JSON.stringify({
+            uuid: profileUuid,
+            source: this.getAttribute("data-source"),
+            kind: this.getAttribute("data-kind"),
+            decision: this.getAttribute("data-decision")
+          })
+        });
+        if (res.ok) {
+          location.reload();
+        } else {
+          alert("Failed: " + await res.text());
+          this.disabled = false;
+        }
+      } catch (err) {
+        alert("Network error: " + err.message);
+        this.disabled = false;
+      }
+    });
+  });
+
   // Delete claim buttons with two-step confirmation
   const deleteModal = document.getElementById("deleteClaimModal");
   const deleteModalClaimInfo = document.getElementById("deleteModalClaimInfo");
@@ -2503,11 +3328,31 @@ async function submitForm(e){
   const foundingDate = (fd.get("foundingDate") || "").toString().trim();
   const affiliation = (fd.get("affiliation") || "").toString().split(/\\r?\\n/).map(s=>s.trim()).filter(Boolean);
 
-  const patch = { name, alternateName, url, sameAs, description };
+  // Translations: one "tag: text" per line, published as language-tagged values
+  const translations = (field) => (fd.get(field) || "").toString().split(/\\r?\\n/).map(s=>s.trim()).filter(Boolean).map((line) => {
+    const m = /^([A-Za-z0-9-]+)\\s*:\\s*(.+)$/.exec(line);
+    return m ? { "@value": m[2].trim(), "@language": m[1] } : { "@value": line, "@language": "" };
+  });
+  const defaultLanguage = (fd.get("defaultLanguage") || "").toString().trim();
+
+  const patch = {
+    name: [name, ...translations("nameTranslations")],
+    alternateName: [...alternateName, ...translations("alternateNameTranslations")],
+    url,
+    sameAs,
+    description: [description, ...translations("descriptionTranslations")],
+    defaultLanguage,
+  };
   // Include entity-specific fields if they have input elements
   if (fd.has("founder")) patch.founder = founder;
   if (fd.has("foundingDate")) patch.foundingDate = foundingDate;
   if (fd.has("affiliation")) patch.affiliation = affiliation;
+  for (const field of ["email", "image", "jobTitle", "logo", "legalName"]) {
+    if (fd.has(field)) patch[field] = (fd.get(field) || "").toString().trim();
+  }
+  if (fd.has("knowsAbout")) {
+    patch.knowsAbout = (fd.get("knowsAbout") || "").toString().split(/\\r?\\n/).map(s=>s.trim()).filter(Boolean);
+  }
 
   const res = await fetch("/update", {
     method: "POST",
@@ -2538,6 +3383,111 @@ document.getElementById("editForm").addEventListener("submit", submitForm);
 }
 
 
+/**
+ * POST /relation/respond  { uuid, source, kind, decision: "accept" | "reject" }
+ *
+ * `uuid` is the profile the relation points at; `source` made the assertion.
+ * Authorized by authorizeClaimRequest as that profile's owner (or admin).
+ */
+async function handleRelationRespond(
+  request: Request,
+  env: Env,
+  target: string,
+  bodyText: string,
+  isAdmin: boolean
+): Promise<Response> {
+  const noStore = { "cache-control": "no-store" };
+  const payload = JSON.parse(bodyText);
+  const source = String(payload.source || "").trim().toLowerCase();
+  const kind = String(payload.kind || "") as RelationKind;
+  const decision = String(payload.decision || "");
+
+  if (!isUuid(target) || !isUuid(source)) return json({ error: "invalid_uuid" }, 400, noStore);
+  if (!RELATION_KINDS.includes(kind)) return json({ error: "invalid_kind", supported: RELATION_KINDS }, 400, noStore);
+  if (decision !== "accept" && decision !== "reject") {
+    return json({ error: "invalid_decision", supported: ["accept", "reject"] }, 400, noStore);
+  }
+
+  await seedHistory(env, source);
+  await seedHistory(env, target);
+  const relation = await respondToRelation(env, target, source, kind, decision === "accept");
+  if (!relation) return json({ error: "relation_not_found" }, 404, noStore);
+  // The source publishes the relation's status; an Organization target, its members.
+  for (const uuid of [source, target]) {
+    await recordRevision(env, uuid, "relations");
+    await recordChange(env, uuid, "relations");
+  }
+
+  await appendAuditLog(
+    env,
+    target,
+    request,
+    decision === "accept" ? "relation_confirmed" : "relation_rejected",
+    isAdmin ? "admin" : "session_token",
+    undefined,
+    `${kind} from ${source}`
+  );
+
+  return json({ ok: true, relation }, 200, noStore);
+}
+
+/**
+ * POST /succession  { uuid, successor, successorToken }
+ *
+ * Marks `uuid` as superseded by `successor`. The Bearer session proves
+ * control of `uuid`; `successorToken` (a session for the successor) proves
+ * control of the other. Admins need neither. One hop only: a superseded
+ * profile cannot be named as a successor, which also rules out cycles.
+ */
+async function handleSuccession(
+  request: Request,
+  env: Env,
+  uuid: string,
+  bodyText: string,
+  isAdmin: boolean
+): Promise<Response> {
+  const noStore = { "cache-control": "no-store" };
+  const payload = JSON.parse(bodyText);
+  const successor = String(payload.successor || "").trim().toLowerCase();
+
+  if (!isUuid(uuid) || !isUuid(successor)) return json({ error: "invalid_uuid" }, 400, noStore);
+  if (successor === uuid) return json({ error: "invalid_successor" }, 400, noStore);
+
+  if (!isAdmin) {
+    const token = String(payload.successorToken || "").trim();
+    const session = token ? ((await env.ANCHOR_KV.get(`login:${token}`, { type: "json" })) as any | null) : null;
+    if (!session?.uuid || String(session.uuid).toLowerCase() !== successor) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+  }
+
+  if (!(await env.ANCHOR_KV.get(`profile:${uuid}`))) return json({ error: "not_found" }, 404, noStore);
+  if (!(await env.ANCHOR_KV.get(`profile:${successor}`))) return json({ error: "successor_not_found" }, 404, noStore);
+  if (await loadSuccession(env, uuid)) return json({ error: "already_superseded" }, 409, noStore);
+  if (await loadSuccession(env, successor)) return json({ error: "successor_superseded" }, 409, noStore);
+
+  await seedHistory(env, uuid);
+  await seedRelatedHistory(env, uuid);
+  const succession = await saveSuccession(env, uuid, successor);
+
+  // The minimal record no longer carries founder/affiliation, so the other
+  // side's member lists must not either.
+  const detached = await detachRelations(env, uuid);
+  await env.ANCHOR_KV.delete(relationsKey(uuid));
+  await recordRevision(env, uuid, "succession");
+  await recordChange(env, uuid, "succession", succession.at);
+  for (const other of detached) {
+    await recordRevision(env, other, "relations");
+    await recordChange(env, other, "relations");
+  }
+
+  const method = isAdmin ? "admin" : "session_token";
+  await appendAuditLog(env, uuid, request, "superseded", method, undefined, `by ${successor}`);
+  await appendAuditLog(env, successor, request, "supersedes", method, undefined, uuid);
+
+  return json({ ok: true, uuid, ...succession }, 200, noStore);
+}
+
 async function handleUpdate(request: Request, env: Env): Promise<Response> {
   if (!env.ANCHOR_KV) return json({ error: "not_configured" }, 501);
 
@@ -2592,19 +3542,20 @@ async function handleUpdate(request: Request, env: Env): Promise<Response> {
     return json({ error: "not_found" }, 404, { "cache-control": "no-store" });
   }
 
+  // Nothing of a superseded profile is published any more; edits belong on the successor.
+  const succession = await loadSuccession(env, uuid);
+  if (succession) {
+    return json({ error: "superseded", supersededBy: succession.supersededBy }, 409, { "cache-control": "no-store" });
+  }
+
   // Build canonical next profile (manual fields only; verified merge happens at /resolve)
-  const input: Record<string, unknown> = {
-    name: patch.name,
-    alternateName: patch.alternateName,
-    url: patch.url,
-    sameAs: patch.sameAs,
-    description: patch.description,
-  };
+  const input = profileInputFromPatch(patch);
 
-  // Include entity-specific fields if present in the patch
-  if ("founder" in patch) input.founder = patch.founder;
-  if ("foundingDate" in patch) input.foundingDate = patch.foundingDate;
-  if ("affiliation" in patch) input.affiliation = patch.affiliation;
+  // Rejected before anything is written; the session token stays usable.
+  const invalid = validateProfileInput(input, current["@type"] === "Organization" ? "Organization" : "Person");
+  if (invalid.length) {
+    return json({ error: "invalid_profile", invalid }, 400, { "cache-control": "no-store" });
+  }
 
   const { profile: next, changed } = buildProfile(uuid, current, input, [], {
     persistMergedSameAs: false,
@@ -2619,14 +3570,29 @@ async function handleUpdate(request: Request, env: Env): Promise<Response> {
       ...(current._backupTokenHash ? { _backupTokenHash: current._backupTokenHash } : {}),
       ...(current._email ? { _email: current._email } : {}),
       ...(current._emailVerified ? { _emailVerified: current._emailVerified } : {}),
+      ...(current._claimsRemovedAt ? { _claimsRemovedAt: current._claimsRemovedAt } : {}),
     };
 
+    await seedHistory(env, uuid);
     await env.ANCHOR_KV.put(key, JSON.stringify(profileWithMeta));
+    // Before the revision, so it captures the new references' status
+    const relations = await syncOutgoingRelations(env, uuid, next, (uuids) => seedHistories(env, uuids));
 
     // Audit log
     const method = session.backupAccess ? "backup_token" : "magic_link";
     const changedFields = computeChangedFields(current, next);
     await appendAuditLog(env, uuid, request, "update", method, changedFields);
+    await recordRevision(env, uuid, "update", changedFields);
+    await recordProfileEvent(env, uuid, current, next);
+    await recordChange(env, uuid, "update", next.dateModified);
+
+    for (const relation of relations.created) {
+      await notifyRelationRequest(env, relation, localizedText(next.name));
+    }
+    for (const relation of relations.dropped) {
+      await recordRevision(env, relation.target, "relations");
+      await recordChange(env, relation.target, "relations");
+    }
   }
 
   // One-time token
@@ -2637,6 +3603,96 @@ async function handleUpdate(request: Request, env: Env): Promise<Response> {
   });
 }
 
+/** The buildProfile() input for an /update (or /validate) patch. */
+function profileInputFromPatch(patch: Record<string, any>): Record<string, unknown> {
+  const input: Record<string, unknown> = {
+    name: patch.name,
+    alternateName: patch.alternateName,
+    url: patch.url,
+    sameAs: patch.sameAs,
+    description: patch.description,
+  };
+  if ("defaultLanguage" in patch) input.defaultLanguage = patch.defaultLanguage;
+
+  // Include entity-specific fields if present in the patch
+  if ("founder" in patch) input.founder = patch.founder;
+  if ("foundingDate" in patch) input.foundingDate = patch.foundingDate;
+  if ("affiliation" in patch) input.affiliation = patch.affiliation;
+  for (const field of ALL_EXTENDED_PROFILE_FIELDS) {
+    if (field in patch) input[field] = patch[field];
+  }
+  return input;
+}
+
+/** Stand-in identity for validating a patch that names no profile. */
+const VALIDATE_PLACEHOLDER_UUID = "00000000-0000-4000-8000-000000000000";
+
+/**
+ * POST /validate: dry-run a patch. Body { patch, uuid?, "@type"? }. With a
+ * uuid the patch is applied to that stored profile, as /update would;
+ * without, to a new profile of "@type" (default Person) under a placeholder
+ * UUID. Returns the canonical profile and field-level errors; nothing is
+ * written and no session is needed, since the result holds nothing that
+ * /resolve does not already publish.
+ */
+async function handleValidate(request: Request, env: Env): Promise<Response> {
+  const noStore = { "cache-control": "no-store" };
+
+  const ipRateLimited = await checkIpRateLimit(request, env, "ip:validate", intFromEnv(env.IP_VALIDATE_RL_PER_HOUR, 120));
+  if (ipRateLimited) return ipRateLimited;
+
+  const rawBody = await request.text();
+  const oversized = oversizedBody(rawBody);
+  if (oversized) return oversized;
+
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return json({ error: "bad_json" }, 400, noStore);
+  }
+
+  const patch = body?.patch;
+  if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+    return json({ error: "bad_request", message: "Expected { \"patch\": { ... } }" }, 400, noStore);
+  }
+
+  let uuid = VALIDATE_PLACEHOLDER_UUID;
+  let stored: any | null = null;
+  if (body.uuid != null) {
+    uuid = String(body.uuid).trim().toLowerCase();
+    if (!isUuid(uuid)) return json({ error: "invalid_uuid" }, 400, noStore);
+    stored = await env.ANCHOR_KV.get(`profile:${uuid}`, { type: "json" });
+    if (!stored) return json({ error: "not_found" }, 404, noStore);
+    const succession = await loadSuccession(env, uuid);
+    if (succession) {
+      return json({ error: "superseded", supersededBy: succession.supersededBy }, 409, noStore);
+    }
+  }
+
+  const input = profileInputFromPatch(patch);
+  if (!stored) input["@type"] = body["@type"];
+  const entityType = (stored ?? body)["@type"] === "Organization" ? "Organization" : "Person";
+
+  const errors = validateProfileInput(input, entityType);
+  const { profile, changed } = buildProfile(uuid, stored, input, [], {
+    persistMergedSameAs: false,
+    bumpOnNoop: false,
+  });
+
+  return json(
+    {
+      valid: errors.length === 0,
+      errors,
+      changed: stored ? changed : true,
+      ...(stored ? { changes: computeChangedFields(stored, profile) } : {}),
+      profile,
+    },
+    200,
+    noStore
+  );
+}
+
 // ------------------ Utilities ------------------
 
 const CSRF_COOKIE = "anchor_csrf";
@@ -2745,9 +3801,9 @@ async function sha256Hex(input: string): Promise<string> {
  * Note the tests exercise this under miniflare, whose KV is strongly
  * consistent, so they pass regardless of the above.
  */
-async function incrWithTtl(kv: KVNamespace, key: string, ttlSeconds: number): Promise<number> {
+async function incrWithTtl(kv: KVNamespace, key: string, ttlSeconds: number, by = 1): Promise<number> {
   const cur = await kv.get(key);
-  const n = (cur ? parseInt(cur, 10) : 0) + 1;
+  const n = (cur ? parseInt(cur, 10) : 0) + by;
   await kv.put(key, String(n), { expirationTtl: ttlSeconds });
   return n;
 }
@@ -2768,17 +3824,21 @@ async function hashIp(ip: string): Promise<string> {
   return hash.slice(0, 16); // First 16 chars is enough for rate limiting
 }
 
+// KV counter key for the client's IP under a rate-limit prefix
+async function ipRateLimitKey(request: Request, prefix: string): Promise<string> {
+  return `rl:${prefix}:${await hashIp(getClientIp(request))}`;
+}
+
 // Check IP rate limit, returns error response if exceeded
 async function checkIpRateLimit(
   request: Request,
   env: Env,
   prefix: string,
-  limitPerHour: number
+  limitPerHour: number,
+  weight = 1
 ): Promise<Response | null> {
-  const ip = getClientIp(request);
-  const ipHash = await hashIp(ip);
-  const key = `rl:${prefix}:${ipHash}`;
-  const count = await incrWithTtl(env.ANCHOR_KV, key, 3600);
+  const key = await ipRateLimitKey(request, prefix);
+  const count = await incrWithTtl(env.ANCHOR_KV, key, 3600, weight);
 
   if (count > limitPerHour) {
     return json(
@@ -2790,11 +3850,34 @@ async function checkIpRateLimit(
   return null;
 }
 
+/**
+ * Per-IP limit for the public read endpoints that answer 304, where a 304 is
+ * free. Every request is counted before the handler runs, so a junk
+ * validator cannot buy unlimited work; a 304 then gives its count back.
+ * Endpoints without conditional support use checkIpRateLimit() directly.
+ */
+async function withReadRateLimit(
+  request: Request,
+  env: Env,
+  prefix: string,
+  limitPerHour: number,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const ipRateLimited = await checkIpRateLimit(request, env, prefix, limitPerHour);
+  if (ipRateLimited) return ipRateLimited;
+
+  const res = await handler();
+  if (res.status === 304) {
+    await incrWithTtl(env.ANCHOR_KV, await ipRateLimitKey(request, prefix), 3600, -1);
+  }
+  return res;
+}
+
 // ------------------ Audit Logging ------------------
 
 interface AuditEntry {
   timestamp: string;
-  action: "create" | "update" | "rotate_token" | "claim_deleted" | "email_verified";
+  action: "create" | "update" | "rotate_token" | "claim_deleted" | "email_verified" | "relation_confirmed" | "relation_rejected" | "superseded" | "supersedes";
   method: "admin" | "magic_link" | "backup_token" | "session_token";
   ipHash: string;
   changes?: string[];
@@ -2838,7 +3921,7 @@ async function appendAuditLog(
 }
 
 function computeChangedFields(before: any, after: any): string[] {
-  const fields = ["name", "alternateName", "url", "description", "sameAs"];
+  const fields = ["name", "alternateName", "url", "description", "sameAs", ...ALL_EXTENDED_PROFILE_FIELDS];
   const changed: string[] = [];
 
   for (const field of fields) {
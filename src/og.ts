@@ -0,0 +1,296 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Social previews for shared AnchorID links.
+ *
+ * socialMetaTags() writes the Open Graph and Twitter Card tags for the HTML
+ * identity (/resolve) and claims pages; both point og:image at a generated
+ * 1200×630 card, /og/<uuid>.png (or .svg), showing the name, the type and
+ * the verified-claim summary.
+ *
+ * Chat apps and social sites fetch og:image as a raster, so the PNG is the
+ * one advertised. Workers have no font rasterizer: the PNG draws text with a
+ * built-in 5×7 pixel font covering printable ASCII, and a name outside it
+ * falls back to an ASCII alternate name, then the short UUID. The SVG uses
+ * real text in whatever fonts the viewer has.
+ */
+
+import type { Env } from "./env";
+import { claimsLastModified, isUuid, loadClaims } from "./claims/store";
+import { localizedText } from "./domain/profile";
+import { loadSuccession } from "./succession";
+import { conditionalResponse, embeddableImageHeaders, latestIso, securityHeaders } from "./http";
+import { encodePng, pngRowBytes } from "./png";
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+export function ogImageUrl(uuid: string): string {
+  return `https://anchorid.net/og/${uuid.toLowerCase()}.png`;
+}
+
+export interface SocialPreview {
+  title: string;
+  description: string;
+  /** Canonical URL of the page */
+  url: string;
+  image: string;
+  imageAlt: string;
+  type: "profile" | "website";
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** "3 verified claims (website, github)", or a note that there are none. */
+export function verifiedSummary(count: number, types: string[] = []): string {
+  if (!count) return "No verified claims yet";
+  const list = types.length ? ` (${[...new Set(types)].join(", ")})` : "";
+  return `${count} verified claim${count === 1 ? "" : "s"}${list}`;
+}
+
+/** Clip to `max` characters on a word boundary where possible. */
+function clip(text: string, max: number): string {
+  const t = text.replace(/\s+/g, " ").trim();
+  if (t.length <= max) return t;
+  const cut = t.slice(0, max - 1);
+  const space = cut.lastIndexOf(" ");
+  return (space > max / 2 ? cut.slice(0, space) : cut) + "…";
+}
+
+/** Open Graph + Twitter Card <meta> tags, for a page's <head>. */
+export function socialMetaTags(p: SocialPreview): string {
+  const description = clip(p.description, 200);
+  return [
+    `<meta name="description" content="${esc(description)}" />`,
+    `<meta property="og:type" content="${p.type}" />`,
+    `<meta property="og:site_name" content="AnchorID" />`,
+    `<meta property="og:title" content="${esc(p.title)}" />`,
+    `<meta property="og:description" content="${esc(description)}" />`,
+    `<meta property="og:url" content="${esc(p.url)}" />`,
+    `<meta property="og:image" content="${esc(p.image)}" />`,
+    `<meta property="og:image:type" content="image/png" />`,
+    `<meta property="og:image:width" content="${OG_IMAGE_WIDTH}" />`,
+    `<meta property="og:image:height" content="${OG_IMAGE_HEIGHT}" />`,
+    `<meta property="og:image:alt" content="${esc(p.imageAlt)}" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+    `<meta name="twitter:title" content="${esc(p.title)}" />`,
+    `<meta name="twitter:description" content="${esc(description)}" />`,
+    `<meta name="twitter:image" content="${esc(p.image)}" />`,
+    `<meta name="twitter:image:alt" content="${esc(p.imageAlt)}" />`,
+  ].join("\n  ");
+}
+
+// ------------------------------------------------------------------
+// Preview card
+// ------------------------------------------------------------------
+
+export interface OgCard {
+  uuid: string;
+  name: string;
+  /** ASCII fallbacks for the PNG, best first (alternate names) */
+  asciiNames: string[];
+  type: "Person" | "Organization";
+  verified: number;
+  claimTypes: string[];
+}
+
+const PALETTE: Array<[number, number, number]> = [
+  [0xff, 0xff, 0xff], // 0 background
+  [0x11, 0x18, 0x27], // 1 text
+  [0x6b, 0x72, 0x80], // 2 muted
+  [0x2e, 0x9e, 0x57], // 3 verified
+  [0x1f, 0x3a, 0x5f], // 4 accent bar
+];
+const hex = (i: number) => "#" + PALETTE[i].map((c) => c.toString(16).padStart(2, "0")).join("");
+
+const MARGIN_X = 80;
+const MAX_NAME_CHARS = 32;
+
+/** One text run of the card; shared by both renderers so they agree. */
+interface CardLine {
+  text: string;
+  y: number; // top, px
+  height: number; // cap height, px
+  color: number; // palette index
+}
+
+function cardLines(card: OgCard, name: string): CardLine[] {
+  const nameSize = Math.max(30, Math.min(84, Math.floor((OG_IMAGE_WIDTH - MARGIN_X * 2) / (Math.max(name.length, 1) * 6)) * 7));
+  return [
+    { text: "ANCHORID", y: 70, height: 35, color: 2 },
+    { text: name, y: 170, height: nameSize, color: 1 },
+    { text: card.type, y: 310, height: 35, color: 2 },
+    { text: verifiedSummary(card.verified), y: 400, height: 42, color: card.verified ? 3 : 2 },
+    ...(card.claimTypes.length ? [{ text: [...new Set(card.claimTypes)].join("  "), y: 470, height: 28, color: 2 }] : []),
+    { text: `anchorid.net/${card.uuid}`, y: 560, height: 21, color: 2 },
+  ];
+}
+
+function truncate(name: string): string {
+  const chars = [...name.trim()];
+  return chars.length > MAX_NAME_CHARS ? chars.slice(0, MAX_NAME_CHARS - 1).join("") + "…" : chars.join("");
+}
+
+export function renderOgSvg(card: OgCard): string {
+  const lines = cardLines(card, truncate(card.name || card.uuid.slice(0, 8)));
+  const text = lines
+    .map((l) => `  <text x="${MARGIN_X}" y="${l.y + l.height}" font-size="${Math.round(l.height * 1.35)}" fill="${hex(l.color)}">${esc(l.text)}</text>`)
+    .join("\n");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}" font-family="system-ui,-apple-system,Segoe UI,Roboto,Noto Sans,sans-serif">
+  <rect width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" fill="${hex(0)}"/>
+  <rect width="24" height="${OG_IMAGE_HEIGHT}" fill="${hex(4)}"/>
+${text}
+</svg>
+`;
+}
+
+/**
+ * 5×7 pixel font for printable ASCII (0x20–0x7e). Five column bytes per
+ * glyph, least significant bit at the top.
+ */
+const FONT_5X7 = [
+  0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x5f, 0x00, 0x00, 0x00, 0x07, 0x00, 0x07, 0x00, 0x14, 0x7f, 0x14, 0x7f, 0x14, // ' ' ! " #
+  0x24, 0x2a, 0x7f, 0x2a, 0x12, 0x23, 0x13, 0x08, 0x64, 0x62, 0x36, 0x49, 0x55, 0x22, 0x50, 0x00, 0x05, 0x03, 0x00, 0x00, // $ % & '
+  0x00, 0x1c, 0x22, 0x41, 0x00, 0x00, 0x41, 0x22, 0x1c, 0x00, 0x08, 0x2a, 0x1c, 0x2a, 0x08, 0x08, 0x08, 0x3e, 0x08, 0x08, // ( ) * +
+  0x00, 0x50, 0x30, 0x00, 0x00, 0x08, 0x08, 0x08, 0x08, 0x08, 0x00, 0x60, 0x60, 0x00, 0x00, 0x20, 0x10, 0x08, 0x04, 0x02, // , - . /
+  0x3e, 0x51, 0x49, 0x45, 0x3e, 0x00, 0x42, 0x7f, 0x40, 0x00, 0x42, 0x61, 0x51, 0x49, 0x46, 0x21, 0x41, 0x45, 0x4b, 0x31, // 0 1 2 3
+  0x18, 0x14, 0x12, 0x7f, 0x10, 0x27, 0x45, 0x45, 0x45, 0x39, 0x3c, 0x4a, 0x49, 0x49, 0x30, 0x01, 0x71, 0x09, 0x05, 0x03, // 4 5 6 7
+  0x36, 0x49, 0x49, 0x49, 0x36, 0x06, 0x49, 0x49, 0x29, 0x1e, 0x00, 0x36, 0x36, 0x00, 0x00, 0x00, 0x56, 0x36, 0x00, 0x00, // 8 9 : ;
+  0x08, 0x14, 0x22, 0x41, 0x00, 0x14, 0x14, 0x14, 0x14, 0x14, 0x00, 0x41, 0x22, 0x14, 0x08, 0x02, 0x01, 0x51, 0x09, 0x06, // < = > ?
+  0x32, 0x49, 0x79, 0x41, 0x3e, 0x7e, 0x11, 0x11, 0x11, 0x7e, 0x7f, 0x49, 0x49, 0x49, 0x36, 0x3e, 0x41, 0x41, 0x41, 0x22, // @ A B C
+  0x7f, 0x41, 0x41, 0x22, 0x1c, 0x7f, 0x49, 0x49, 0x49, 0x41, 0x7f, 0x09, 0x09, 0x01, 0x01, 0x3e, 0x41, 0x41, 0x51, 0x32, // D E F G
+  0x7f, 0x08, 0x08, 0x08, 0x7f, 0x00, 0x41, 0x7f, 0x41, 0x00, 0x20, 0x40, 0x41, 0x3f, 0x01, 0x7f, 0x08, 0x14, 0x22, 0x41, // H I J K
+  0x7f, 0x40, 0x40, 0x40, 0x40, 0x7f, 0x02, 0x04, 0x02, 0x7f, 0x7f, 0x04, 0x08, 0x10, 0x7f, 0x3e, 0x41, 0x41, 0x41, 0x3e, // L M N O
+  0x7f, 0x09, 0x09, 0x09, 0x06, 0x3e, 0x41, 0x51, 0x21, 0x5e, 0x7f, 0x09, 0x19, 0x29, 0x46, 0x46, 0x49, 0x49, 0x49, 0x31, // P Q R S
+  0x01, 0x01, 0x7f, 0x01, 0x01, 0x3f, 0x40, 0x40, 0x40, 0x3f, 0x1f, 0x20, 0x40, 0x20, 0x1f, 0x7f, 0x20, 0x18, 0x20, 0x7f, // T U V W
+  0x63, 0x14, 0x08, 0x14, 0x63, 0x03, 0x04, 0x78, 0x04, 0x03, 0x61, 0x51, 0x49, 0x45, 0x43, 0x00, 0x7f, 0x41, 0x41, 0x00, // X Y Z [
+  0x02, 0x04, 0x08, 0x10, 0x20, 0x00, 0x41, 0x41, 0x7f, 0x00, 0x04, 0x02, 0x01, 0x02, 0x04, 0x40, 0x40, 0x40, 0x40, 0x40, // \ ] ^ _
+  0x00, 0x01, 0x02, 0x04, 0x00, 0x20, 0x54, 0x54, 0x54, 0x78, 0x7f, 0x48, 0x44, 0x44, 0x38, 0x38, 0x44, 0x44, 0x44, 0x20, // ` a b c
+  0x38, 0x44, 0x44, 0x48, 0x7f, 0x38, 0x54, 0x54, 0x54, 0x18, 0x08, 0x7e, 0x09, 0x01, 0x02, 0x0c, 0x52, 0x52, 0x52, 0x3e, // d e f g
+  0x7f, 0x08, 0x04, 0x04, 0x78, 0x00, 0x44, 0x7d, 0x40, 0x00, 0x20, 0x40, 0x44, 0x3d, 0x00, 0x7f, 0x10, 0x28, 0x44, 0x00, // h i j k
+  0x00, 0x41, 0x7f, 0x40, 0x00, 0x7c, 0x04, 0x18, 0x04, 0x78, 0x7c, 0x08, 0x04, 0x04, 0x78, 0x38, 0x44, 0x44, 0x44, 0x38, // l m n o
+  0x7c, 0x14, 0x14, 0x14, 0x08, 0x08, 0x14, 0x14, 0x18, 0x7c, 0x7c, 0x08, 0x04, 0x04, 0x08, 0x48, 0x54, 0x54, 0x54, 0x20, // p q r s
+  0x04, 0x3f, 0x44, 0x40, 0x20, 0x3c, 0x40, 0x40, 0x20, 0x7c, 0x1c, 0x20, 0x40, 0x20, 0x1c, 0x3c, 0x40, 0x30, 0x40, 0x3c, // t u v w
+  0x44, 0x28, 0x10, 0x28, 0x44, 0x0c, 0x50, 0x50, 0x50, 0x3c, 0x44, 0x64, 0x54, 0x4c, 0x44, 0x00, 0x08, 0x36, 0x41, 0x00, // x y z {
+  0x00, 0x00, 0x7f, 0x00, 0x00, 0x00, 0x41, 0x36, 0x08, 0x00, 0x08, 0x04, 0x08, 0x10, 0x08, // | } ~
+];
+
+const isPrintableAscii = (s: string) => /^[\x20-\x7e]*$/.test(s);
+
+/** The name as the PNG font can draw it. */
+function pngName(card: OgCard): string {
+  const candidates = [card.name, ...card.asciiNames].map((n) => n.trim()).filter(Boolean);
+  const drawable = candidates.find(isPrintableAscii);
+  const name = drawable ?? card.uuid.slice(0, 8);
+  return name.length > MAX_NAME_CHARS ? name.slice(0, MAX_NAME_CHARS - 3) + "..." : name;
+}
+
+export async function renderOgPng(card: OgCard): Promise<Uint8Array> {
+  const width = OG_IMAGE_WIDTH;
+  const height = OG_IMAGE_HEIGHT;
+  const rowBytes = pngRowBytes(width, 8);
+  const pixels = new Uint8Array(rowBytes * height); // filter byte 0, palette index 0
+
+  const fill = (x0: number, y0: number, w: number, h: number, color: number) => {
+    for (let y = Math.max(0, y0); y < Math.min(height, y0 + h); y++) {
+      pixels.fill(color, y * rowBytes + 1 + Math.max(0, x0), y * rowBytes + 1 + Math.min(width, x0 + w));
+    }
+  };
+
+  fill(0, 0, 24, height, 4);
+  for (const line of cardLines(card, pngName(card))) {
+    const scale = Math.max(1, Math.floor(line.height / 7));
+    let x = MARGIN_X;
+    for (const ch of line.text) {
+      const code = ch.charCodeAt(0);
+      const glyph = code >= 0x20 && code <= 0x7e ? (code - 0x20) * 5 : 0; // others draw as a space
+      for (let col = 0; col < 5; col++) {
+        const bits = FONT_5X7[glyph + col];
+        for (let row = 0; row < 7; row++) {
+          if (bits & (1 << row)) fill(x + col * scale, line.y + row * scale, scale, scale, line.color);
+        }
+      }
+      x += 6 * scale;
+      if (x >= width) break;
+    }
+  }
+
+  return encodePng({ width, height, bitDepth: 8, colorType: 3, palette: PALETTE }, pixels);
+}
+
+// ------------------------------------------------------------------
+// Handler
+// ------------------------------------------------------------------
+
+export type OgFormat = "svg" | "png";
+
+function ogError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }, null, 2), {
+    status,
+    headers: { "content-type": "application/json; charset=utf-8", "cache-control": "public, max-age=60", ...securityHeaders() },
+  });
+}
+
+/** GET /og/<uuid>.png, /og/<uuid>.svg */
+export async function handleOgImage(request: Request, env: Env, uuid: string, format: OgFormat): Promise<Response> {
+  if (!isUuid(uuid)) return ogError("invalid_uuid", 400);
+  const u = uuid.toLowerCase();
+
+  const profile = (await env.ANCHOR_KV.get(`profile:${u}`, { type: "json" })) as any | null;
+  if (!profile) return ogError("not_found", 404);
+
+  // The successor's card, as its HTML view redirects there too; nothing of
+  // the superseded profile is published.
+  const succession = await loadSuccession(env, u);
+  if (succession) {
+    return new Response(null, {
+      status: 301,
+      headers: {
+        location: `https://anchorid.net/og/${succession.supersededBy}.${format}`,
+        "cache-control": "public, max-age=300",
+        ...securityHeaders(),
+      },
+    });
+  }
+
+  const claims = await loadClaims(env, u);
+  const verified = claims.filter((c) => c.status === "verified");
+  const alternateNames: unknown[] = Array.isArray(profile.alternateName) ? profile.alternateName : [];
+  const card: OgCard = {
+    uuid: u,
+    name: localizedText(profile.name),
+    asciiNames: alternateNames.map((n: any) => (typeof n === "string" ? n : String(n?.["@value"] ?? ""))),
+    type: profile["@type"] === "Organization" ? "Organization" : "Person",
+    verified: verified.length,
+    claimTypes: verified.map((c) => (c.type === "social" ? "public" : c.type)),
+  };
+
+  const headers = {
+    "cache-control": "public, max-age=3600, s-maxage=86400",
+    "access-control-allow-origin": "*",
+    ...embeddableImageHeaders(),
+  };
+  const lastModified = latestIso([profile.dateModified, claimsLastModified(claims, profile)]);
+
+  if (format === "svg") {
+    return conditionalResponse(request, renderOgSvg(card), { ...headers, "content-type": "image/svg+xml; charset=utf-8" }, lastModified);
+  }
+  return new Response(await renderOgPng(card), { headers: { ...headers, "content-type": "image/png" } });
+}
@@ -0,0 +1,89 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Minimal PNG encoder for the generated images (/qr, /og). Callers build
+ * the filtered scanlines (filter byte 0 + pixel data per row); this wraps
+ * them in IHDR/PLTE/IDAT/IEND. Compression uses the runtime's
+ * CompressionStream ("deflate" is the zlib format PNG requires).
+ */
+
+export interface PngOptions {
+  width: number;
+  height: number;
+  bitDepth: 1 | 8;
+  /** 0 = grayscale, 3 = palette (needs `palette`) */
+  colorType: 0 | 3;
+  /** RGB triples, for colorType 3 */
+  palette?: Array<[number, number, number]>;
+}
+
+const SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE: number[] = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+async function zlibDeflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Bytes per scanline, including the leading filter byte. */
+export function pngRowBytes(width: number, bitDepth: 1 | 8): number {
+  return 1 + Math.ceil((width * bitDepth) / 8);
+}
+
+export async function encodePng(options: PngOptions, scanlines: Uint8Array): Promise<Uint8Array> {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, options.width);
+  view.setUint32(4, options.height);
+  ihdr.set([options.bitDepth, options.colorType, 0, 0, 0], 8); // deflate, no filter, no interlace
+
+  const parts = [SIGNATURE, chunk("IHDR", ihdr)];
+  if (options.colorType === 3) {
+    parts.push(chunk("PLTE", new Uint8Array((options.palette ?? []).flat())));
+  }
+  parts.push(chunk("IDAT", await zlibDeflate(scanlines)), chunk("IEND", new Uint8Array(0)));
+
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
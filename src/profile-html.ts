@@ -0,0 +1,199 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * HTML view of a resolved profile (/resolve/<uuid> with Accept: text/html).
+ *
+ * Pure rendering: the caller resolves the record, the verified claim URLs and
+ * the display names of referenced entities. The canonical JSON-LD is embedded
+ * verbatim as a data block, so crawlers reading the page get the same record
+ * as an application/ld+json client.
+ */
+
+import { canonicalizeUrl, localizedText, splitLocalized } from "./domain/profile";
+import type { LangString } from "./domain/profile";
+import { ogImageUrl, socialMetaTags, verifiedSummary } from "./og";
+import { feedUrl } from "./events";
+
+export interface ProfileHtmlContext {
+  /** Canonical URLs of verified claims; used to mark sameAs entries. */
+  verifiedUrls: string[];
+  /** Display names keyed by referenced entity @id (founder/affiliation/member). */
+  relatedNames: Record<string, string>;
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** A localized value as inline HTML, language-tagged ones with a lang attribute. */
+function langSpan(v: string | LangString): string {
+  return typeof v === "string" ? esc(v) : `<span lang="${esc(v["@language"])}">${esc(v["@value"])}</span>`;
+}
+
+/**
+ * JSON for a <script type="application/ld+json"> block. Only "<" needs
+ * escaping: it is what could close the element ("</script>") or open a
+ * comment; \u003c is the same character to any JSON parser.
+ */
+export function jsonLdScriptContent(record: unknown): string {
+  return JSON.stringify(record, null, 2).replace(/</g, "\\u003c");
+}
+
+/** UUID of an AnchorID resolver URL, or null for anything else. */
+export function uuidFromResolveUrl(id: string): string | null {
+  const m = /^https:\/\/anchorid\.net\/resolve\/([0-9a-f-]{36})$/i.exec(id);
+  return m ? m[1].toLowerCase() : null;
+}
+
+/** @id values of a record's references under `keys` (founder/affiliation by default). */
+export function relatedEntityIds(record: Record<string, any>, keys = ["founder", "affiliation"]): string[] {
+  const ids: string[] = [];
+  for (const key of keys) {
+    const refs = record[key];
+    if (!Array.isArray(refs)) continue;
+    for (const ref of refs) {
+      if (ref && typeof ref["@id"] === "string") ids.push(ref["@id"]);
+    }
+  }
+  return ids;
+}
+
+export function renderProfileHtml(record: Record<string, any>, ctx: ProfileHtmlContext): string {
+  const id = String(record["@id"] || "");
+  const uuid = uuidFromResolveUrl(id) || "";
+  const type = record["@type"] === "Organization" ? "Organization" : "Person";
+  const nameParts = splitLocalized(record.name);
+  const language = nameParts.language;
+  const name = localizedText(record.name) || uuid;
+  const description = localizedText(record.description, language);
+  const claimsUrl = `https://anchorid.net/claims/${uuid}`;
+
+  const verified = new Set(ctx.verifiedUrls.map((u) => canonicalizeUrl(u)).filter(Boolean));
+
+  // Other-language names read as alternate names
+  const alternateNames: Array<string | LangString> = [
+    ...nameParts.translations,
+    ...(Array.isArray(record.alternateName) ? record.alternateName : []),
+  ];
+
+  function renderRefs(label: string, refs: unknown): string {
+    if (!Array.isArray(refs) || !refs.length) return "";
+    const items = refs
+      .filter((r) => r && typeof r["@id"] === "string")
+      .map((r) => {
+        const refId = r["@id"] as string;
+        const refName = ctx.relatedNames[refId] || uuidFromResolveUrl(refId) || refId;
+        const mark = r.relationStatus === "confirmed"
+          ? ` <span class="badge verified">CONFIRMED</span>`
+          : r.relationStatus === "pending"
+            ? ` <span class="badge manual">UNCONFIRMED</span>`
+            : "";
+        return `<li><a href="${esc(refId)}">${esc(refName)}</a>${mark}</li>`;
+      });
+    return `<h2>${esc(label)}</h2>\n  <ul>${items.join("")}</ul>`;
+  }
+
+  const sameAs: string[] = Array.isArray(record.sameAs) ? record.sameAs : [];
+  const sameAsHtml = sameAs.length
+    ? `<ul class="links">${sameAs
+        .map((u) => {
+          const isVerified = verified.has(canonicalizeUrl(u));
+          const mark = isVerified
+            ? `<span class="badge verified">VERIFIED</span>`
+            : `<span class="badge manual">MANUAL</span>`;
+          return `<li><a href="${esc(u)}" rel="me noopener" target="_blank">${esc(u)}</a> ${mark}</li>`;
+        })
+        .join("")}</ul>`
+    : `<p class="muted">No linked identities.</p>`;
+
+  const foundingDate = type === "Organization" && typeof record.foundingDate === "string" ? record.foundingDate : "";
+  const text = (key: string): string => (typeof record[key] === "string" ? record[key] : "");
+  const knowsAbout: string[] = Array.isArray(record.knowsAbout) ? record.knowsAbout : [];
+
+  const summary = verifiedSummary(verified.size);
+  const socialTags = uuid
+    ? socialMetaTags({
+        title: `${name} • AnchorID`,
+        description: [description, `${type} on AnchorID. ${summary}.`].filter(Boolean).join(" — "),
+        url: id,
+        image: ogImageUrl(uuid),
+        imageAlt: `${name}: ${summary}`,
+        type: "profile",
+      })
+    : "";
+
+  return `<!doctype html>
+<html${language ? ` lang="${esc(language)}"` : ""}>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${esc(name)} • AnchorID</title>
+  ${socialTags}
+  ${uuid ? `<link rel="alternate" type="application/atom+xml" title="Changes to ${esc(name)}" href="${esc(feedUrl(uuid, "atom"))}" />
+  <link rel="alternate" type="application/feed+json" title="Changes to ${esc(name)}" href="${esc(feedUrl(uuid, "json"))}" />` : ""}
+  <script type="application/ld+json">
+${jsonLdScriptContent(record)}
+  </script>
+  <style>
+    body{font-family:system-ui,-apple-system,Segoe UI,Roboto,Ubuntu,Cantarell,Noto Sans,sans-serif;margin:24px;max-width:920px;line-height:1.4}
+    header{display:flex;gap:12px;align-items:baseline;flex-wrap:wrap}
+    h1{font-size:24px;margin:0}
+    h2{font-size:16px;margin:20px 0 6px}
+    .muted{color:#666}
+    .box{background:#f6f7f9;border:1px solid #e4e6ea;border-radius:10px;padding:12px;margin:16px 0}
+    code{font-family:ui-monospace,SFMono-Regular,Menlo,Monaco,Consolas,monospace}
+    ul{padding-left:20px;margin:6px 0}
+    li{margin:4px 0}
+    .badge{font-size:12px;padding:2px 8px;border-radius:999px;border:1px solid #ddd}
+    .badge.type{background:#e8f0fe;border-color:#c6dafc}
+    .badge.verified{background:#e7f7ee;border-color:#bfe8cf}
+    .badge.manual{background:#f1f1f1;border-color:#ddd;color:#555}
+    footer{margin-top:24px;color:#777;font-size:12px}
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${esc(name)}</h1>
+    <span class="badge type">${type}</span>
+  </header>
+  ${alternateNames.length ? `<div class="muted">Also known as ${alternateNames.map(langSpan).join(", ")}</div>` : ""}
+  ${text("jobTitle") ? `<div>${esc(text("jobTitle"))}</div>` : ""}
+  ${text("legalName") ? `<div class="muted">Legal name: ${esc(text("legalName"))}</div>` : ""}
+  ${description ? `<p>${esc(description)}</p>` : ""}
+  ${typeof record.url === "string" && record.url ? `<p><a href="${esc(record.url)}" rel="me noopener" target="_blank">${esc(record.url)}</a></p>` : ""}
+  ${foundingDate ? `<p class="muted">Founded ${esc(foundingDate)}</p>` : ""}
+  ${knowsAbout.length ? `<p class="muted">Knows about: ${knowsAbout.map(esc).join(", ")}</p>` : ""}
+  ${text("email") ? `<p>Contact: <a href="mailto:${esc(text("email"))}">${esc(text("email"))}</a></p>` : ""}
+
+  ${type === "Organization" ? renderRefs("Founders", record.founder) : renderRefs("Affiliations", record.affiliation)}
+  ${type === "Organization" ? renderRefs("Members", record.member) : ""}
+
+  <h2>Linked identities</h2>
+  ${sameAsHtml}
+  <p class="muted" style="font-size:13px">Verified links are backed by a checked proof in the <a href="${esc(claimsUrl)}">claims ledger</a>; manual links are self-asserted.</p>
+
+  <div class="box">
+    <div><strong>AnchorID</strong>: <code>${esc(id)}</code></div>
+    <div><strong>Claims</strong>: <a href="${esc(claimsUrl)}">${esc(claimsUrl)}</a></div>
+  </div>
+
+  <footer>
+    Served by AnchorID • <a href="${esc(id)}">/resolve</a> • <a href="${esc(claimsUrl)}">/claims</a>
+  </footer>
+</body>
+</html>`;
+}
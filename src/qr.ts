@@ -0,0 +1,520 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * QR codes for resolver URLs: /qr/<uuid>.svg and /qr/<uuid>.png
+ *
+ * For business cards and slides. Generated in the Worker: a byte-mode
+ * QR Code Model 2 encoder (ISO/IEC 18004, after Project Nayuki's reference
+ * implementation) with SVG and 1-bit grayscale PNG output (src/png.ts), so
+ * there is no dependency.
+ *
+ * Query options:
+ *   ?ecc=L|M|Q|H         error-correction level (default M; H survives a logo
+ *                        or a coffee stain, at the cost of a denser code)
+ *   ?size=<px>           64–2048, default 256. PNGs round down to a whole
+ *                        number of pixels per module
+ *   ?form=short          encode https://anchorid.net/<uuid> instead of the
+ *                        canonical /resolve URL (a smaller, easier code)
+ *
+ * The output depends only on the UUID and the options, so it is cached hard.
+ */
+
+import type { Env } from "./env";
+import { isUuid } from "./claims/store";
+import { conditionalResponse, embeddableImageHeaders, securityHeaders } from "./http";
+import { encodePng, pngRowBytes } from "./png";
+
+export type QrEcc = "L" | "M" | "Q" | "H";
+
+export interface QrCode {
+  version: number;
+  size: number;
+  /** modules[y][x], true = dark */
+  modules: boolean[][];
+}
+
+// ------------------------------------------------------------------
+// Encoder
+// ------------------------------------------------------------------
+
+const ECC_ORDINAL: Record<QrEcc, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECC_FORMAT_BITS: Record<QrEcc, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Per version (index 0 unused), by ECC ordinal.
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+function getBit(x: number, i: number): boolean {
+  return ((x >>> i) & 1) !== 0;
+}
+
+/** Modules available for data and ECC in a version (everything but function patterns). */
+function numRawDataModules(ver: number): number {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(ver: number, ecc: QrEcc): number {
+  const e = ECC_ORDINAL[ecc];
+  return Math.floor(numRawDataModules(ver) / 8) - ECC_CODEWORDS_PER_BLOCK[e][ver] * NUM_ERROR_CORRECTION_BLOCKS[e][ver];
+}
+
+/** GF(2^8) product modulo x^8 + x^4 + x^3 + x^2 + 1. */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/** Reed-Solomon ECC codewords for `data` (exported for tests). */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree);
+  const result: number[] = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+/** The 15 format bits (ECC level + mask, BCH-protected and masked). */
+export function formatBits(ecc: QrEcc, mask: number): number {
+  const data = (ECC_FORMAT_BITS[ecc] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+/** The 18 version bits (versions 7 and up). */
+export function versionBits(ver: number): number {
+  let rem = ver;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (ver << 12) | rem;
+}
+
+function alignmentPatternPositions(ver: number): number[] {
+  if (ver === 1) return [];
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step = Math.floor((ver * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = ver * 4 + 17 - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+}
+
+/** Split into blocks, add ECC to each and interleave, as the symbol stores them. */
+function addEccAndInterleave(data: number[], ver: number, ecc: QrEcc): number[] {
+  const e = ECC_ORDINAL[ecc];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[e][ver];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[e][ver];
+  const rawCodewords = Math.floor(numRawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const eccBytes = reedSolomonRemainder(dat, blockEccLen);
+    if (i < numShortBlocks) dat.push(0); // placeholder, skipped below
+    blocks.push(dat.concat(eccBytes));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+class QrBuilder {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, private readonly ecc: QrEcc) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    const size = this.size;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) this.setFunction(x, y, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+
+    const align = alignmentPatternPositions(this.version);
+    const last = align.length - 1;
+    for (let i = 0; i < align.length; i++) {
+      for (let j = 0; j < align.length; j++) {
+        // The three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) continue;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(align[i] + dx, align[j] + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      }
+    }
+
+    this.drawFormatBits(0); // reserves the area; redrawn once the mask is chosen
+    if (this.version >= 7) {
+      const bits = versionBits(this.version);
+      for (let i = 0; i < 18; i++) {
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, getBit(bits, i));
+        this.setFunction(b, a, getBit(bits, i));
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const bits = formatBits(this.ecc, mask);
+    const size = this.size;
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true); // the dark module
+  }
+
+  /** Zig-zag the codewords into the non-function modules, two columns at a time. */
+  drawCodewords(data: number[]): void {
+    const size = this.size;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // skip the vertical timing pattern
+      for (let vert = 0; vert < size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR a mask pattern over the data modules; applying it twice undoes it. */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (!this.isFunction[y][x] && invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  private finderPenaltyCountPatterns(runHistory: number[]): number {
+    const n = runHistory[1];
+    const core = n > 0 && runHistory[2] === n && runHistory[3] === n * 3 && runHistory[4] === n && runHistory[5] === n;
+    return (core && runHistory[0] >= n * 4 && runHistory[6] >= n ? 1 : 0) +
+      (core && runHistory[6] >= n * 4 && runHistory[0] >= n ? 1 : 0);
+  }
+
+  private finderPenaltyAddHistory(runLength: number, runHistory: number[]): void {
+    if (runHistory[0] === 0) runLength += this.size; // light border before the first run
+    runHistory.pop();
+    runHistory.unshift(runLength);
+  }
+
+  private finderPenaltyTerminateAndCount(runColor: boolean, runLength: number, runHistory: number[]): number {
+    if (runColor) {
+      this.finderPenaltyAddHistory(runLength, runHistory);
+      runLength = 0;
+    }
+    runLength += this.size; // light border after the last run
+    this.finderPenaltyAddHistory(runLength, runHistory);
+    return this.finderPenaltyCountPatterns(runHistory);
+  }
+
+  /** ISO 18004 mask penalty: runs, 2×2 blocks, finder look-alikes, balance. */
+  penaltyScore(): number {
+    const size = this.size;
+    const m = this.modules;
+    let result = 0;
+
+    for (const transpose of [false, true]) {
+      for (let a = 0; a < size; a++) {
+        let runColor = false;
+        let run = 0;
+        const runHistory = [0, 0, 0, 0, 0, 0, 0];
+        for (let b = 0; b < size; b++) {
+          const dark = transpose ? m[b][a] : m[a][b];
+          if (dark === runColor) {
+            run++;
+            if (run === 5) result += PENALTY_N1;
+            else if (run > 5) result++;
+          } else {
+            this.finderPenaltyAddHistory(run, runHistory);
+            if (!runColor) result += this.finderPenaltyCountPatterns(runHistory) * PENALTY_N3;
+            runColor = dark;
+            run = 1;
+          }
+        }
+        result += this.finderPenaltyTerminateAndCount(runColor, run, runHistory) * PENALTY_N3;
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const c = m[y][x];
+        if (c === m[y][x + 1] && c === m[y + 1][x] && c === m[y + 1][x + 1]) result += PENALTY_N2;
+      }
+    }
+
+    const dark = m.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    return result + k * PENALTY_N4;
+  }
+}
+
+/**
+ * Encode `text` (UTF-8, byte mode) at the smallest version that fits.
+ * Throws if it does not fit in version 40.
+ */
+export function encodeQr(text: string, ecc: QrEcc): QrCode {
+  const bytes = [...new TextEncoder().encode(text)];
+
+  let version = 1;
+  for (; ; version++) {
+    if (version > 40) throw new Error("qr_data_too_long");
+    const countBits = version <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= numDataCodewords(version, ecc) * 8) break;
+  }
+
+  // Mode indicator, character count, data, terminator, byte padding
+  const bits: number[] = [];
+  const append = (value: number, len: number) => {
+    for (let i = len - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  for (const b of bytes) append(b, 8);
+  const capacityBits = numDataCodewords(version, ecc) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+
+  const qr = new QrBuilder(version, ecc);
+  qr.drawFunctionPatterns();
+  qr.drawCodewords(addEccAndInterleave(data, version, ecc));
+
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    qr.applyMask(mask);
+    qr.drawFormatBits(mask);
+    const penalty = qr.penaltyScore();
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    qr.applyMask(mask);
+  }
+  qr.applyMask(bestMask);
+  qr.drawFormatBits(bestMask);
+
+  return { version, size: qr.size, modules: qr.modules };
+}
+
+// ------------------------------------------------------------------
+// Rendering
+// ------------------------------------------------------------------
+
+/** Quiet zone in modules, as the standard requires. */
+const QUIET_ZONE = 4;
+
+/** SVG at `pixels` square; one path, so scaling never shows seams. */
+export function qrSvg(qr: QrCode, pixels: number): string {
+  const dim = qr.size + QUIET_ZONE * 2;
+  const path: string[] = [];
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (qr.modules[y][x]) path.push(`M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z`);
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${pixels}" height="${pixels}" viewBox="0 0 ${dim} ${dim}" shape-rendering="crispEdges">
+  <rect width="${dim}" height="${dim}" fill="#fff"/>
+  <path d="${path.join("")}" fill="#000"/>
+</svg>
+`;
+}
+
+/** 1-bit grayscale PNG, a whole number of pixels per module, at most `pixels` wide (but ≥ 1 px/module). */
+export async function qrPng(qr: QrCode, pixels: number): Promise<Uint8Array> {
+  const dim = qr.size + QUIET_ZONE * 2;
+  const scale = Math.max(1, Math.floor(pixels / dim));
+  const width = dim * scale;
+  const rowBytes = pngRowBytes(width, 1);
+
+  // Filter byte 0 per row; in 1-bit grayscale a set bit is white.
+  const raw = new Uint8Array(rowBytes * width);
+  for (let py = 0; py < width; py++) {
+    const row = py * rowBytes;
+    const y = Math.floor(py / scale) - QUIET_ZONE;
+    for (let px = 0; px < width; px++) {
+      const x = Math.floor(px / scale) - QUIET_ZONE;
+      const dark = y >= 0 && y < qr.size && x >= 0 && x < qr.size && qr.modules[y][x];
+      if (!dark) raw[row + 1 + (px >> 3)] |= 0x80 >> (px & 7);
+    }
+  }
+  return encodePng({ width, height: width, bitDepth: 1, colorType: 0 }, raw);
+}
+
+// ------------------------------------------------------------------
+// Handler
+// ------------------------------------------------------------------
+
+export type QrFormat = "svg" | "png";
+
+export interface QrOptions {
+  ecc: QrEcc;
+  size: number;
+  short: boolean;
+}
+
+const MIN_SIZE = 64;
+const MAX_SIZE = 2048;
+const DEFAULT_SIZE = 256;
+
+/** Options from the query string; unknown values fall back to defaults, sizes are clamped. */
+export function parseQrOptions(params: URLSearchParams): QrOptions {
+  const ecc = (params.get("ecc") || "").toUpperCase();
+  const size = parseInt(params.get("size") || "", 10);
+  return {
+    ecc: ecc === "L" || ecc === "Q" || ecc === "H" ? ecc : "M",
+    size: Number.isFinite(size) ? Math.min(MAX_SIZE, Math.max(MIN_SIZE, size)) : DEFAULT_SIZE,
+    short: params.get("form") === "short",
+  };
+}
+
+/** The URL a code for `uuid` encodes. */
+export function qrTargetUrl(uuid: string, short: boolean): string {
+  return short ? `https://anchorid.net/${uuid}` : `https://anchorid.net/resolve/${uuid}`;
+}
+
+function qrError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }, null, 2), {
+    status,
+    headers: { "content-type": "application/json; charset=utf-8", "cache-control": "public, max-age=60", ...securityHeaders() },
+  });
+}
+
+/** GET /qr/<uuid>.svg, /qr/<uuid>.png */
+export async function handleQr(request: Request, env: Env, uuid: string, format: QrFormat): Promise<Response> {
+  if (!isUuid(uuid)) return qrError("invalid_uuid", 400);
+  const u = uuid.toLowerCase();
+  // A code for a typo would be printed and never work; refuse unknown UUIDs.
+  if (!(await env.ANCHOR_KV.get(`profile:${u}`))) return qrError("not_found", 404);
+
+  const options = parseQrOptions(new URL(request.url).searchParams);
+  const qr = encodeQr(qrTargetUrl(u, options.short), options.ecc);
+  const headers = {
+    "cache-control": "public, max-age=86400, s-maxage=604800",
+    "access-control-allow-origin": "*",
+    ...embeddableImageHeaders(),
+  };
+
+  if (format === "svg") {
+    return conditionalResponse(request, qrSvg(qr, options.size), { ...headers, "content-type": "image/svg+xml; charset=utf-8" }, null);
+  }
+  return new Response(await qrPng(qr, options.size), { headers: { ...headers, "content-type": "image/png" } });
+}
@@ -0,0 +1,321 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * Mutual consent for founder / affiliation references.
+ *
+ * A Person listing an Organization in `affiliation`, or an Organization
+ * listing a Person in `founder`, is one side's assertion. Saving it creates a
+ * pending relation that the other side's owner accepts or rejects from their
+ * edit page. Each relation is stored twice so both ends read one key:
+ *
+ *   relations:<uuid> → { outgoing: Relation[], incoming: Relation[] }
+ *
+ * /resolve marks every AnchorID reference with its status
+ * ("relationStatus": "confirmed" | "pending"), omits rejected ones, and with
+ * ?relations=confirmed omits pending ones too. References in the other
+ * direction do not confirm each other: a Person's affiliation with an
+ * Organization and that Organization naming them as founder are different
+ * statements, so each side accepts the other's explicitly.
+ *
+ * A reference gets its relation when the source is saved. The daily cron
+ * runs reconcileRelations() to catch the ones no save created: references
+ * stored before relations existed, and references to a profile that did not
+ * exist at the time. Until then a reference carries no status — there is
+ * nothing the other side could accept yet.
+ *
+ * The incoming lists double as the reverse index: an Organization's record
+ * publishes the Persons whose confirmed affiliation points at it as
+ * `member`, and /relations/<uuid> lists members and founded organizations. Only confirmed
+ * relations are published from the receiving side — a pending one is still
+ * just someone else's claim about this profile.
+ *
+ * Removing a relation stamps both ends' stores with `removedAt`, which counts
+ * towards Last-Modified: the remaining relations' timestamps alone would
+ * move backwards, and an If-Modified-Since request would get a 304 for a
+ * record that changed.
+ *
+ * Like the other KV lists, updates are read-modify-write and two concurrent
+ * saves touching the same key can race.
+ */
+
+import type { Env } from "./env";
+import { sendEmail } from "./email";
+import { shouldSendNotification } from "./claims/notifications";
+import { latestIso } from "./http";
+import { uuidFromResolveUrl } from "./profile-html";
+
+export type RelationKind = "affiliation" | "founder";
+export type RelationStatus = "pending" | "confirmed" | "rejected";
+
+export const RELATION_KINDS: RelationKind[] = ["affiliation", "founder"];
+
+export interface Relation {
+  source: string; // uuid of the profile making the assertion
+  target: string; // uuid it points at
+  kind: RelationKind; // the field on the source's record
+  status: RelationStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RelationStore {
+  outgoing: Relation[];
+  incoming: Relation[];
+  removedAt?: string; // ISO 8601; when a relation was last removed from either list
+}
+
+export function relationsKey(uuid: string): string {
+  return `relations:${uuid.toLowerCase()}`;
+}
+
+export async function loadRelations(env: Env, uuid: string): Promise<RelationStore> {
+  const raw = (await env.ANCHOR_KV.get(relationsKey(uuid), { type: "json" })) as Partial<RelationStore> | null;
+  return {
+    outgoing: Array.isArray(raw?.outgoing) ? raw!.outgoing : [],
+    incoming: Array.isArray(raw?.incoming) ? raw!.incoming : [],
+    ...(typeof raw?.removedAt === "string" ? { removedAt: raw.removedAt } : {}),
+  };
+}
+
+async function saveRelations(env: Env, uuid: string, store: RelationStore): Promise<void> {
+  // An empty store is kept while it carries a removal stamp.
+  if (!store.outgoing.length && !store.incoming.length && !store.removedAt) {
+    await env.ANCHOR_KV.delete(relationsKey(uuid));
+    return;
+  }
+  await env.ANCHOR_KV.put(relationsKey(uuid), JSON.stringify(store));
+}
+
+const sameRelation = (a: Relation) => (b: Relation) =>
+  a.source === b.source && a.target === b.target && a.kind === b.kind;
+
+/** AnchorID UUIDs referenced by a record's `kind` field, minus itself. */
+function referencedUuids(record: Record<string, any>, kind: RelationKind, self: string): string[] {
+  const refs = Array.isArray(record?.[kind]) ? record[kind] : [];
+  const out: string[] = [];
+  for (const ref of refs) {
+    const uuid = ref && typeof ref["@id"] === "string" ? uuidFromResolveUrl(ref["@id"]) : null;
+    if (uuid && uuid !== self && !out.includes(uuid)) out.push(uuid);
+  }
+  return out;
+}
+
+/**
+ * Bring a profile's outgoing relations in line with its saved record. Call
+ * after writing the profile. Removed references are dropped at both ends;
+ * new ones become pending. Returns the relations that now await the other
+ * side, and the ones dropped — a confirmed one leaves its target's published
+ * `member` list, so the caller records a change for the target too.
+ *
+ * `beforeWrite`, when given, is called with the profiles whose published
+ * records are about to change (this one and the dropped targets) before
+ * anything is written, and only if something will be. Callers seed their
+ * revision history with it; this module cannot import history.ts, which
+ * reads relations through resolve.ts.
+ */
+export async function syncOutgoingRelations(
+  env: Env,
+  uuid: string,
+  record: Record<string, any>,
+  beforeWrite?: (uuids: string[]) => Promise<void>
+): Promise<{ created: Relation[]; dropped: Relation[] }> {
+  const u = uuid.toLowerCase();
+  const store = await loadRelations(env, u);
+  const now = new Date().toISOString();
+
+  const wanted: Array<{ target: string; kind: RelationKind }> = RELATION_KINDS.flatMap((kind) =>
+    referencedUuids(record, kind, u).map((target) => ({ target, kind }))
+  );
+  const isWanted = (r: Relation) => wanted.some((w) => w.target === r.target && w.kind === r.kind);
+
+  const dropped = store.outgoing.filter((r) => !isWanted(r));
+  const kept = store.outgoing.filter(isWanted);
+  const created: Relation[] = [];
+
+  for (const { target, kind } of wanted) {
+    if (kept.some((r) => r.target === target && r.kind === kind)) continue;
+    // Nobody to ask: a reference to a missing profile stays one-sided.
+    const targetProfile = await env.ANCHOR_KV.get(`profile:${target}`, { type: "json" });
+    if (!targetProfile) continue;
+    created.push({ source: u, target, kind, status: "pending", createdAt: now, updatedAt: now });
+  }
+
+  if (!dropped.length && !created.length) return { created, dropped };
+  await beforeWrite?.([u, ...new Set(dropped.map((r) => r.target))]);
+
+  for (const relation of dropped) {
+    const other = await loadRelations(env, relation.target);
+    other.incoming = other.incoming.filter((r) => !sameRelation(relation)(r));
+    other.removedAt = now;
+    await saveRelations(env, relation.target, other);
+  }
+
+  for (const relation of created) {
+    const other = await loadRelations(env, relation.target);
+    other.incoming = [...other.incoming.filter((r) => !sameRelation(relation)(r)), relation];
+    await saveRelations(env, relation.target, other);
+  }
+
+  store.outgoing = [...kept, ...created];
+  if (dropped.length) store.removedAt = now;
+  await saveRelations(env, u, store);
+  return { created, dropped };
+}
+
+/**
+ * The target's owner accepts or rejects an incoming relation. Rejecting a
+ * confirmed relation withdraws consent. Returns the updated relation, or
+ * null when there is no such relation.
+ */
+export async function respondToRelation(
+  env: Env,
+  target: string,
+  source: string,
+  kind: RelationKind,
+  accept: boolean
+): Promise<Relation | null> {
+  const t = target.toLowerCase();
+  const s = source.toLowerCase();
+  const store = await loadRelations(env, t);
+  const relation = store.incoming.find((r) => r.source === s && r.kind === kind);
+  if (!relation) return null;
+
+  const status: RelationStatus = accept ? "confirmed" : "rejected";
+  if (relation.status === status) return relation;
+
+  const updated: Relation = { ...relation, status, updatedAt: new Date().toISOString() };
+  store.incoming = store.incoming.map((r) => (sameRelation(updated)(r) ? updated : r));
+  await saveRelations(env, t, store);
+
+  const sourceStore = await loadRelations(env, s);
+  sourceStore.outgoing = sourceStore.outgoing.map((r) => (sameRelation(updated)(r) ? updated : r));
+  await saveRelations(env, s, sourceStore);
+  return updated;
+}
+
+/**
+ * Remove every relation touching a profile, at both ends. For profile
+ * deletion; the caller deletes relationsKey(uuid) itself. Returns the other
+ * profiles whose relations changed.
+ */
+export async function detachRelations(env: Env, uuid: string): Promise<string[]> {
+  const u = uuid.toLowerCase();
+  const store = await loadRelations(env, u);
+  const now = new Date().toISOString();
+  const touched = new Set<string>();
+  for (const relation of store.outgoing) {
+    const other = await loadRelations(env, relation.target);
+    other.incoming = other.incoming.filter((r) => r.source !== u);
+    other.removedAt = now;
+    await saveRelations(env, relation.target, other);
+    touched.add(relation.target);
+  }
+  for (const relation of store.incoming) {
+    const other = await loadRelations(env, relation.source);
+    other.outgoing = other.outgoing.filter((r) => r.target !== u);
+    other.removedAt = now;
+    await saveRelations(env, relation.source, other);
+    touched.add(relation.source);
+  }
+  return [...touched];
+}
+
+/**
+ * Annotate a resolved record's founder/affiliation references with their
+ * consent status. Rejected references are removed; with `confirmedOnly`,
+ * every unconfirmed one is too. References outside AnchorID, and ones with
+ * no relation yet (see reconcileRelations), carry no status.
+ *
+ * Returns the latest relation change, which counts towards the record's
+ * Last-Modified.
+ */
+export function applyRelationStatus(
+  record: Record<string, any>,
+  outgoing: Relation[],
+  confirmedOnly: boolean
+): string | null {
+  for (const kind of RELATION_KINDS) {
+    if (!Array.isArray(record[kind])) continue;
+
+    const refs = record[kind]
+      .map((ref: any) => {
+        const target = ref && typeof ref["@id"] === "string" ? uuidFromResolveUrl(ref["@id"]) : null;
+        if (!target) return ref;
+        const relation = outgoing.find((r) => r.target === target && r.kind === kind);
+        if (confirmedOnly && relation?.status !== "confirmed") return null;
+        if (!relation) return ref;
+        if (relation.status === "rejected") return null;
+        return { ...ref, relationStatus: relation.status };
+      })
+      .filter(Boolean);
+
+    if (refs.length) record[kind] = refs;
+    else delete record[kind];
+  }
+  return latestIso(outgoing.map((r) => r.updatedAt));
+}
+
+/** Confirmed incoming relations of one kind, oldest confirmation first. */
+export function confirmedIncoming(incoming: Relation[], kind: RelationKind): Relation[] {
+  return incoming
+    .filter((r) => r.kind === kind && r.status === "confirmed")
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+}
+
+/**
+ * Publish an Organization's confirmed members (Persons whose affiliation it
+ * accepted) as schema.org `member` references. schema.org has no inverse of
+ * `founder`, so founded organizations are only listed by /relations/<uuid>.
+ *
+ * Returns the latest incoming change, which counts towards Last-Modified.
+ */
+export function applyReverseRelations(record: Record<string, any>, incoming: Relation[]): string | null {
+  if (record["@type"] !== "Organization") return null;
+
+  const members = confirmedIncoming(incoming, "affiliation");
+  if (members.length) {
+    record.member = members.map((r) => ({ "@id": `https://anchorid.net/resolve/${r.source}` }));
+  }
+  return latestIso(incoming.map((r) => r.updatedAt));
+}
+
+/** Tell the target's owner that someone listed them and is waiting. */
+export async function notifyRelationRequest(env: Env, relation: Relation, sourceName: string): Promise<void> {
+  const target = (await env.ANCHOR_KV.get(`profile:${relation.target}`, { type: "json" })) as any | null;
+  const email = target?._email;
+  if (!shouldSendNotification(env, email)) return;
+
+  const role = relation.kind === "founder" ? "a founder" : "an affiliated organization";
+  const message = [
+    `${sourceName || relation.source} has listed your AnchorID as ${role}.`,
+    "",
+    `Their record: https://anchorid.net/resolve/${relation.source}`,
+    `Your record: https://anchorid.net/resolve/${relation.target}`,
+    "",
+    "Until you respond it is published as unconfirmed. To accept or reject it,",
+    "sign in and open your edit page: https://anchorid.net/login",
+    "",
+    "---",
+    "To disable these notifications, contact support.",
+  ].join("\n");
+
+  try {
+    await sendEmail(env, email, "Relationship confirmation request - AnchorID", message);
+  } catch (e) {
+    console.error("Failed to send relation request email:", e);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * The published record: stored profile + verified claims + relation status,
+ * as /resolve serves it. Shared by the resolver and by anything that needs
+ * to capture "what /resolve says right now" (revision history).
+ */
+
+import type { Env } from "./env";
+import type { Claim } from "./claims/types";
+import { buildIdentifier, buildProfile } from "./domain/profile";
+import { claimsLastModified, loadClaims } from "./claims/store";
+import { deletedTombstoneKey } from "./email-index";
+import { latestIso, securityHeaders } from "./http";
+import { relatedEntityIds, uuidFromResolveUrl } from "./profile-html";
+import { applyRelationStatus, applyReverseRelations, loadRelations } from "./relations";
+import { loadSuccession, supersededRecord } from "./succession";
+
+export type ResolvedProfile = {
+  record: Record<string, any>;
+  /** URLs of the verified claims merged into record.sameAs. */
+  verifiedUrls: string[];
+  /** Latest of the stored dateModified and claimsLastModified(). */
+  lastModified: string | null;
+};
+
+/**
+ * Run a stored profile and its claims through buildProfile() as a read view.
+ * Private (_-prefixed) fields never reach the record.
+ */
+export function buildResolvedRecord(u: string, profile: any, claims: Claim[]): ResolvedProfile {
+  const storedDateCreated = typeof profile.dateCreated === "string" ? profile.dateCreated : null;
+  const storedDateModified = typeof profile.dateModified === "string" ? profile.dateModified : null;
+
+  const verifiedUrls = claims
+    .filter((c) => c.status === "verified")
+    .map((c) => c.url);
+
+  const { profile: canonical, effectiveSameAs } = buildProfile(
+    u,
+    profile,
+    null,
+    verifiedUrls,
+    {
+      persistMergedSameAs: false,
+      bumpOnNoop: false,
+    }
+  );
+
+  // IMPORTANT: /resolve is a read view. Do not “invent” new timestamps.
+  if (storedDateCreated) canonical.dateCreated = storedDateCreated;
+  if (storedDateModified) canonical.dateModified = storedDateModified;
+
+  // A claim verifying (or failing) changes the published sameAs without
+  // touching dateModified, so claim activity counts as a modification.
+  const lastModified = latestIso([storedDateModified, claimsLastModified(claims, profile)]);
+
+  return { record: { ...canonical, sameAs: effectiveSameAs }, verifiedUrls, lastModified };
+}
+
+/**
+ * The public record for a stored profile: buildResolvedRecord() plus the
+ * relation status of its references and its confirmed members, or the
+ * minimal record once superseded. Null when nothing is stored.
+ */
+export async function loadStoredResolvedProfile(
+  env: Env,
+  u: string,
+  confirmedRelationsOnly = false
+): Promise<ResolvedProfile | null> {
+  const profile = (await env.ANCHOR_KV.get(`profile:${u}`, { type: "json" })) as any | null;
+  if (!profile) return null;
+
+  const succession = await loadSuccession(env, u);
+  if (succession) return supersededRecord(u, profile, succession);
+
+  const resolved = buildResolvedRecord(u, profile, await loadClaims(env, u));
+  const { outgoing, incoming, removedAt } = await loadRelations(env, u);
+  const relationsModified = applyRelationStatus(resolved.record, outgoing, confirmedRelationsOnly);
+  const reverseModified = applyReverseRelations(resolved.record, incoming);
+  return { ...resolved, lastModified: latestIso([resolved.lastModified, relationsModified, reverseModified, removedAt]) };
+}
+
+/** Upper bound for ?depth= on relation expansion. */
+export const MAX_EXPANSION_DEPTH = 3;
+
+/** Nodes per expanded graph, root included; bounds KV reads per request. */
+export const MAX_EXPANSION_NODES = 25;
+
+/** What a referenced entity contributes to an expanded graph. */
+function relationSummary(record: Record<string, any>): Record<string, any> {
+  const node: Record<string, any> = { "@id": record["@id"], "@type": record["@type"] };
+  for (const key of ["name", "identifier", "founder", "affiliation"]) {
+    if (record[key] !== undefined) node[key] = record[key];
+  }
+  if (Array.isArray(record.sameAs) && record.sameAs.length) node.sameAs = record.sameAs;
+  return node;
+}
+
+/**
+ * ?expand=relations: the record plus the AnchorID records its founder /
+ * affiliation references point at, as one JSON-LD @graph. Walked breadth
+ * first to `depth` hops; each entity appears once however many paths reach
+ * it, which is also what stops cycles. References to missing or deleted
+ * records and to non-AnchorID ids stay as bare references in their parent
+ * and get no node of their own.
+ *
+ * The result is a ResolvedProfile whose lastModified is the latest of every
+ * node in the graph, so conditional GETs notice a change to any of them.
+ */
+export async function expandRelations(
+  root: ResolvedProfile,
+  depth: number,
+  load: (uuid: string) => Promise<ResolvedProfile | null>
+): Promise<ResolvedProfile> {
+  const { "@context": context, ...rootNode } = root.record;
+  const graph: Record<string, any>[] = [rootNode];
+  const seen = new Set<string>([String(root.record["@id"])]);
+  const modified: Array<string | null> = [root.lastModified];
+
+  let frontier: Record<string, any>[] = [root.record];
+  for (let hop = 0; hop < depth && frontier.length; hop++) {
+    const ids = frontier
+      .flatMap((record) => relatedEntityIds(record))
+      .filter((id) => !seen.has(id) && uuidFromResolveUrl(id));
+    const unique = [...new Set(ids)].slice(0, Math.max(0, MAX_EXPANSION_NODES - graph.length));
+    unique.forEach((id) => seen.add(id));
+
+    const loaded = await Promise.all(unique.map((id) => load(uuidFromResolveUrl(id)!)));
+    frontier = [];
+    for (const related of loaded) {
+      if (!related) continue;
+      graph.push(relationSummary(related.record));
+      modified.push(related.lastModified);
+      frontier.push(related.record);
+    }
+  }
+
+  return {
+    record: { "@context": context ?? "https://schema.org", "@graph": graph },
+    verifiedUrls: root.verifiedUrls,
+    lastModified: latestIso(modified),
+  };
+}
+
+/** Deletion time of a tombstoned UUID, or null if it was never deleted. */
+export async function loadTombstone(env: Env, uuid: string): Promise<string | null> {
+  return env.ANCHOR_KV.get(deletedTombstoneKey(uuid));
+}
+
+/**
+ * 410 for a deleted UUID, so crawlers and mirrors can tell "removed" from
+ * "never existed". UUIDs are never reused, so the answer is final and may be
+ * cached for as long as anyone likes.
+ */
+export function tombstoneResponse(u: string, deletedAt: string): Response {
+  const parsed = Date.parse(deletedAt);
+  const body = {
+    "@context": "https://schema.org",
+    "@id": `https://anchorid.net/resolve/${u}`,
+    identifier: buildIdentifier(u),
+    error: "gone",
+    uuid: u,
+    deletedAt: Number.isFinite(parsed) ? new Date(parsed).toISOString() : null,
+  };
+  return new Response(JSON.stringify(body, null, 2), {
+    status: 410,
+    headers: {
+      "content-type": "application/ld+json; charset=utf-8",
+      "cache-control": "public, max-age=31536000, immutable",
+      ...securityHeaders(),
+    },
+  });
+}
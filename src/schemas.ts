@@ -0,0 +1,272 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * JSON Schemas (draft 2020-12) for the public contract:
+ *
+ *   /schemas/anchor-profile.json   the record /resolve returns
+ *   /schemas/profile-input.json    the `patch` /update and /validate accept
+ *   /schemas/claim.json            one claims-ledger entry
+ *   /schemas/claims-response.json  the /claims/<uuid> JSON body
+ *
+ * Limits come from the same constants the canonicalizer enforces, so the
+ * schemas cannot drift from validateProfileInput(). They describe shape;
+ * canonicalization (URL normalization, tag case, dedupe) is still the
+ * server's job — run a patch through POST /validate to see the result.
+ *
+ * The URLs are stable: a breaking change gets a new name, not an edit.
+ */
+
+import { PROFILE_FIELD_LIMITS } from "./domain/profile";
+
+const SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+export const SCHEMA_MEDIA_TYPE = "application/schema+json";
+
+export const SCHEMA_NAMES = ["anchor-profile", "profile-input", "claim", "claims-response"] as const;
+export type SchemaName = (typeof SCHEMA_NAMES)[number];
+
+export function schemaUrl(name: SchemaName): string {
+  return `https://anchorid.net/schemas/${name}.json`;
+}
+
+const UUID_PATTERN = "^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$";
+const RESOLVE_URL_PATTERN = `^https://anchorid\\.net/resolve/${UUID_PATTERN.slice(1)}`;
+
+const dateTime = { type: "string", format: "date-time" };
+const httpsUrl = { type: "string", format: "uri", pattern: "^https://" };
+const languageTag = { type: "string", minLength: 2, maxLength: 35, description: "BCP 47 language tag" };
+
+const langString = {
+  type: "object",
+  properties: { "@value": { type: "string" }, "@language": languageTag },
+  required: ["@value", "@language"],
+  additionalProperties: false,
+};
+
+const entityRef = {
+  type: "object",
+  properties: {
+    "@id": { type: "string", pattern: RESOLVE_URL_PATTERN },
+    relationStatus: { enum: ["confirmed", "pending"] },
+  },
+  required: ["@id"],
+};
+
+const webPageRef = {
+  type: "object",
+  properties: { "@type": { const: "WebPage" }, "@id": { type: "string" }, url: { type: "string" }, name: { type: "string" } },
+  required: ["@type", "@id"],
+};
+
+function anchorProfileSchema(): Record<string, unknown> {
+  const localized = {
+    oneOf: [{ type: "string" }, { type: "array", items: { oneOf: [{ type: "string" }, { $ref: "#/$defs/langString" }] } }],
+  };
+  return {
+    $schema: SCHEMA_DIALECT,
+    $id: schemaUrl("anchor-profile"),
+    title: "AnchorID profile",
+    description:
+      "The JSON-LD record served by /resolve/<uuid>. A superseded identity carries only the identifying fields plus supersededBy.",
+    type: "object",
+    properties: {
+      "@context": { const: "https://schema.org" },
+      "@type": { enum: ["Person", "Organization"] },
+      "@id": { type: "string", pattern: RESOLVE_URL_PATTERN },
+      identifier: {
+        type: "object",
+        properties: {
+          "@type": { const: "PropertyValue" },
+          propertyID: { const: "canonical-uuid" },
+          value: { type: "string", pattern: "^urn:uuid:" },
+        },
+        required: ["@type", "propertyID", "value"],
+      },
+      name: localized,
+      alternateName: { type: "array", items: { oneOf: [{ type: "string" }, { $ref: "#/$defs/langString" }] } },
+      description: localized,
+      url: httpsUrl,
+      sameAs: { type: "array", items: httpsUrl, description: "Manual links merged with verified claim URLs" },
+      email: { type: "string", format: "email", maxLength: PROFILE_FIELD_LIMITS.email },
+      image: { ...httpsUrl, maxLength: PROFILE_FIELD_LIMITS.imageUrl },
+      jobTitle: { type: "string", maxLength: PROFILE_FIELD_LIMITS.jobTitle },
+      knowsAbout: {
+        type: "array",
+        maxItems: PROFILE_FIELD_LIMITS.knowsAboutItems,
+        items: { type: "string", maxLength: PROFILE_FIELD_LIMITS.knowsAboutItem },
+      },
+      affiliation: { type: "array", items: { $ref: "#/$defs/entityRef" } },
+      founder: { type: "array", items: { $ref: "#/$defs/entityRef" } },
+      member: { type: "array", items: { $ref: "#/$defs/entityRef" } },
+      foundingDate: { type: "string", format: "date" },
+      logo: { ...httpsUrl, maxLength: PROFILE_FIELD_LIMITS.imageUrl },
+      legalName: { type: "string", maxLength: PROFILE_FIELD_LIMITS.legalName },
+      supersededBy: { type: "object", properties: { "@id": { type: "string", pattern: RESOLVE_URL_PATTERN } }, required: ["@id"] },
+      mainEntityOfPage: webPageRef,
+      subjectOf: webPageRef,
+      isPartOf: {
+        type: "object",
+        properties: { "@type": { const: "WebSite" }, "@id": { type: "string" }, url: { type: "string" }, name: { type: "string" } },
+      },
+      dateCreated: dateTime,
+      dateModified: dateTime,
+      proof: { type: "object", description: "Embedded signature, present with ?proof=1" },
+    },
+    required: ["@context", "@type", "@id", "identifier", "dateCreated", "dateModified"],
+    $defs: { langString, entityRef },
+  };
+}
+
+function profileInputSchema(): Record<string, unknown> {
+  const localizedInput = {
+    description: "A string, a {\"@value\",\"@language\"} object, an array of those, or a language map",
+    oneOf: [
+      { type: "string" },
+      { $ref: "#/$defs/langString" },
+      { type: "array", items: { oneOf: [{ type: "string" }, { $ref: "#/$defs/langString" }] } },
+      {
+        type: "object",
+        not: { required: ["@value"] },
+        maxProperties: PROFILE_FIELD_LIMITS.languages,
+        additionalProperties: { oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] },
+      },
+    ],
+  };
+  const stringOrList = (items: Record<string, unknown> = { type: "string" }) => ({
+    description: "A list, or one string with entries separated by newlines or commas",
+    oneOf: [{ type: "string" }, { type: "array", items }],
+  });
+  const optionalUrl = { type: "string", maxLength: PROFILE_FIELD_LIMITS.imageUrl, description: "http(s) URL, stored as https; empty clears" };
+
+  return {
+    $schema: SCHEMA_DIALECT,
+    $id: schemaUrl("profile-input"),
+    title: "AnchorID profile input",
+    description:
+      "The `patch` accepted by POST /update and POST /validate. A field absent from the patch keeps its stored value; an empty value clears it. Fields the profile's type does not carry are ignored.",
+    type: "object",
+    properties: {
+      name: localizedInput,
+      alternateName: localizedInput,
+      description: localizedInput,
+      defaultLanguage: { ...languageTag, description: "Language given to untagged strings in this patch; empty for none" },
+      url: { type: "string" },
+      sameAs: stringOrList(),
+      email: { type: "string", maxLength: PROFILE_FIELD_LIMITS.email },
+      image: optionalUrl,
+      jobTitle: { type: "string", maxLength: PROFILE_FIELD_LIMITS.jobTitle },
+      knowsAbout: {
+        oneOf: [
+          { type: "string" },
+          {
+            type: "array",
+            maxItems: PROFILE_FIELD_LIMITS.knowsAboutItems,
+            items: { type: "string", maxLength: PROFILE_FIELD_LIMITS.knowsAboutItem },
+          },
+        ],
+      },
+      affiliation: stringOrList(),
+      founder: stringOrList(),
+      foundingDate: { type: "string", description: "ISO 8601 date (YYYY-MM-DD)" },
+      logo: optionalUrl,
+      legalName: { type: "string", maxLength: PROFILE_FIELD_LIMITS.legalName },
+    },
+    $defs: { langString },
+  };
+}
+
+function claimSchema(): Record<string, unknown> {
+  const proofWithUrl = (kind: string, extra: Record<string, unknown> = {}) => ({
+    type: "object",
+    properties: {
+      kind: { const: kind },
+      url: { type: "string" },
+      mustContain: { type: "string" },
+      fallbackUrls: { type: "array", items: { type: "string" } },
+      ...extra,
+    },
+    required: ["kind", "url", "mustContain"],
+  });
+  return {
+    $schema: SCHEMA_DIALECT,
+    $id: schemaUrl("claim"),
+    title: "AnchorID claim",
+    description: "One entry of a claims ledger. \"social\" is the legacy name for \"public\".",
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      type: { enum: ["website", "github", "dns", "public", "social", "x"] },
+      url: { type: "string" },
+      status: { enum: ["self_asserted", "verified", "failed"] },
+      proof: {
+        oneOf: [
+          proofWithUrl("well_known"),
+          proofWithUrl("github_readme"),
+          proofWithUrl("profile_page"),
+          proofWithUrl("rel_me"),
+          proofWithUrl("meta_tag"),
+          proofWithUrl("x_profile", { username: { type: "string" } }),
+          {
+            type: "object",
+            properties: { kind: { const: "dns_txt" }, qname: { type: "string" }, expectedToken: { type: "string" } },
+            required: ["kind", "qname", "expectedToken"],
+          },
+        ],
+      },
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      lastCheckedAt: dateTime,
+      verifiedAt: dateTime,
+      failReason: { type: "string" },
+    },
+    required: ["id", "type", "url", "status", "proof", "createdAt", "updatedAt"],
+  };
+}
+
+function claimsResponseSchema(): Record<string, unknown> {
+  return {
+    $schema: SCHEMA_DIALECT,
+    $id: schemaUrl("claims-response"),
+    title: "AnchorID claims ledger",
+    description: "The JSON body of GET /claims/<uuid>.",
+    type: "object",
+    properties: {
+      uuid: { type: "string" },
+      claims: { type: "array", items: { $ref: schemaUrl("claim") } },
+      dateModified: { oneOf: [dateTime, { type: "null" }], description: "Latest claim change; null while the ledger is empty" },
+      proof: { type: "object", description: "Embedded signature, present with ?proof=1" },
+    },
+    required: ["uuid", "claims", "dateModified"],
+  };
+}
+
+/** The schema published under `name`, or null for an unknown name. */
+export function jsonSchema(name: string): Record<string, unknown> | null {
+  switch (name) {
+    case "anchor-profile":
+      return anchorProfileSchema();
+    case "profile-input":
+      return profileInputSchema();
+    case "claim":
+      return claimSchema();
+    case "claims-response":
+      return claimsResponseSchema();
+    default:
+      return null;
+  }
+}
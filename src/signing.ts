@@ -0,0 +1,331 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * Ed25519 signatures over /resolve and /claims JSON bodies.
+ *
+ * What is signed: the RFC 8785 (JCS) canonical form of the JSON body, with
+ * any embedded "proof" member removed. Pretty-printing, key order and the
+ * proof itself therefore never affect verification.
+ *
+ * How it is delivered:
+ *   - always, as a detached compact JWS (RFC 7515 Appendix F,
+ *     "<header>..<signature>") in the X-AnchorID-Signature response header;
+ *   - on request (?proof=1), also embedded in the body as "proof".
+ *
+ * Keys: SIGNING_KEY holds the current private key as an Ed25519 JWK.
+ * SIGNING_KEYS_RETIRED holds public JWKs of earlier keys, which stay in
+ * /.well-known/jwks.json so mirrored copies signed before a rotation still
+ * verify. Key ids are RFC 7638 thumbprints, so a kid can never be reused for
+ * different key material. Without SIGNING_KEY responses are simply unsigned.
+ *
+ * The verify* functions use only WebCrypto and have no Worker dependencies:
+ * a mirror can import this file (or copy it) and check records offline
+ * against a saved copy of the JWKS.
+ */
+
+import type { Env } from "./env";
+
+export const SIGNATURE_HEADER = "x-anchorid-signature";
+export const JWKS_URL = "https://anchorid.net/.well-known/jwks.json";
+
+const ED25519 = { name: "Ed25519" } as const;
+
+export interface PublicJwk {
+  kty: "OKP";
+  crv: "Ed25519";
+  x: string;
+  kid: string;
+  alg: "EdDSA";
+  use: "sig";
+}
+
+export interface Jwks {
+  keys: PublicJwk[];
+}
+
+export interface EmbeddedProof {
+  type: "AnchorIDSignature";
+  verificationMethod: string; // JWKS_URL#<kid>
+  jws: string; // detached compact JWS, same value as the header
+}
+
+// ------------------------------------------------------------------
+// Encoding
+// ------------------------------------------------------------------
+
+/**
+ * RFC 8785 canonical JSON: object keys sorted by UTF-16 code units, no
+ * whitespace, ECMAScript string and number serialization. Members whose
+ * value is undefined are dropped, as JSON.stringify would.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    const s = JSON.stringify(value);
+    return s === undefined ? "null" : s;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => (v === undefined ? "null" : canonicalJson(v))).join(",")}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  const members = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`);
+  return `{${members.join(",")}}`;
+}
+
+export function b64url(bytes: Uint8Array): string {
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function fromB64url(s: string): Uint8Array {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+const utf8 = (s: string) => new TextEncoder().encode(s);
+
+/** The signed value: the body minus its embedded proof. */
+function signedPayload(doc: unknown): Uint8Array {
+  if (doc && typeof doc === "object" && !Array.isArray(doc) && "proof" in doc) {
+    const { proof: _proof, ...rest } = doc as Record<string, unknown>;
+    return utf8(canonicalJson(rest));
+  }
+  return utf8(canonicalJson(doc));
+}
+
+/** RFC 7638 thumbprint of an Ed25519 public key. */
+export async function jwkThumbprint(x: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", utf8(canonicalJson({ crv: "Ed25519", kty: "OKP", x })));
+  return b64url(new Uint8Array(digest));
+}
+
+function isEd25519Jwk(v: any): v is { kty: "OKP"; crv: "Ed25519"; x: string; d?: string } {
+  return !!v && v.kty === "OKP" && v.crv === "Ed25519" && typeof v.x === "string" && v.x.length > 0;
+}
+
+// ------------------------------------------------------------------
+// Keys (Worker side)
+// ------------------------------------------------------------------
+
+interface SigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: PublicJwk;
+}
+
+// Importing is cheap but not free; keep the key for the isolate's lifetime.
+// Keyed by the secret so a rotated deployment never signs with a stale key.
+let cachedKey: { secret: string; key: SigningKey | null } | null = null;
+
+async function toPublicJwk(x: string): Promise<PublicJwk> {
+  return { kty: "OKP", crv: "Ed25519", x, kid: await jwkThumbprint(x), alg: "EdDSA", use: "sig" };
+}
+
+async function loadSigningKey(env: Env): Promise<SigningKey | null> {
+  const secret = env.SIGNING_KEY?.trim();
+  if (!secret) return null;
+  if (cachedKey && cachedKey.secret === secret) return cachedKey.key;
+
+  let key: SigningKey | null = null;
+  try {
+    const jwk = JSON.parse(secret);
+    if (!isEd25519Jwk(jwk) || typeof jwk.d !== "string") throw new Error("not an Ed25519 private JWK");
+    // Only the key material: exported JWKs carry alg/key_ops values that
+    // some runtimes reject on import.
+    const privateKey = await crypto.subtle.importKey(
+      "jwk",
+      { kty: "OKP", crv: "Ed25519", x: jwk.x, d: jwk.d },
+      ED25519,
+      false,
+      ["sign"]
+    );
+    const publicJwk = await toPublicJwk(jwk.x);
+    key = { kid: publicJwk.kid, privateKey, publicJwk };
+  } catch (e: any) {
+    // A bad secret must not take reads down; serve unsigned and say why.
+    console.error("SIGNING_KEY unusable, responses will be unsigned:", e?.message || String(e));
+  }
+
+  cachedKey = { secret, key };
+  return key;
+}
+
+function parseRetiredKeys(raw: string | undefined): string[] {
+  if (!raw?.trim()) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.keys) ? parsed.keys : [parsed];
+    return list.filter(isEd25519Jwk).map((k: { x: string }) => k.x);
+  } catch {
+    console.error("SIGNING_KEYS_RETIRED is not valid JSON; publishing the current key only");
+    return [];
+  }
+}
+
+/** Public keys for /.well-known/jwks.json: current key first, then retired ones. */
+export async function publicJwks(env: Env): Promise<Jwks> {
+  const current = await loadSigningKey(env);
+  const keys: PublicJwk[] = current ? [current.publicJwk] : [];
+  for (const x of parseRetiredKeys(env.SIGNING_KEYS_RETIRED)) {
+    if (keys.some((k) => k.x === x)) continue;
+    keys.push(await toPublicJwk(x));
+  }
+  return { keys };
+}
+
+// ------------------------------------------------------------------
+// Signing
+// ------------------------------------------------------------------
+
+/** Detached compact JWS over a JSON document, or null when signing is off. */
+export async function signJson(env: Env, doc: unknown): Promise<string | null> {
+  const key = await loadSigningKey(env);
+  if (!key) return null;
+
+  const header = b64url(utf8(JSON.stringify({ alg: "EdDSA", kid: key.kid })));
+  const payload = b64url(signedPayload(doc));
+  const sig = await crypto.subtle.sign(ED25519, key.privateKey, utf8(`${header}.${payload}`));
+  return `${header}..${b64url(new Uint8Array(sig))}`;
+}
+
+/**
+ * Compact JWS with the payload attached (a JWT), or null when signing is
+ * off. Unlike signJson the payload is the exact JSON.stringify output, not
+ * the canonical form: the token carries its own bytes.
+ */
+export async function signCompactJws(env: Env, payload: unknown, typ: string): Promise<string | null> {
+  const key = await loadSigningKey(env);
+  if (!key) return null;
+
+  const header = b64url(utf8(JSON.stringify({ alg: "EdDSA", kid: key.kid, typ })));
+  const body = b64url(utf8(JSON.stringify(payload)));
+  const sig = await crypto.subtle.sign(ED25519, key.privateKey, utf8(`${header}.${body}`));
+  return `${header}.${body}.${b64url(new Uint8Array(sig))}`;
+}
+
+/** True when the request asked for the signature inside the body (?proof=1). */
+export function wantsEmbeddedProof(request: Request): boolean {
+  const v = new URL(request.url).searchParams.get("proof");
+  return v === "1" || v === "true";
+}
+
+/**
+ * Pretty-printed JSON body for `doc` plus the signature header. With
+ * `embedProof` the signature is also added to the body as "proof".
+ */
+export async function signedJsonBody(
+  env: Env,
+  doc: Record<string, unknown>,
+  embedProof: boolean
+): Promise<{ body: string; headers: Record<string, string> }> {
+  const jws = await signJson(env, doc);
+  if (!jws) return { body: JSON.stringify(doc, null, 2), headers: {} };
+
+  const out = embedProof ? { ...doc, proof: embeddedProof(jws) } : doc;
+  return { body: JSON.stringify(out, null, 2), headers: { [SIGNATURE_HEADER]: jws } };
+}
+
+function embeddedProof(jws: string): EmbeddedProof {
+  const { kid } = JSON.parse(new TextDecoder().decode(fromB64url(jws.split(".")[0])));
+  return { type: "AnchorIDSignature", verificationMethod: `${JWKS_URL}#${kid}`, jws };
+}
+
+// ------------------------------------------------------------------
+// Verification (usable offline)
+// ------------------------------------------------------------------
+
+async function verifyingKey(
+  header: any,
+  jwks: { keys: Array<Record<string, unknown>> }
+): Promise<CryptoKey | null> {
+  if (header?.alg !== "EdDSA" || typeof header.kid !== "string" || header.crit !== undefined) return null;
+
+  const jwk = jwks.keys.find((k) => k.kid === header.kid);
+  if (!isEd25519Jwk(jwk)) return null;
+  // The kid is a thumbprint: refuse a set that pairs it with other material.
+  if ((await jwkThumbprint(jwk.x)) !== header.kid) return null;
+
+  return crypto.subtle.importKey("jwk", { kty: "OKP", crv: "Ed25519", x: jwk.x }, ED25519, false, ["verify"]);
+}
+
+/**
+ * Verify a detached JWS (from the X-AnchorID-Signature header or an embedded
+ * proof) against a parsed JSON document and a JWK set. Any embedded "proof"
+ * member of `doc` is ignored, so the body can be passed as received.
+ *
+ * Returns false — never throws — for malformed signatures, unknown key ids,
+ * unsupported algorithms and altered documents.
+ */
+export async function verifyDetachedJws(
+  doc: unknown,
+  jws: string,
+  jwks: { keys: Array<Record<string, unknown>> }
+): Promise<boolean> {
+  try {
+    const parts = jws.split(".");
+    if (parts.length !== 3 || parts[1] !== "") return false;
+    const [headerB64, , sigB64] = parts;
+
+    const header = JSON.parse(new TextDecoder().decode(fromB64url(headerB64)));
+    const publicKey = await verifyingKey(header, jwks);
+    if (!publicKey) return false;
+
+    const signingInput = utf8(`${headerB64}.${b64url(signedPayload(doc))}`);
+    return await crypto.subtle.verify(ED25519, publicKey, fromB64url(sigB64), signingInput);
+  } catch {
+    return false;
+  }
+}
+
+/** Verify a document carrying an embedded "proof" (fetched with ?proof=1). */
+export async function verifyEmbeddedProof(
+  doc: Record<string, unknown>,
+  jwks: { keys: Array<Record<string, unknown>> }
+): Promise<boolean> {
+  const proof = doc.proof as Partial<EmbeddedProof> | undefined;
+  if (!proof || proof.type !== "AnchorIDSignature" || typeof proof.jws !== "string") return false;
+  return verifyDetachedJws(doc, proof.jws, jwks);
+}
+
+/**
+ * Verify a compact JWS with an attached payload (a credential or status list
+ * JWT from signCompactJws) and return its decoded payload, or null.
+ */
+export async function verifyCompactJws(
+  jws: string,
+  jwks: { keys: Array<Record<string, unknown>> }
+): Promise<{ header: Record<string, unknown>; payload: any } | null> {
+  try {
+    const parts = jws.split(".");
+    if (parts.length !== 3 || !parts[1]) return null;
+    const [headerB64, payloadB64, sigB64] = parts;
+
+    const header = JSON.parse(new TextDecoder().decode(fromB64url(headerB64)));
+    const publicKey = await verifyingKey(header, jwks);
+    if (!publicKey) return null;
+
+    const ok = await crypto.subtle.verify(ED25519, publicKey, fromB64url(sigB64), utf8(`${headerB64}.${payloadB64}`));
+    if (!ok) return null;
+    return { header, payload: JSON.parse(new TextDecoder().decode(fromB64url(payloadB64))) };
+  } catch {
+    return null;
+  }
+}
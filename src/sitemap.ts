@@ -0,0 +1,160 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Sitemaps: /sitemap.xml and its children.
+ *
+ *   /sitemap.xml              sitemap index
+ *   /sitemap-pages.xml        static content pages (the page:sitemap blob)
+ *   /sitemap-profiles-<n>.xml /resolve and /claims of email-verified profiles
+ *
+ * Enumerating profiles means reading every one of them, so it runs in the
+ * daily cron, not per request. rebuildSitemap() stores the listed profiles
+ * in pages that fit the protocol's 50,000-URL limit (two URLs per profile):
+ *
+ *   sitemap:index         → SitemapIndex
+ *   sitemap:profiles:<n>  → SitemapEntry[] (n from 1)
+ *
+ * Profiles are ordered by creation, so new ones land on the last page and
+ * the earlier pages rarely change. Superseded profiles are left out: their
+ * HTML view redirects to the successor, which is listed itself.
+ */
+
+import type { Env } from "./env";
+import { securityHeaders } from "./http";
+import { scanProfiles, type ScannedProfile } from "./cron";
+
+export interface SitemapEntry {
+  uuid: string;
+  lastmod: string; // the profile's dateModified
+}
+
+export interface SitemapIndex {
+  generatedAt: string;
+  profiles: number;
+  /** Latest lastmod on each profile page, in page order. */
+  pages: string[];
+}
+
+/** Sitemaps protocol limit per file. */
+export const SITEMAP_MAX_URLS = 50000;
+const URLS_PER_PROFILE = 2;
+const PROFILES_PER_PAGE = SITEMAP_MAX_URLS / URLS_PER_PROFILE;
+
+const SITEMAP_INDEX_KEY = "sitemap:index";
+
+export function sitemapPageKey(n: number): string {
+  return `sitemap:profiles:${n}`;
+}
+
+function xmlEscape(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Rewrite the stored sitemap pages from the profiles (the cron's scan; read
+ * here when not given).
+ */
+export async function rebuildSitemap(env: Env, profiles?: ScannedProfile[]): Promise<SitemapIndex> {
+  const listed: Array<SitemapEntry & { created: string }> = [];
+
+  for (const { uuid, stored, superseded } of profiles ?? (await scanProfiles(env))) {
+    if (superseded) continue;
+    // Unverified signups are purged after five days; do not advertise them.
+    if (!stored._emailVerified) continue;
+    listed.push({ uuid, lastmod: String(stored.dateModified || ""), created: String(stored.dateCreated || "") });
+  }
+  listed.sort((a, b) => a.created.localeCompare(b.created) || a.uuid.localeCompare(b.uuid));
+
+  const previous = (await env.ANCHOR_KV.get(SITEMAP_INDEX_KEY, { type: "json" })) as SitemapIndex | null;
+  const pages: string[] = [];
+  for (let i = 0; i < listed.length; i += PROFILES_PER_PAGE) {
+    const entries = listed.slice(i, i + PROFILES_PER_PAGE).map(({ uuid, lastmod }) => ({ uuid, lastmod }));
+    await env.ANCHOR_KV.put(sitemapPageKey(pages.length + 1), JSON.stringify(entries));
+    pages.push(entries.reduce((max, e) => (e.lastmod > max ? e.lastmod : max), ""));
+  }
+
+  const index: SitemapIndex = { generatedAt: new Date().toISOString(), profiles: listed.length, pages };
+  await env.ANCHOR_KV.put(SITEMAP_INDEX_KEY, JSON.stringify(index));
+  // Index first, so no live index names a page deleted here.
+  for (let n = pages.length + 1; n <= (previous?.pages.length ?? 0); n++) {
+    await env.ANCHOR_KV.delete(sitemapPageKey(n));
+  }
+  return index;
+}
+
+export function renderSitemapIndex(index: SitemapIndex | null): string {
+  const children = [
+    `  <sitemap>\n    <loc>https://anchorid.net/sitemap-pages.xml</loc>\n  </sitemap>`,
+    ...(index?.pages ?? []).map(
+      (lastmod, i) =>
+        `  <sitemap>\n    <loc>https://anchorid.net/sitemap-profiles-${i + 1}.xml</loc>${lastmod ? `\n    <lastmod>${xmlEscape(lastmod)}</lastmod>` : ""}\n  </sitemap>`
+    ),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${children.join("\n")}
+</sitemapindex>
+`;
+}
+
+export function renderProfileSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.flatMap(({ uuid, lastmod }) =>
+    [`https://anchorid.net/resolve/${uuid}`, `https://anchorid.net/claims/${uuid}`].map(
+      (loc) => `  <url>\n    <loc>${loc}</loc>${lastmod ? `\n    <lastmod>${xmlEscape(lastmod)}</lastmod>` : ""}\n  </url>`
+    )
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join("\n")}
+</urlset>
+`;
+}
+
+function xmlResponse(xml: string): Response {
+  return new Response(xml, {
+    headers: {
+      "content-type": "application/xml; charset=utf-8",
+      "cache-control": "public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800",
+      ...securityHeaders(),
+    },
+  });
+}
+
+/** GET /sitemap.xml. Lists only the pages sitemap until the cron has run once. */
+export async function handleSitemapIndex(env: Env): Promise<Response> {
+  const index = (await env.ANCHOR_KV.get(SITEMAP_INDEX_KEY, { type: "json" })) as SitemapIndex | null;
+  return xmlResponse(renderSitemapIndex(index));
+}
+
+/** GET /sitemap-pages.xml */
+export async function handlePagesSitemap(env: Env): Promise<Response> {
+  const xml = await env.ANCHOR_KV.get("page:sitemap");
+  if (!xml) {
+    return new Response("Sitemap not found", { status: 404 });
+  }
+  return xmlResponse(xml);
+}
+
+/** GET /sitemap-profiles-<n>.xml */
+export async function handleProfileSitemap(env: Env, n: number): Promise<Response> {
+  const entries = (await env.ANCHOR_KV.get(sitemapPageKey(n), { type: "json" })) as SitemapEntry[] | null;
+  if (!entries) {
+    return new Response("Sitemap not found", { status: 404 });
+  }
+  return xmlResponse(renderProfileSitemap(entries));
+}
@@ -0,0 +1,74 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+
+/**
+ * Identity succession: one AnchorID declared replaced by another.
+ *
+ * People who signed up twice (one UUID per email) cannot delete the older
+ * UUID once it is past the deletion window, and should not: others may
+ * already cite it. Instead its owner, proving control of both UUIDs, marks
+ * it superseded:
+ *
+ *   succession:<uuid> → Succession
+ *
+ * From then on /resolve/<uuid> serves a minimal record — type, identifier
+ * and a schema.org `supersededBy` pointer — instead of the stored profile,
+ * and HTML clients are redirected to the successor. The UUID stays
+ * resolvable forever, its claims ledger and history stay readable, and the
+ * stored profile is kept as it was. There is no undo through the API.
+ */
+
+import type { Env } from "./env";
+import type { ResolvedProfile } from "./resolve";
+import { buildIdentifier } from "./domain/profile";
+
+export interface Succession {
+  supersededBy: string; // uuid of the successor
+  at: string; // ISO 8601
+}
+
+export function successionKey(uuid: string): string {
+  return `succession:${uuid.toLowerCase()}`;
+}
+
+export async function loadSuccession(env: Env, uuid: string): Promise<Succession | null> {
+  const raw = (await env.ANCHOR_KV.get(successionKey(uuid), { type: "json" })) as Succession | null;
+  return raw && typeof raw.supersededBy === "string" ? raw : null;
+}
+
+export async function saveSuccession(env: Env, uuid: string, successor: string): Promise<Succession> {
+  const succession: Succession = { supersededBy: successor.toLowerCase(), at: new Date().toISOString() };
+  await env.ANCHOR_KV.put(successionKey(uuid), JSON.stringify(succession));
+  return succession;
+}
+
+/**
+ * What /resolve publishes for a superseded UUID. Only what identifies it is
+ * kept; everything else is now the successor's to say.
+ */
+export function supersededRecord(u: string, profile: any, succession: Succession): ResolvedProfile {
+  const record: Record<string, any> = {
+    "@context": "https://schema.org",
+    "@type": profile?.["@type"] === "Organization" ? "Organization" : "Person",
+    "@id": `https://anchorid.net/resolve/${u}`,
+    identifier: buildIdentifier(u),
+    supersededBy: { "@id": `https://anchorid.net/resolve/${succession.supersededBy}` },
+  };
+  if (typeof profile?.dateCreated === "string") record.dateCreated = profile.dateCreated;
+  record.dateModified = succession.at;
+  return { record, verifiedUrls: [], lastModified: succession.at };
+}
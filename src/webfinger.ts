@@ -0,0 +1,106 @@
+/**
+ * AnchorID - Permanent Attribution Anchor Service
+ *
+ * Copyright (c) 2025-2026 Mike Johnson (Mycal) / AnchorID
+ *
+ * Author:       https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c
+ * Organization: https://anchorid.net/resolve/4c785577-9f55-4a22-a80b-dd1f4d9b4658
+ * Repository:   https://github.com/lowerpower/anchorid
+ *
+ * SPDX-License-Identifier: MIT
+ * See LICENSE file for full terms.
+ *
+ * AnchorID provides UUID-based permanent attribution anchors for the AI era.
+ * Part of the Mycal Labs infrastructure preservation project.
+ */
+
+/**
+ * WebFinger (RFC 7033) for AnchorIDs: /.well-known/webfinger?resource=…
+ *
+ * Accepted resource forms, all naming the same identity:
+ *   urn:uuid:<uuid>
+ *   https://anchorid.net/resolve/<uuid>   (canonical)
+ *   https://anchorid.net/<uuid>           (short form)
+ *   acct:<uuid>@anchorid.net
+ *   did:web:anchorid.net:id:<uuid>
+ *
+ * Only *verified* sameAs URLs become rel="me" links. A manual sameAs entry
+ * is self-asserted; publishing it as rel="me" would let anyone claim any
+ * account to IndieWeb tools that treat rel="me" as bidirectional proof.
+ */
+
+import { canonicalizeUrl } from "./domain/profile";
+import { didForUuid } from "./did";
+import type { ResolvedProfile } from "./resolve";
+
+export const JRD_MEDIA_TYPE = "application/jrd+json";
+
+/** Link relation for the claims ledger (no registered equivalent exists). */
+export const CLAIMS_REL = "https://anchorid.net/rel/claims";
+
+const UUID = "[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}";
+
+const RESOURCE_PATTERNS = [
+  new RegExp(`^urn:uuid:(${UUID})$`, "i"),
+  new RegExp(`^https://anchorid\\.net/resolve/(${UUID})$`, "i"),
+  new RegExp(`^https://anchorid\\.net/(${UUID})$`, "i"),
+  new RegExp(`^acct:(${UUID})@anchorid\\.net$`, "i"),
+  new RegExp(`^did:web:anchorid\\.net:id:(${UUID})$`, "i"),
+];
+
+/** UUID named by a WebFinger resource, or null if it is not one of ours. */
+export function uuidFromWebfingerResource(resource: string): string | null {
+  const r = resource.trim();
+  for (const re of RESOURCE_PATTERNS) {
+    const m = re.exec(r);
+    if (m) return m[1].toLowerCase();
+  }
+  return null;
+}
+
+interface JrdLink {
+  rel: string;
+  type?: string;
+  href: string;
+}
+
+/**
+ * Build the JRD. `subject` echoes the resource as requested (RFC 7033
+ * §4.4.1); the other accepted forms are listed as aliases. `rels`, when
+ * non-empty, restricts the links array (§4.3).
+ */
+export function buildJrd(
+  resource: string,
+  uuid: string,
+  resolved: ResolvedProfile,
+  rels: string[]
+): Record<string, unknown> {
+  const resolveUrl = `https://anchorid.net/resolve/${uuid}`;
+
+  const verified = new Set(resolved.verifiedUrls.map((u) => canonicalizeUrl(u)).filter(Boolean));
+  const sameAs: string[] = Array.isArray(resolved.record.sameAs) ? resolved.record.sameAs : [];
+  const meLinks: JrdLink[] = sameAs
+    .filter((u) => verified.has(canonicalizeUrl(u)))
+    .map((href) => ({ rel: "me", href }));
+
+  const links: JrdLink[] = [
+    { rel: "self", type: "application/ld+json", href: resolveUrl },
+    { rel: "http://webfinger.net/rel/profile-page", type: "text/html", href: resolveUrl },
+    { rel: CLAIMS_REL, type: "application/json", href: `https://anchorid.net/claims/${uuid}` },
+    ...meLinks,
+  ];
+
+  const aliases = [
+    resolveUrl,
+    `https://anchorid.net/${uuid}`,
+    `urn:uuid:${uuid}`,
+    `acct:${uuid}@anchorid.net`,
+    didForUuid(uuid),
+  ].filter((a) => a !== resource.trim());
+
+  return {
+    subject: resource.trim(),
+    aliases,
+    links: rels.length ? links.filter((l) => rels.includes(l.rel)) : links,
+  };
+}
@@ -12,13 +12,23 @@ import {
   setKV,
 } from './helpers';
 
-import { canonicalizeUrl, buildProfile } from '../src/domain/profile';
-import { validateProfileUrl, parseGitHubProfile, stripQueryAndFragment, profilePageHasUuidMarker, urlReflectsProofUuid, parseXProfile, claimIdForX, buildXProof, extractXProofCandidates, xCandidatesProveClaim } from '../src/claims/verify';
+import { canonicalizeUrl, buildProfile, validateProfileInput, canonicalLanguageTag } from '../src/domain/profile';
+import { validateProfileUrl, parseGitHubProfile, stripQueryAndFragment, profilePageHasUuidMarker, urlReflectsProofUuid, parseXProfile, claimIdForX, buildXProof, extractXProofCandidates, xCandidatesProveClaim, extractRelMeLinks, relMeLinksProveClaim, extractAnchorIdMetaValues, metaValuesProveClaim } from '../src/claims/verify';
+import { parseBadgeOptions, renderBadgeSvg } from '../src/badge';
+import { encodeQr, formatBits, versionBits, reedSolomonRemainder, parseQrOptions } from '../src/qr';
+import { verifiedSummary, socialMetaTags } from '../src/og';
+import { profileFieldChanges } from '../src/events';
+import { parseSince, readChanges } from '../src/changes';
+import { rebuildSitemap } from '../src/sitemap';
+import worker from '../src/index';
+import { reconcileRelations } from '../src/cron';
 import { claimsKey, upsertClaim } from '../src/claims/store';
+import { reconcileCredentialStatus, MAX_STATUS_INDEXES } from '../src/claims/credentials';
 import { xClaimOptionHtml } from '../src/claims/handlers';
 import { clampKvTtl, kvTtlFromEnv, intFromEnv } from '../src/env';
 import { emailIndexHash, legacyEmailHash, lookupEmailUuid, emailPointerKey, deletedTombstoneKey } from '../src/email-index';
 import { STATIC_PAGE_SCRIPT_HASH } from '../src/http';
+import { canonicalJson, verifyDetachedJws, verifyEmbeddedProof, verifyCompactJws } from '../src/signing';
 
 import aboutHtml from '../src/content/about.html';
 import guideHtml from '../src/content/guide.html';
@@ -1411,3 +1421,2101 @@ describe('Legacy x.com public claims upgrade on verify', () => {
     await clearAllTestData();
   });
 });
+
+describe('Resolve content negotiation', () => {
+  async function resolveAs(uuid: string, accept: string | null, ip: string, path = `/resolve/${uuid}`) {
+    const headers: Record<string, string> = {};
+    if (accept !== null) headers['Accept'] = accept;
+    return SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { headers, ip }));
+  }
+
+  async function seed(): Promise<string> {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Ada "Quoted" Lovelace' });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.url = 'https://ada.example';
+    profile.sameAs = ['https://github.com/ada'];
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    return uuid;
+  }
+
+  it('keeps JSON-LD as the default and marks every variant with Vary: Accept', async () => {
+    const uuid = await seed();
+    const bare = await resolveAs(uuid, null, '198.51.100.100');
+    expect(bare.status).toBe(200);
+    expect(bare.headers.get('content-type')).toContain('application/ld+json');
+    expect(bare.headers.get('vary')).toBe('Accept');
+
+    // A client that only sends */* still gets JSON-LD.
+    const any = await resolveAs(uuid, '*/*', '198.51.100.100');
+    expect(any.headers.get('content-type')).toContain('application/ld+json');
+    await clearAllTestData();
+  });
+
+  it('emits N-Triples from the same record', async () => {
+    const uuid = await seed();
+    const res = await resolveAs(uuid, 'application/n-triples', '198.51.100.101');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/n-triples');
+    const nt = await res.text();
+    const id = `<https://anchorid.net/resolve/${uuid}>`;
+    expect(nt).toContain(`${id} <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://schema.org/Person> .`);
+    expect(nt).toContain(`${id} <http://schema.org/name> "Ada \\"Quoted\\" Lovelace" .`);
+    expect(nt).toContain(`${id} <http://schema.org/url> <https://ada.example> .`);
+    expect(nt).toContain(`${id} <http://schema.org/sameAs> <https://github.com/ada> .`);
+    expect(nt).toMatch(/<http:\/\/schema\.org\/dateCreated> "[^"]+"\^\^<http:\/\/www\.w3\.org\/2001\/XMLSchema#dateTime> \./);
+    // The identifier PropertyValue has no @id, so it is a blank node.
+    expect(nt).toMatch(new RegExp(`${id.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')} <http://schema.org/identifier> _:b\\d+ \\.`));
+    // Every line is a complete triple.
+    for (const line of nt.trim().split('\n')) expect(line.endsWith(' .')).toBe(true);
+    await clearAllTestData();
+  });
+
+  it('emits Turtle and RDF/XML, honoring q-values', async () => {
+    const uuid = await seed();
+    const ttl = await resolveAs(uuid, 'application/ld+json;q=0.5, text/turtle', '198.51.100.102');
+    expect(ttl.headers.get('content-type')).toContain('text/turtle');
+    const body = await ttl.text();
+    expect(body).toContain('@prefix schema: <http://schema.org/> .');
+    expect(body).toContain(`<https://anchorid.net/resolve/${uuid}>\n    a schema:Person`);
+
+    const xml = await resolveAs(uuid, 'application/rdf+xml', '198.51.100.102');
+    expect(xml.headers.get('content-type')).toContain('application/rdf+xml');
+    const doc = await xml.text();
+    expect(doc).toContain(`<rdf:Description rdf:about="https://anchorid.net/resolve/${uuid}">`);
+    expect(doc).toContain('<schema:name>Ada &quot;Quoted&quot; Lovelace</schema:name>');
+    expect(doc).toContain('<schema:sameAs rdf:resource="https://github.com/ada"/>');
+    await clearAllTestData();
+  });
+
+  it('negotiates on the short /<uuid> form too', async () => {
+    const uuid = await seed();
+    const res = await resolveAs(uuid, 'text/turtle', '198.51.100.103', `/${uuid}`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/turtle');
+    await clearAllTestData();
+  });
+
+  it('returns 406 for a type it cannot produce', async () => {
+    const uuid = await seed();
+    const res = await resolveAs(uuid, 'application/pdf', '198.51.100.104');
+    expect(res.status).toBe(406);
+    expect(res.headers.get('vary')).toBe('Accept');
+    const body = await res.json() as any;
+    expect(body.error).toBe('not_acceptable');
+    expect(body.supported).toContain('text/turtle');
+
+    // q=0 excludes a type outright.
+    const excluded = await resolveAs(uuid, 'application/ld+json;q=0, application/json;q=0', '198.51.100.104');
+    expect(excluded.status).toBe(406);
+    await clearAllTestData();
+  });
+});
+
+describe('Resolve HTML view', () => {
+  const BROWSER_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+
+  async function resolveHtml(uuid: string, ip: string): Promise<Response> {
+    return SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, {
+      headers: { 'Accept': BROWSER_ACCEPT },
+      ip,
+    }));
+  }
+
+  it('renders a page for browsers, with the canonical record as a JSON-LD block', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Grace </script><b>Hopper</b>' });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.description = 'Rear admiral & compiler pioneer';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+
+    const res = await resolveHtml(uuid, '198.51.100.110');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/html');
+    expect(res.headers.get('vary')).toBe('Accept');
+    expect(res.headers.get('content-security-policy')).toContain("script-src 'none'");
+
+    const html = await res.text();
+    expect(html).toContain('<span class="badge type">Person</span>');
+    expect(html).toContain('Grace &lt;/script&gt;&lt;b&gt;Hopper&lt;/b&gt;');
+    expect(html).toContain('Rear admiral &amp; compiler pioneer');
+    expect(html).toContain(`href="https://anchorid.net/claims/${uuid}"`);
+
+    // The embedded record parses back to exactly what JSON-LD clients get,
+    // and the hostile name cannot terminate the data block early.
+    const block = /<script type="application\/ld\+json">([\s\S]*?)<\/script>/.exec(html);
+    expect(block).not.toBeNull();
+    expect(block![1]).not.toContain('<');
+    const embedded = JSON.parse(block![1]);
+    const ld = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip: '198.51.100.110' }))).json() as any;
+    expect(embedded).toEqual(ld);
+    await clearAllTestData();
+  });
+
+  it('marks verified and manual sameAs entries separately', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.sameAs = ['https://manual.example'];
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'github:ada',
+      type: 'github',
+      url: 'https://github.com/ada',
+      status: 'verified',
+      proof: { kind: 'github_readme', username: 'ada', url: 'https://raw.githubusercontent.com/ada/ada/main/README.md', mustContain: uuid },
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }]));
+
+    const html = await (await resolveHtml(uuid, '198.51.100.111')).text();
+    expect(html).toMatch(/href="https:\/\/github\.com\/ada"[^>]*>[^<]*<\/a> <span class="badge verified">/);
+    expect(html).toMatch(/href="https:\/\/manual\.example"[^>]*>[^<]*<\/a> <span class="badge manual">/);
+    await clearAllTestData();
+  });
+
+  it('resolves founder references to their names, falling back to the UUID', async () => {
+    await clearAllTestData();
+    const { uuid: founder } = await createMockProfile({ name: 'Ada Lovelace' });
+    const missing = crypto.randomUUID();
+    const { uuid: org } = await createMockProfile({ type: 'Organization', name: 'Analytical Engines' });
+    const profile = await getKVJson(`profile:${org}`);
+    profile.founder = [
+      { '@id': `https://anchorid.net/resolve/${founder}` },
+      { '@id': `https://anchorid.net/resolve/${missing}` },
+    ];
+    await setKV(`profile:${org}`, JSON.stringify(profile));
+
+    const html = await (await resolveHtml(org, '198.51.100.112')).text();
+    expect(html).toContain('<span class="badge type">Organization</span>');
+    expect(html).toContain(`<a href="https://anchorid.net/resolve/${founder}">Ada Lovelace</a>`);
+    expect(html).toContain(`<a href="https://anchorid.net/resolve/${missing}">${missing}</a>`);
+    await clearAllTestData();
+  });
+});
+
+describe('Conditional GET on /resolve and /claims', () => {
+  function get(path: string, ip: string, headers: Record<string, string> = {}) {
+    return SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { ip, headers }));
+  }
+
+  it('returns a stable ETag and Last-Modified from the stored dateModified', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Etag Person' });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.dateModified = '2026-01-02T03:04:05Z';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+
+    const a = await get(`/resolve/${uuid}`, '198.51.100.120');
+    const b = await get(`/resolve/${uuid}`, '198.51.100.120');
+    expect(a.headers.get('etag')).toMatch(/^"[0-9a-f]{32}"$/);
+    expect(a.headers.get('etag')).toBe(b.headers.get('etag'));
+    expect(a.headers.get('last-modified')).toBe('Fri, 02 Jan 2026 03:04:05 GMT');
+
+    // Each representation has its own validator.
+    const ttl = await get(`/resolve/${uuid}`, '198.51.100.120', { 'Accept': 'text/turtle' });
+    expect(ttl.headers.get('etag')).not.toBe(a.headers.get('etag'));
+    await clearAllTestData();
+  });
+
+  it('answers If-None-Match and If-Modified-Since with 304', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.dateModified = '2026-01-02T03:04:05Z';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+
+    const first = await get(`/resolve/${uuid}`, '198.51.100.121');
+    const etag = first.headers.get('etag')!;
+
+    const inm = await get(`/resolve/${uuid}`, '198.51.100.121', { 'If-None-Match': `"nope", W/${etag}` });
+    expect(inm.status).toBe(304);
+    expect(inm.headers.get('etag')).toBe(etag);
+    expect(inm.headers.get('vary')).toBe('Accept');
+    expect(await inm.text()).toBe('');
+
+    const ims = await get(`/resolve/${uuid}`, '198.51.100.121', { 'If-Modified-Since': 'Fri, 02 Jan 2026 03:04:05 GMT' });
+    expect(ims.status).toBe(304);
+
+    // If-None-Match takes precedence: a stale tag means a full response even
+    // when the date alone would have matched.
+    const both = await get(`/resolve/${uuid}`, '198.51.100.121', {
+      'If-None-Match': '"stale"',
+      'If-Modified-Since': 'Fri, 02 Jan 2026 03:04:05 GMT',
+    });
+    expect(both.status).toBe(200);
+    await clearAllTestData();
+  });
+
+  it('moves Last-Modified when a claim changes, even if the profile did not', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.dateModified = '2026-01-02T03:04:05Z';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'website:example.com', type: 'website', url: 'https://example.com', status: 'verified',
+      proof: { kind: 'well_known', url: 'https://example.com/.well-known/anchorid.txt', mustContain: uuid },
+      createdAt: '2026-03-01T00:00:00Z', updatedAt: '2026-03-04T05:06:07Z',
+    }]));
+
+    const res = await get(`/resolve/${uuid}`, '198.51.100.122');
+    expect(res.headers.get('last-modified')).toBe('Wed, 04 Mar 2026 05:06:07 GMT');
+    const stale = await get(`/resolve/${uuid}`, '198.51.100.122', { 'If-Modified-Since': 'Fri, 02 Jan 2026 03:04:05 GMT' });
+    expect(stale.status).toBe(200);
+    await clearAllTestData();
+  });
+
+  it('keeps Last-Modified moving forward when the newest claim is deleted', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const ip = '198.51.100.213';
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.dateModified = '2026-01-02T03:04:05Z';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    const claim = (host: string, updatedAt: string) => ({
+      id: `website:${host}`, type: 'website', url: `https://${host}`, status: 'verified',
+      proof: { kind: 'well_known', url: `https://${host}/.well-known/anchorid.txt`, mustContain: uuid },
+      createdAt: '2026-03-01T00:00:00Z', updatedAt,
+    });
+    await setKV(claimsKey(uuid), JSON.stringify([
+      claim('old.example', '2026-03-01T00:00:00Z'),
+      claim('new.example', '2026-03-04T05:06:07Z'),
+    ]));
+    const seen = 'Wed, 04 Mar 2026 05:06:07 GMT';
+    expect((await get(`/resolve/${uuid}`, ip)).headers.get('last-modified')).toBe(seen);
+
+    const del = await SELF.fetch(createTestRequest('https://anchorid.net/claim/delete', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, claimId: 'website:new.example' }),
+      ip,
+    }));
+    expect(del.status).toBe(200);
+
+    // The remaining claim is older, but the record changed after `seen`.
+    const resolved = await get(`/resolve/${uuid}`, ip, { 'If-Modified-Since': seen });
+    expect(resolved.status).toBe(200);
+    expect(((await resolved.json()) as any).sameAs).not.toContain('https://new.example');
+    expect((await get(`/claims/${uuid}`, ip, { 'If-Modified-Since': seen })).status).toBe(200);
+    expect((await get(`/badge/${uuid}.svg`, ip, { 'If-Modified-Since': seen })).status).toBe(200);
+    expect((await getKVJson(`profile:${uuid}`))._claimsRemovedAt).toBeTruthy();
+    await clearAllTestData();
+  });
+
+  it('gives /claims a stable body dated by the latest claim', async () => {
+    await clearAllTestData();
+    const uuid = crypto.randomUUID();
+    const empty = await (await get(`/claims/${uuid}`, '198.51.100.123')).json() as any;
+    expect(empty.dateModified).toBeNull();
+
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'website:example.com', type: 'website', url: 'https://example.com', status: 'self_asserted',
+      proof: { kind: 'well_known', url: 'https://example.com/.well-known/anchorid.txt', mustContain: uuid },
+      createdAt: '2026-03-01T00:00:00Z', updatedAt: '2026-03-04T05:06:07Z',
+    }]));
+    const a = await get(`/claims/${uuid}`, '198.51.100.123');
+    const body = await a.json() as any;
+    expect(body.dateModified).toBe('2026-03-04T05:06:07Z');
+    expect(a.headers.get('last-modified')).toBe('Wed, 04 Mar 2026 05:06:07 GMT');
+
+    const again = await get(`/claims/${uuid}`, '198.51.100.123', { 'If-None-Match': a.headers.get('etag')! });
+    expect(again.status).toBe(304);
+    await clearAllTestData();
+  });
+
+  it('does not count 304s against the per-IP limit', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const ip = '198.51.100.124';
+    const limit = parseInt(env.IP_RESOLVE_RL_PER_HOUR as string, 10);
+
+    const first = await get(`/resolve/${uuid}`, ip);
+    const etag = first.headers.get('etag')!;
+    for (let i = 0; i < 3; i++) {
+      expect((await get(`/resolve/${uuid}`, ip, { 'If-None-Match': etag })).status).toBe(304);
+    }
+    // The 304s gave their count back, so the full budget is still there.
+    for (let i = 1; i < limit; i++) {
+      expect((await get(`/resolve/${uuid}`, ip)).status).toBe(200);
+    }
+    expect((await get(`/resolve/${uuid}`, ip)).status).toBe(429);
+
+    // The limit is checked before any work, whatever validator is sent.
+    expect((await get(`/resolve/${uuid}`, ip, { 'If-None-Match': '"junk"' })).status).toBe(429);
+    expect((await get(`/resolve/${uuid}`, ip, { 'If-None-Match': etag })).status).toBe(429);
+    await clearAllTestData();
+  });
+});
+
+describe('Profile revision history', () => {
+  const csrf = 'history-csrf-token';
+
+  async function update(uuid: string, patch: Record<string, unknown>, ip: string) {
+    const token = await createLoginSession(uuid);
+    const res = await SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token, _csrf: csrf, patch }),
+      ip,
+    }));
+    expect(res.status).toBe(200);
+  }
+
+  async function seedAged(name: string): Promise<string> {
+    const { uuid } = await createMockProfile({ name });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.dateModified = '2026-01-01T00:00:00.000Z';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    return uuid;
+  }
+
+  it('seeds the pre-existing state and records each change as a revision', async () => {
+    await clearAllTestData();
+    const uuid = await seedAged('Before');
+    await update(uuid, { name: 'After' }, '198.51.100.130');
+
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/history/${uuid}`, { ip: '198.51.100.131' }));
+    expect(res.status).toBe(200);
+    const body = await res.json() as any;
+    expect(body.revisions.map((r: any) => [r.rev, r.reason])).toEqual([[1, 'seed'], [2, 'update']]);
+    expect(body.revisions[0].at).toBe('2026-01-01T00:00:00.000Z');
+    expect(body.revisions[1].changes).toEqual(['name']);
+    expect(body.revisions[1].url).toBe(`https://anchorid.net/resolve/${uuid}?rev=2`);
+
+    const old = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}?rev=1`, { ip: '198.51.100.131' }));
+    expect(old.status).toBe(200);
+    expect((await old.json() as any).name).toBe('Before');
+    expect(old.headers.get('x-anchorid-revision')).toBe('1');
+    expect(old.headers.get('memento-datetime')).toBe('Thu, 01 Jan 2026 00:00:00 GMT');
+
+    const current = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}?rev=2`, { ip: '198.51.100.131' }));
+    expect((await current.json() as any).name).toBe('After');
+    await clearAllTestData();
+  });
+
+  it('does not record a revision for a no-op save', async () => {
+    await clearAllTestData();
+    const uuid = await seedAged('Same');
+    await update(uuid, { name: 'Changed' }, '198.51.100.132');
+    await update(uuid, { name: 'Changed' }, '198.51.100.132');
+    expect(await getKVJson(`history:${uuid}`)).toHaveLength(2);
+    await clearAllTestData();
+  });
+
+  it('resolves ?at= to the revision current at that instant', async () => {
+    await clearAllTestData();
+    const uuid = await seedAged('Early');
+    await update(uuid, { name: 'Late' }, '198.51.100.133');
+    const at = (path: string) => SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}${path}`, { ip: '198.51.100.134' }));
+
+    expect((await (await at('?at=2026-02-01T00:00:00Z')).json() as any).name).toBe('Early');
+    expect((await (await at(`?at=${encodeURIComponent(new Date(Date.now() + 60_000).toISOString())}`)).json() as any).name).toBe('Late');
+    expect((await at('?at=2025-06-01')).status).toBe(404);
+    expect((await at('?at=yesterday')).status).toBe(400);
+    expect((await at('?rev=0')).status).toBe(400);
+    await clearAllTestData();
+  });
+
+  it('captures which claims were verified at the time', async () => {
+    await clearAllTestData();
+    const uuid = await seedAged('Claimant');
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'github:ada', type: 'github', url: 'https://github.com/ada', status: 'verified',
+      proof: { kind: 'github_readme', username: 'ada', url: 'https://raw.githubusercontent.com/ada/ada/main/README.md', mustContain: uuid },
+      createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z', verifiedAt: '2026-01-01T00:00:00.000Z',
+    }]));
+
+    const del = await SELF.fetch(createTestRequest('https://anchorid.net/claim/delete', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, claimId: 'github:ada' }),
+      ip: '198.51.100.135',
+    }));
+    expect(del.status).toBe(200);
+
+    const index = await getKVJson(`history:${uuid}`);
+    expect(index.map((e: any) => e.verifiedClaims)).toEqual([['github:ada'], []]);
+    expect(index[1].reason).toBe('claims');
+
+    const rev1 = await getKVJson(`revision:${uuid}:1`);
+    expect(rev1.verifiedClaims).toEqual([{ id: 'github:ada', type: 'github', url: 'https://github.com/ada', verifiedAt: '2026-01-01T00:00:00.000Z' }]);
+    expect(rev1.record.sameAs).toContain('https://github.com/ada');
+    expect(rev1.record._emailHash).toBeUndefined();
+
+    const live = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip: '198.51.100.136' }))).json() as any;
+    expect(live.sameAs ?? []).not.toContain('https://github.com/ada');
+    await clearAllTestData();
+  });
+});
+
+describe('Batch resolve', () => {
+  function batch(uuids: unknown, ip: string) {
+    return SELF.fetch(createTestRequest('https://anchorid.net/resolve/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uuids }),
+      ip,
+    }));
+  }
+
+  it('maps each submitted UUID to its record or a per-item error', async () => {
+    await clearAllTestData();
+    const { uuid: a } = await createMockProfile({ name: 'Batch A' });
+    const { uuid: b } = await createMockProfile({ name: 'Batch B' });
+    await setKV(claimsKey(b), JSON.stringify([{
+      id: 'github:bee', type: 'github', url: 'https://github.com/bee', status: 'verified',
+      proof: { kind: 'github_readme', username: 'bee', url: 'https://raw.githubusercontent.com/bee/bee/main/README.md', mustContain: b },
+      createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(),
+    }]));
+    const missing = crypto.randomUUID();
+
+    const res = await batch([a, b.toUpperCase(), missing, 'not-a-uuid'], '198.51.100.140');
+    expect(res.status).toBe(200);
+    const { results } = await res.json() as any;
+    expect(results[a].name).toBe('Batch A');
+    // Same record /resolve would serve, verified claims merged.
+    expect(results[b.toUpperCase()]['@id']).toBe(`https://anchorid.net/resolve/${b}`);
+    expect(results[b.toUpperCase()].sameAs).toContain('https://github.com/bee');
+    expect(results[missing]).toEqual({ error: 'not_found' });
+    expect(results['not-a-uuid']).toEqual({ error: 'invalid_uuid' });
+
+    const single = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${b}`, { ip: '198.51.100.140' }))).json();
+    expect(results[b.toUpperCase()]).toEqual(single);
+    await clearAllTestData();
+  });
+
+  it('reports deleted UUIDs as gone and keeps a "__proto__" entry', async () => {
+    await clearAllTestData();
+    const deleted = crypto.randomUUID();
+    const deletedAt = new Date().toISOString();
+    await env.ANCHOR_KV.put(deletedTombstoneKey(deleted), deletedAt);
+
+    const res = await batch([deleted, '__proto__'], '198.51.100.215');
+    expect(res.status).toBe(200);
+    const { results } = await res.json() as any;
+    // Same state single /resolve answers with a 410.
+    expect(results[deleted]).toEqual({ error: 'gone', deletedAt });
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${deleted}`, { ip: '198.51.100.215' }))).status).toBe(410);
+    expect(Object.keys(results)).toContain('__proto__');
+    expect(results['__proto__']).toEqual({ error: 'invalid_uuid' });
+    await clearAllTestData();
+  });
+
+  it('rejects malformed and oversized batches', async () => {
+    await clearAllTestData();
+    expect((await batch([], '198.51.100.141')).status).toBe(400);
+    expect((await batch('nope', '198.51.100.141')).status).toBe(400);
+    expect((await batch([1, 2], '198.51.100.141')).status).toBe(400);
+
+    const tooMany = await batch(Array.from({ length: 6 }, () => crypto.randomUUID()), '198.51.100.141');
+    expect(tooMany.status).toBe(400);
+    expect(await tooMany.json()).toEqual({ error: 'too_many_uuids', max: 5 });
+    await clearAllTestData();
+  });
+
+  it('weights its own rate limit by batch size, separate from single lookups', async () => {
+    await clearAllTestData();
+    const ip = '198.51.100.142';
+    const five = () => Array.from({ length: 5 }, () => crypto.randomUUID());
+
+    expect((await batch(five(), ip)).status).toBe(200);
+    expect((await batch(five(), ip)).status).toBe(200);
+    // 10 UUIDs spent: even a single-item batch is now over budget.
+    expect((await batch([crypto.randomUUID()], ip)).status).toBe(429);
+
+    // The per-UUID resolver budget is untouched.
+    const { uuid } = await createMockProfile({});
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip }))).status).toBe(200);
+    await clearAllTestData();
+  });
+});
+
+describe('DID documents', () => {
+  it('publishes a did:web document derived from the resolved record', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Did Person' });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.sameAs = ['https://manual.example'];
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'github:did', type: 'github', url: 'https://github.com/did', status: 'verified',
+      proof: { kind: 'github_readme', username: 'did', url: 'https://raw.githubusercontent.com/did/did/main/README.md', mustContain: uuid },
+      createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(),
+    }]));
+
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/id/${uuid}/did.json`, { ip: '198.51.100.150' }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/did+ld+json');
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+
+    const doc = await res.json() as any;
+    const did = `did:web:anchorid.net:id:${uuid}`;
+    expect(doc['@context']).toEqual(['https://www.w3.org/ns/did/v1']);
+    expect(doc.id).toBe(did);
+    expect(doc.alsoKnownAs).toEqual([
+      `urn:uuid:${uuid}`,
+      `https://anchorid.net/resolve/${uuid}`,
+      'https://github.com/did',
+      'https://manual.example',
+    ]);
+    expect(doc.service).toEqual([
+      { id: `${did}#profile`, type: 'AnchorIDProfile', serviceEndpoint: `https://anchorid.net/resolve/${uuid}` },
+      { id: `${did}#claims`, type: 'AnchorIDClaims', serviceEndpoint: `https://anchorid.net/claims/${uuid}` },
+    ]);
+    await clearAllTestData();
+  });
+
+  it('tracks profile changes and 404s unknown identities', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const ip = '198.51.100.151';
+    const before = await (await SELF.fetch(createTestRequest(`https://anchorid.net/id/${uuid}/did.json`, { ip }))).json() as any;
+    expect(before.alsoKnownAs).toHaveLength(2);
+
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.sameAs = ['https://later.example'];
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    const after = await (await SELF.fetch(createTestRequest(`https://anchorid.net/id/${uuid}/did.json`, { ip }))).json() as any;
+    expect(after.alsoKnownAs).toContain('https://later.example');
+
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/id/${crypto.randomUUID()}/did.json`, { ip }))).status).toBe(404);
+    expect((await SELF.fetch(createTestRequest('https://anchorid.net/id/nope/did.json', { ip }))).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('WebFinger', () => {
+  function webfinger(query: string, ip: string) {
+    return SELF.fetch(createTestRequest(`https://anchorid.net/.well-known/webfinger?${query}`, { ip }));
+  }
+
+  async function seed(): Promise<string> {
+    const { uuid } = await createMockProfile({ name: 'Finger' });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.sameAs = ['https://unverified.example'];
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'github:finger', type: 'github', url: 'https://github.com/finger', status: 'verified',
+      proof: { kind: 'github_readme', username: 'finger', url: 'https://raw.githubusercontent.com/finger/finger/main/README.md', mustContain: uuid },
+      createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(),
+    }]));
+    return uuid;
+  }
+
+  it('returns a JRD with self, profile, claims and verified rel=me links only', async () => {
+    await clearAllTestData();
+    const uuid = await seed();
+    const resource = `urn:uuid:${uuid}`;
+    const res = await webfinger(`resource=${encodeURIComponent(resource)}`, '198.51.100.160');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/jrd+json');
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+
+    const jrd = await res.json() as any;
+    expect(jrd.subject).toBe(resource);
+    expect(jrd.aliases).toContain(`https://anchorid.net/resolve/${uuid}`);
+    expect(jrd.aliases).not.toContain(resource);
+    const byRel = (rel: string) => jrd.links.filter((l: any) => l.rel === rel).map((l: any) => l.href);
+    expect(byRel('self')).toEqual([`https://anchorid.net/resolve/${uuid}`]);
+    expect(byRel('http://webfinger.net/rel/profile-page')).toEqual([`https://anchorid.net/resolve/${uuid}`]);
+    expect(byRel('https://anchorid.net/rel/claims')).toEqual([`https://anchorid.net/claims/${uuid}`]);
+    // The manual entry is published in sameAs but is not proof of anything.
+    expect(byRel('me')).toEqual(['https://github.com/finger']);
+    await clearAllTestData();
+  });
+
+  it('accepts every resource form and filters by rel', async () => {
+    await clearAllTestData();
+    const uuid = await seed();
+    const ip = '198.51.100.161';
+    for (const resource of [
+      `https://anchorid.net/resolve/${uuid}`,
+      `acct:${uuid.toUpperCase()}@anchorid.net`,
+      `did:web:anchorid.net:id:${uuid}`,
+    ]) {
+      const res = await webfinger(`resource=${encodeURIComponent(resource)}&rel=me`, ip);
+      expect(res.status).toBe(200);
+      const jrd = await res.json() as any;
+      expect(jrd.links).toEqual([{ rel: 'me', href: 'https://github.com/finger' }]);
+    }
+    await clearAllTestData();
+  });
+
+  it('returns 400 without a resource and 404 for unknown ones', async () => {
+    await clearAllTestData();
+    const ip = '198.51.100.162';
+    expect((await webfinger('', ip)).status).toBe(400);
+    expect((await webfinger(`resource=${encodeURIComponent(`urn:uuid:${crypto.randomUUID()}`)}`, ip)).status).toBe(404);
+    const foreign = await webfinger(`resource=${encodeURIComponent('acct:alice@example.com')}`, ip);
+    expect(foreign.status).toBe(404);
+    expect(foreign.headers.get('access-control-allow-origin')).toBe('*');
+    await clearAllTestData();
+  });
+});
+
+describe('Signed responses', () => {
+  async function jwks(): Promise<any> {
+    const res = await SELF.fetch(createTestRequest('https://anchorid.net/.well-known/jwks.json', { ip: '198.51.100.170' }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/jwk-set+json');
+    return res.json();
+  }
+
+  it('canonical JSON sorts keys recursively and drops whitespace', () => {
+    expect(canonicalJson({ b: [2, { d: 1, c: 'x' }], a: null, u: undefined })).toBe('{"a":null,"b":[2,{"c":"x","d":1}]}');
+  });
+
+  it('publishes the current key first, then retired keys, with thumbprint kids', async () => {
+    const set = await jwks();
+    expect(set.keys).toHaveLength(2);
+    expect(set.keys[0]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', x: 'bJztSdffpG135tJw7s_2bzI3K7jB4ZHibh8tXSGtoeE', alg: 'EdDSA', use: 'sig' });
+    expect(set.keys[1].x).toBe('0rN7I_uf6_3yJELdZstEyk_gtOess7wT2DN53vbfDs8');
+    for (const key of set.keys) {
+      expect(key.kid).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(key.d).toBeUndefined();
+    }
+  });
+
+  it('signs /resolve and /claims bodies with a detached JWS that verifies offline', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Signed Person' });
+    const set = await jwks();
+    const ip = '198.51.100.171';
+
+    const resolved = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip }));
+    const jws = resolved.headers.get('x-anchorid-signature')!;
+    expect(jws).toMatch(/^[A-Za-z0-9_-]+\.\.[A-Za-z0-9_-]+$/);
+    const record = await resolved.json() as any;
+    expect(record.proof).toBeUndefined();
+    expect(await verifyDetachedJws(record, jws, set)).toBe(true);
+
+    // Any change to the record, or a key set without the signing key, fails.
+    expect(await verifyDetachedJws({ ...record, name: 'Forged' }, jws, set)).toBe(false);
+    expect(await verifyDetachedJws(record, jws, { keys: set.keys.slice(1) })).toBe(false);
+    expect(await verifyDetachedJws(record, 'not-a-jws', set)).toBe(false);
+
+    const claims = await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${uuid}`, { ip }));
+    const claimsJws = claims.headers.get('x-anchorid-signature')!;
+    expect(await verifyDetachedJws(await claims.json(), claimsJws, set)).toBe(true);
+
+    // Other representations carry no signature.
+    const turtle = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip, headers: { Accept: 'text/turtle' } }));
+    expect(turtle.headers.get('x-anchorid-signature')).toBeNull();
+    await clearAllTestData();
+  });
+
+  it('embeds the proof in the body on ?proof=1', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const set = await jwks();
+    const ip = '198.51.100.172';
+
+    for (const url of [`https://anchorid.net/resolve/${uuid}?proof=1`, `https://anchorid.net/claims/${uuid}?proof=1`]) {
+      const res = await SELF.fetch(createTestRequest(url, { ip }));
+      const doc = await res.json() as any;
+      expect(doc.proof).toEqual({
+        type: 'AnchorIDSignature',
+        verificationMethod: `https://anchorid.net/.well-known/jwks.json#${set.keys[0].kid}`,
+        jws: res.headers.get('x-anchorid-signature'),
+      });
+      expect(await verifyEmbeddedProof(doc, set)).toBe(true);
+      expect(await verifyEmbeddedProof({ ...doc, extra: true }, set)).toBe(false);
+    }
+    await clearAllTestData();
+  });
+});
+
+describe('Verifiable credentials for verified claims', () => {
+  const claimId = 'public:mastodon.social/@ada';
+
+  async function seed(): Promise<string> {
+    const { uuid } = await createMockProfile({ name: 'Credentialed' });
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: claimId, type: 'public', url: 'https://mastodon.social/@ada', status: 'verified',
+      proof: { kind: 'profile_page', url: 'https://mastodon.social/@ada', mustContain: uuid },
+      createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-02T00:00:00.000Z',
+      verifiedAt: '2026-01-02T00:00:00.000Z', lastCheckedAt: '2026-01-02T00:00:00.000Z',
+    }]));
+    // Seeded straight into KV, like a claim verified before credentials existed
+    await reconcileCredentialStatus(env);
+    return uuid;
+  }
+
+  async function fetchJwt(url: string, ip: string): Promise<any> {
+    const res = await SELF.fetch(createTestRequest(url, { ip }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/vc+jwt');
+    const jwks = await (await SELF.fetch(createTestRequest('https://anchorid.net/.well-known/jwks.json', { ip }))).json() as any;
+    const verified = await verifyCompactJws(await res.text(), jwks);
+    expect(verified).not.toBeNull();
+    expect(verified!.header.typ).toBe('vc+jwt');
+    return verified!.payload;
+  }
+
+  async function revokedBit(uuid: string, index: number, ip: string): Promise<boolean> {
+    const list = await fetchJwt(`https://anchorid.net/claims/${uuid}/status`, ip);
+    expect(list.type).toEqual(['VerifiableCredential', 'BitstringStatusListCredential']);
+    const encoded: string = list.credentialSubject.encodedList;
+    expect(encoded[0]).toBe('u');
+    const b64 = encoded.slice(1).replace(/-/g, '+').replace(/_/g, '/');
+    const gz = Uint8Array.from(atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4)), (c) => c.charCodeAt(0));
+    const bits = new Uint8Array(await new Response(new Blob([gz]).stream().pipeThrough(new DecompressionStream('gzip'))).arrayBuffer());
+    expect(bits.length).toBe(16384);
+    return (bits[index >> 3] & (0x80 >> (index & 7))) !== 0;
+  }
+
+  it('issues a signed JWT-VC naming the subject, the controlled URL and the proof', async () => {
+    await clearAllTestData();
+    const uuid = await seed();
+    const url = `https://anchorid.net/claims/${uuid}/${encodeURIComponent(claimId)}/credential`;
+    const vc = await fetchJwt(url, '198.51.100.175');
+
+    expect(vc['@context']).toEqual(['https://www.w3.org/ns/credentials/v2']);
+    expect(vc.type).toEqual(['VerifiableCredential', 'AnchorIDClaimCredential']);
+    expect(vc.validFrom).toBe('2026-01-02T00:00:00.000Z');
+    expect(vc.credentialSubject).toEqual({
+      id: `https://anchorid.net/resolve/${uuid}`,
+      controls: 'https://mastodon.social/@ada',
+      claimId,
+      claimType: 'public',
+    });
+    expect(vc.evidence[0]).toMatchObject({ proofKind: 'profile_page', proofLocation: 'https://mastodon.social/@ada', checkedAt: '2026-01-02T00:00:00.000Z' });
+    expect(vc.credentialStatus).toMatchObject({
+      type: 'BitstringStatusListEntry',
+      statusPurpose: 'revocation',
+      statusListIndex: '0',
+      statusListCredential: `https://anchorid.net/claims/${uuid}/status`,
+    });
+    expect(await revokedBit(uuid, 0, '198.51.100.175')).toBe(false);
+
+    // The unencoded path form reaches the same credential.
+    const raw = await fetchJwt(`https://anchorid.net/claims/${uuid}/${claimId}/credential`, '198.51.100.175');
+    expect(raw.id).toBe(vc.id);
+    await clearAllTestData();
+  });
+
+  it('serves the same JWT for an issuance across re-checks', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Rechecked' });
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'x:mycal', type: 'x', url: 'https://x.com/mycal', status: 'verified',
+      proof: { kind: 'x_profile', username: 'mycal', url: 'https://x.com/mycal', mustContain: `https://anchorid.net/resolve/${uuid}` },
+      createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-02T00:00:00.000Z',
+      verifiedAt: '2026-01-02T00:00:00.000Z', lastCheckedAt: '2026-01-02T00:00:00.000Z',
+    }]));
+    await reconcileCredentialStatus(env);
+    const ip = '198.51.100.211';
+    const url = `https://anchorid.net/claims/${uuid}/x%3Amycal/credential`;
+    const jwt = async () => (await SELF.fetch(createTestRequest(url, { ip }))).text();
+    const before = await jwt();
+
+    // The test env has no X budget, so the re-check is a transient pass that
+    // keeps the claim verified and only moves lastCheckedAt.
+    const recheck = await SELF.fetch(createTestRequest('https://anchorid.net/claim/verify', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, claimId: 'x:mycal' }),
+      ip,
+    }));
+    expect(recheck.status).toBe(503);
+    expect((await getKVJson(claimsKey(uuid)))[0].lastCheckedAt).not.toBe('2026-01-02T00:00:00.000Z');
+
+    expect(await jwt()).toBe(before);
+    await clearAllTestData();
+  });
+
+  it('revokes the credential when the claim is deleted and 404s afterwards', async () => {
+    await clearAllTestData();
+    const uuid = await seed();
+    const ip = '198.51.100.176';
+    const url = `https://anchorid.net/claims/${uuid}/${encodeURIComponent(claimId)}/credential`;
+    await fetchJwt(url, ip);
+
+    const del = await SELF.fetch(createTestRequest('https://anchorid.net/claim/delete', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, claimId }),
+      ip,
+    }));
+    expect(del.status).toBe(200);
+
+    expect(await revokedBit(uuid, 0, ip)).toBe(true);
+    const gone = await SELF.fetch(createTestRequest(url, { ip }));
+    expect(gone.status).toBe(404);
+    // Only the bit is kept for a revoked credential
+    const store = await getKVJson(`vcstatus:${uuid}`);
+    expect(store.entries).toEqual([]);
+    expect(store.next).toBe(1);
+    await clearAllTestData();
+  });
+
+  it('issues on writes and in the cron, never on read, up to the index cap', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Capped' });
+    const ip = '198.51.100.212';
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: claimId, type: 'public', url: 'https://mastodon.social/@ada', status: 'verified',
+      proof: { kind: 'profile_page', url: 'https://mastodon.social/@ada', mustContain: uuid },
+      createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-02T00:00:00.000Z', verifiedAt: '2026-01-02T00:00:00.000Z',
+    }]));
+    const url = `https://anchorid.net/claims/${uuid}/${encodeURIComponent(claimId)}/credential`;
+
+    const unissued = await SELF.fetch(createTestRequest(url, { ip }));
+    expect(unissued.status).toBe(404);
+    expect((await unissued.json() as any).error).toBe('credential_not_issued');
+    expect(await getKVJson(`vcstatus:${uuid}`)).toBeNull();
+
+    // An identity that has used every index gets no new credential
+    await setKV(`vcstatus:${uuid}`, JSON.stringify({ next: MAX_STATUS_INDEXES, updatedAt: '2026-01-01T00:00:00.000Z', entries: [], revoked: '' }));
+    await reconcileCredentialStatus(env);
+    expect(await getKVJson(`vcstatus:${uuid}`)).toMatchObject({ entries: [], updatedAt: '2026-01-01T00:00:00.000Z' });
+    expect((await SELF.fetch(createTestRequest(url, { ip }))).status).toBe(404);
+
+    await setKV(`vcstatus:${uuid}`, JSON.stringify({ next: 5, updatedAt: '2026-01-01T00:00:00.000Z', entries: [], revoked: '' }));
+    await reconcileCredentialStatus(env);
+    expect((await getKVJson(`vcstatus:${uuid}`)).entries).toMatchObject([{ claimId, index: 5 }]);
+    expect((await SELF.fetch(createTestRequest(url, { ip }))).status).toBe(200);
+    await clearAllTestData();
+  });
+
+  it('refuses credentials for claims that are not verified', async () => {
+    await clearAllTestData();
+    const uuid = await seed();
+    const claims = await getKVJson(claimsKey(uuid));
+    claims[0].status = 'failed';
+    await setKV(claimsKey(uuid), JSON.stringify(claims));
+    const ip = '198.51.100.177';
+
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${uuid}/${encodeURIComponent(claimId)}/credential`, { ip }));
+    expect(res.status).toBe(404);
+    expect((await res.json() as any).error).toBe('claim_not_verified');
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${uuid}/nope/credential`, { ip }))).status).toBe(404);
+    await clearAllTestData();
+  });
+});
+
+describe('Resolve relation expansion', () => {
+  const ref = (uuid: string) => ({ '@id': `https://anchorid.net/resolve/${uuid}` });
+
+  // org → founder person → affiliation back to org (a cycle), plus a founder
+  // reference to a record that does not exist.
+  async function seedCycle() {
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const { uuid: colleague } = await createMockProfile({ name: 'Road Runner' });
+    const missing = crypto.randomUUID();
+
+    const orgProfile = await getKVJson(`profile:${org}`);
+    orgProfile.founder = [ref(person), ref(missing)];
+    await setKV(`profile:${org}`, JSON.stringify(orgProfile));
+    const personProfile = await getKVJson(`profile:${person}`);
+    personProfile.affiliation = [ref(org)];
+    personProfile.sameAs = ['https://wile.example'];
+    await setKV(`profile:${person}`, JSON.stringify(personProfile));
+    const colleagueProfile = await getKVJson(`profile:${colleague}`);
+    colleagueProfile.affiliation = [ref(person)];
+    await setKV(`profile:${colleague}`, JSON.stringify(colleagueProfile));
+    return { org, person, colleague, missing };
+  }
+
+  it('returns an @graph with each referenced record once, skipping missing ones', async () => {
+    await clearAllTestData();
+    const { org, person, missing } = await seedCycle();
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${org}?expand=relations&depth=3`, { ip: '198.51.100.180' }));
+    expect(res.status).toBe(200);
+
+    const doc = await res.json() as any;
+    expect(doc['@context']).toBe('https://schema.org');
+    const ids = doc['@graph'].map((n: any) => n['@id']);
+    expect(ids).toEqual([`https://anchorid.net/resolve/${org}`, `https://anchorid.net/resolve/${person}`]);
+
+    const root = doc['@graph'][0];
+    expect(root['@context']).toBeUndefined();
+    // Seeded straight into KV: no relation exists yet, so no status either.
+    expect(root.founder).toEqual([ref(person), ref(missing)]);
+    expect(doc['@graph'][1]).toMatchObject({
+      '@type': 'Person',
+      name: 'Wile',
+      identifier: { value: `urn:uuid:${person}` },
+      sameAs: ['https://wile.example'],
+      affiliation: [ref(org)],
+    });
+    await clearAllTestData();
+  });
+
+  it('stops at the requested depth and validates parameters', async () => {
+    await clearAllTestData();
+    const { org, person, colleague } = await seedCycle();
+    const ip = '198.51.100.181';
+    const graphIds = async (uuid: string, depth: number) => {
+      const res = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}?expand=relations&depth=${depth}`, { ip }));
+      return ((await res.json()) as any)['@graph'].map((n: any) => n['@id']);
+    };
+    expect(await graphIds(colleague, 1)).toEqual([`https://anchorid.net/resolve/${colleague}`, `https://anchorid.net/resolve/${person}`]);
+    expect(await graphIds(colleague, 2)).toContain(`https://anchorid.net/resolve/${org}`);
+
+    const bad = (q: string) => SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${org}?${q}`, { ip }));
+    expect((await bad('expand=everything')).status).toBe(400);
+    expect((await bad('expand=relations&depth=9')).status).toBe(400);
+    expect((await bad('expand=relations&rev=1')).status).toBe(400);
+    await clearAllTestData();
+  });
+
+  it('serializes the graph as RDF', async () => {
+    await clearAllTestData();
+    const { org, person } = await seedCycle();
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${org}?expand=relations`, {
+      ip: '198.51.100.182',
+      headers: { Accept: 'application/n-triples' },
+    }));
+    const nt = await res.text();
+    expect(nt).toContain(`<https://anchorid.net/resolve/${person}> <http://schema.org/name> "Wile" .`);
+    expect(nt).toContain(`<https://anchorid.net/resolve/${org}> <http://schema.org/founder> <https://anchorid.net/resolve/${person}> .`);
+    await clearAllTestData();
+  });
+});
+
+describe('Relation confirmation', () => {
+  const csrf = 'relations-csrf-token';
+  const resolveUrl = (uuid: string) => `https://anchorid.net/resolve/${uuid}`;
+
+  async function update(uuid: string, patch: Record<string, unknown>, ip: string) {
+    const token = await createLoginSession(uuid);
+    const res = await SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token, _csrf: csrf, patch }),
+      ip,
+    }));
+    expect(res.status).toBe(200);
+  }
+
+  async function respond(owner: string, source: string, decision: string, ip: string, asUuid = owner, kind = 'affiliation') {
+    const token = await createLoginSession(asUuid);
+    return SELF.fetch(createTestRequest('https://anchorid.net/relation/respond', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ uuid: owner, source, kind, decision }),
+      ip,
+    }));
+  }
+
+  async function affiliation(person: string, ip: string, query = ''): Promise<any> {
+    const res = await SELF.fetch(createTestRequest(`${resolveUrl(person)}${query}`, { ip }));
+    return ((await res.json()) as any).affiliation;
+  }
+
+  it('publishes a new affiliation as pending until the organization accepts', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const ip = '198.51.100.185';
+
+    await update(person, { name: 'Wile', affiliation: [org] }, ip);
+    expect(await affiliation(person, ip)).toEqual([{ '@id': resolveUrl(org), relationStatus: 'pending' }]);
+    expect(await affiliation(person, ip, '?relations=confirmed')).toBeUndefined();
+
+    const orgRelations = await getKVJson(`relations:${org}`);
+    expect(orgRelations.incoming).toMatchObject([{ source: person, target: org, kind: 'affiliation', status: 'pending' }]);
+
+    // Shown to the organization's owner with accept/reject controls
+    const editToken = await createLoginSession(org);
+    const edit = await SELF.fetch(createTestRequest(`https://anchorid.net/edit?token=${editToken}`, { ip }));
+    const html = await edit.text();
+    expect(html).toContain('Relation Requests');
+    expect(html).toContain(`data-source="${person}"`);
+
+    const accepted = await respond(org, person, 'accept', ip);
+    expect(accepted.status).toBe(200);
+    expect(await affiliation(person, ip)).toEqual([{ '@id': resolveUrl(org), relationStatus: 'confirmed' }]);
+    expect(await affiliation(person, ip, '?relations=confirmed')).toHaveLength(1);
+
+    const turtle = await (await SELF.fetch(createTestRequest(resolveUrl(person), { ip, headers: { Accept: 'text/turtle' } }))).text();
+    expect(turtle).not.toContain('relationStatus');
+    await clearAllTestData();
+  });
+
+  it('omits rejected relations and only lets the target owner respond', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const ip = '198.51.100.186';
+    await update(person, { name: 'Wile', affiliation: [org] }, ip);
+
+    // The asserting side cannot confirm its own relation
+    expect((await respond(org, person, 'accept', ip, person)).status).toBe(401);
+    expect((await respond(org, crypto.randomUUID(), 'accept', ip)).status).toBe(404);
+    expect((await respond(org, person, 'maybe', ip)).status).toBe(400);
+
+    expect((await respond(org, person, 'reject', ip)).status).toBe(200);
+    expect(await affiliation(person, ip)).toBeUndefined();
+
+    // Dropping the reference clears it at both ends, stamped for Last-Modified
+    await update(person, { name: 'Wile', affiliation: [] }, ip);
+    const orgRelations = await getKVJson(`relations:${org}`);
+    expect(orgRelations).toMatchObject({ outgoing: [], incoming: [] });
+    expect(orgRelations.removedAt).toBeTruthy();
+    await clearAllTestData();
+  });
+
+  it('publishes confirmed members on the organization and at /relations', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const { uuid: other } = await createMockProfile({ name: 'Road Runner' });
+    const ip = '198.51.100.188';
+
+    await update(person, { name: 'Wile', affiliation: [org] }, ip);
+    await update(other, { name: 'Road Runner', affiliation: [org] }, ip);
+    const relations = async (uuid: string) =>
+      (await (await SELF.fetch(createTestRequest(`https://anchorid.net/relations/${uuid}`, { ip }))).json()) as any;
+
+    // Nothing published from the receiving side until the organization agrees
+    let orgRecord = await (await SELF.fetch(createTestRequest(resolveUrl(org), { ip }))).json() as any;
+    expect(orgRecord.member).toBeUndefined();
+    expect((await relations(org)).member).toEqual([]);
+
+    expect((await respond(org, person, 'accept', ip)).status).toBe(200);
+    expect((await respond(org, other, 'reject', ip)).status).toBe(200);
+
+    orgRecord = await (await SELF.fetch(createTestRequest(resolveUrl(org), { ip }))).json() as any;
+    expect(orgRecord.member).toEqual([{ '@id': resolveUrl(person) }]);
+    const listed = await relations(org);
+    expect(listed.member).toMatchObject([{ '@id': resolveUrl(person) }]);
+    expect(listed.founderOf).toEqual([]);
+
+    const html = await (await SELF.fetch(createTestRequest(resolveUrl(org), { ip, headers: { Accept: 'text/html' } }))).text();
+    expect(html).toContain('Members');
+    expect(html).toContain('Wile');
+
+    // Dropping the affiliation changes the organization's record too
+    await update(person, { name: 'Wile', affiliation: [] }, ip);
+    orgRecord = await (await SELF.fetch(createTestRequest(resolveUrl(org), { ip }))).json() as any;
+    expect(orgRecord.member).toBeUndefined();
+    const { keys } = await env.ANCHOR_KV.list({ prefix: 'changelog:' });
+    expect(keys.some((k) => k.name.includes(`:${org}:`) && (k.metadata as any)?.type === 'relations')).toBe(true);
+
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/relations/${crypto.randomUUID()}`, { ip }))).status).toBe(404);
+    expect((await SELF.fetch(createTestRequest('https://anchorid.net/relations/nope', { ip }))).status).toBe(400);
+    await clearAllTestData();
+  });
+
+  it('records relation writes in the revision history as /resolve served them', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const ip = '198.51.100.214';
+    const revision = async (uuid: string, rev: number) =>
+      (await (await SELF.fetch(createTestRequest(`${resolveUrl(uuid)}?rev=${rev}`, { ip }))).json()) as any;
+    const reasons = async (uuid: string) => (await getKVJson(`history:${uuid}`)).map((e: any) => e.reason);
+
+    await update(person, { name: 'Wile', affiliation: [org] }, ip);
+    expect(await reasons(person)).toEqual(['seed', 'update']);
+    expect((await revision(person, 2)).affiliation).toEqual([{ '@id': resolveUrl(org), relationStatus: 'pending' }]);
+
+    expect((await respond(org, person, 'accept', ip)).status).toBe(200);
+    expect(await reasons(person)).toEqual(['seed', 'update', 'relations']);
+    expect((await revision(person, 3)).affiliation).toEqual([{ '@id': resolveUrl(org), relationStatus: 'confirmed' }]);
+    expect(await reasons(org)).toEqual(['seed', 'relations']);
+    expect((await revision(org, 1)).member).toBeUndefined();
+    expect((await revision(org, 2)).member).toEqual([{ '@id': resolveUrl(person) }]);
+
+    // Dropping the reference changes the organization's record too
+    await update(person, { name: 'Wile', affiliation: [] }, ip);
+    expect(await reasons(org)).toEqual(['seed', 'relations', 'relations']);
+    expect((await revision(org, 3)).member).toBeUndefined();
+    await clearAllTestData();
+  });
+
+  it('creates relations for references no save announced', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const later = crypto.randomUUID();
+    const ip = '198.51.100.209';
+
+    // Stored before relations existed, and naming a profile that does not exist yet
+    const stored = await getKVJson(`profile:${person}`);
+    stored.affiliation = [{ '@id': resolveUrl(org) }, { '@id': resolveUrl(later) }];
+    await setKV(`profile:${person}`, JSON.stringify(stored));
+    expect(await affiliation(person, ip)).toEqual([{ '@id': resolveUrl(org) }, { '@id': resolveUrl(later) }]);
+    expect(await affiliation(person, ip, '?relations=confirmed')).toBeUndefined();
+
+    expect(await reconcileRelations(env)).toBe(1);
+    expect(await affiliation(person, ip)).toEqual([{ '@id': resolveUrl(org), relationStatus: 'pending' }, { '@id': resolveUrl(later) }]);
+    expect((await getKVJson(`relations:${org}`)).incoming).toMatchObject([{ source: person, kind: 'affiliation', status: 'pending' }]);
+
+    // The named profile appears; the next run asks its owner too
+    await createMockProfile({ uuid: later, name: 'Later Inc', type: 'Organization' });
+    expect(await reconcileRelations(env)).toBe(1);
+    expect(await reconcileRelations(env)).toBe(0);
+    expect((await affiliation(person, ip))[1]).toEqual({ '@id': resolveUrl(later), relationStatus: 'pending' });
+    await clearAllTestData();
+  });
+
+  it('does not let references in opposite directions confirm each other', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const ip = '198.51.100.187';
+    const founder = async () =>
+      ((await (await SELF.fetch(createTestRequest(resolveUrl(org), { ip }))).json()) as any).founder;
+
+    // Affiliation first, then the founder claim: neither agrees to the other
+    await update(person, { name: 'Wile', affiliation: [org] }, ip);
+    await update(org, { name: 'Acme', founder: [person] }, ip);
+    expect(await affiliation(person, ip)).toEqual([{ '@id': resolveUrl(org), relationStatus: 'pending' }]);
+    expect(await founder()).toEqual([{ '@id': resolveUrl(person), relationStatus: 'pending' }]);
+
+    // Accepting the affiliation says nothing about founding
+    expect((await respond(org, person, 'accept', ip)).status).toBe(200);
+    expect(await affiliation(person, ip)).toEqual([{ '@id': resolveUrl(org), relationStatus: 'confirmed' }]);
+    expect(await founder()).toEqual([{ '@id': resolveUrl(person), relationStatus: 'pending' }]);
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/relations/${person}`, { ip })).then((r) => r.json()) as any).founderOf).toEqual([]);
+
+    expect((await respond(person, org, 'accept', ip, person, 'founder')).status).toBe(200);
+    const orgRecord = await (await SELF.fetch(createTestRequest(resolveUrl(org), { ip }))).json() as any;
+    expect(orgRecord.founder).toEqual([{ '@id': resolveUrl(person), relationStatus: 'confirmed' }]);
+    expect(orgRecord.member).toEqual([{ '@id': resolveUrl(person) }]);
+
+    const reverse = await (await SELF.fetch(createTestRequest(`https://anchorid.net/relations/${person}`, { ip }))).json() as any;
+    expect(reverse.founderOf).toMatchObject([{ '@id': resolveUrl(org) }]);
+    await clearAllTestData();
+  });
+});
+
+describe('Identity succession', () => {
+  const resolveUrl = (uuid: string) => `https://anchorid.net/resolve/${uuid}`;
+
+  async function supersede(uuid: string, successor: string, ip: string, successorToken?: string) {
+    const token = await createLoginSession(uuid);
+    return SELF.fetch(createTestRequest('https://anchorid.net/succession', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` },
+      body: JSON.stringify({ uuid, successor, successorToken }),
+      ip,
+    }));
+  }
+
+  it('replaces the record with a supersededBy pointer once both UUIDs are proven', async () => {
+    await clearAllTestData();
+    const { uuid: oldId } = await createMockProfile({ name: 'Old Wile' });
+    const { uuid: newId } = await createMockProfile({ name: 'Wile' });
+    const ip = '198.51.100.190';
+
+    // A session for the old UUID alone is not enough
+    expect((await supersede(oldId, newId, ip)).status).toBe(401);
+    const foreign = await createLoginSession(oldId);
+    expect((await supersede(oldId, newId, ip, foreign)).status).toBe(401);
+
+    const res = await supersede(oldId, newId, ip, await createLoginSession(newId));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ ok: true, uuid: oldId, supersededBy: newId });
+
+    const record = await (await SELF.fetch(createTestRequest(resolveUrl(oldId), { ip }))).json() as any;
+    expect(record).toMatchObject({
+      '@id': resolveUrl(oldId),
+      '@type': 'Person',
+      identifier: { value: `urn:uuid:${oldId}` },
+      supersededBy: { '@id': resolveUrl(newId) },
+    });
+    expect(record.name).toBeUndefined();
+
+    const html = await SELF.fetch(createTestRequest(resolveUrl(oldId), { ip, headers: { Accept: 'text/html' }, redirect: 'manual' }));
+    expect(html.status).toBe(301);
+    expect(html.headers.get('location')).toBe(resolveUrl(newId));
+
+    // Images and link previews stop naming the old profile
+    const badge = await (await SELF.fetch(createTestRequest(`https://anchorid.net/badge/${oldId}.svg`, { ip }))).text();
+    expect(badge).toContain('AnchorID: superseded');
+    expect(badge).not.toContain('Old Wile');
+    const og = await SELF.fetch(createTestRequest(`https://anchorid.net/og/${oldId}.png`, { ip, redirect: 'manual' }));
+    expect(og.status).toBe(301);
+    expect(og.headers.get('location')).toBe(`https://anchorid.net/og/${newId}.png`);
+    const claimsPage = await (await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${oldId}`, { ip, headers: { Accept: 'text/html' } }))).text();
+    expect(claimsPage).not.toContain('Old Wile');
+
+    // So do its feeds, whatever events were logged before
+    await setKV(`events:${oldId}`, JSON.stringify([
+      { id: 1, type: 'profile_updated', at: '2026-01-01T00:00:00.000Z', changes: [{ field: 'name', to: 'Old Wile' }] },
+    ]));
+    const feed = await (await SELF.fetch(createTestRequest(`https://anchorid.net/feed/${oldId}.json`, { ip }))).json() as any;
+    expect(feed.title).toBe(`${oldId} • AnchorID changes`);
+    expect(feed.items).toMatchObject([{ url: resolveUrl(newId), tags: ['superseded'], _anchorid: { supersededBy: newId } }]);
+    const atom = await (await SELF.fetch(createTestRequest(`https://anchorid.net/feed/${oldId}.atom`, { ip }))).text();
+    expect(atom).toContain(`Superseded by ${resolveUrl(newId)}`);
+    expect(atom).not.toContain('Old Wile');
+
+    // The history records the change, and keeps what was published before
+    const history = await getKVJson(`history:${oldId}`);
+    expect(history.map((e: any) => e.reason)).toEqual(['seed', 'succession']);
+    const before = await (await SELF.fetch(createTestRequest(`${resolveUrl(oldId)}?rev=1`, { ip }))).json() as any;
+    expect(before.name).toBe('Old Wile');
+    const after = await (await SELF.fetch(createTestRequest(`${resolveUrl(oldId)}?rev=2`, { ip }))).json() as any;
+    expect(after.supersededBy).toEqual({ '@id': resolveUrl(newId) });
+    expect(after.name).toBeUndefined();
+
+    // The stored profile is kept, and the successor is untouched
+    expect((await getKVJson(`profile:${oldId}`)).name).toBe('Old Wile');
+    const successor = await (await SELF.fetch(createTestRequest(resolveUrl(newId), { ip }))).json() as any;
+    expect(successor.name).toBe('Wile');
+    await clearAllTestData();
+  });
+
+  it('refuses repeats, chains and edits to the superseded profile', async () => {
+    await clearAllTestData();
+    const { uuid: a } = await createMockProfile({ name: 'A' });
+    const { uuid: b } = await createMockProfile({ name: 'B' });
+    const { uuid: c } = await createMockProfile({ name: 'C' });
+    const ip = '198.51.100.191';
+
+    expect((await supersede(a, a, ip, await createLoginSession(a))).status).toBe(400);
+    expect((await supersede(a, crypto.randomUUID(), ip)).status).toBe(401);
+    expect((await supersede(a, b, ip, await createLoginSession(b))).status).toBe(200);
+    expect((await supersede(a, c, ip, await createLoginSession(c))).status).toBe(409);
+    expect((await supersede(c, a, ip, await createLoginSession(a))).status).toBe(409);
+
+    const csrf = 'succession-csrf-token';
+    const update = await SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token: await createLoginSession(a), _csrf: csrf, patch: { name: 'A again' } }),
+      ip,
+    }));
+    expect(update.status).toBe(409);
+    expect(await update.json()).toMatchObject({ error: 'superseded', supersededBy: b });
+    await clearAllTestData();
+  });
+
+  it('refuses admin saves of a superseded profile without touching its relations', async () => {
+    await clearAllTestData();
+    const { uuid: org } = await createMockProfile({ name: 'Acme', type: 'Organization' });
+    const { uuid: a } = await createMockProfile({ name: 'A' });
+    const { uuid: b } = await createMockProfile({ name: 'B' });
+    const ip = '198.51.100.210';
+    expect((await supersede(a, b, ip, await createLoginSession(b))).status).toBe(200);
+
+    const { headers, csrfToken } = await withAdminSessionAndCsrf();
+    const fd = new FormData();
+    fd.append('_csrf', csrfToken);
+    fd.append('name', 'A again');
+    fd.append('affiliation', org);
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/admin/save/${a}`, {
+      method: 'POST',
+      headers,
+      body: fd,
+      redirect: 'manual',
+      ip,
+    }));
+    expect(res.status).toBe(303);
+    expect(res.headers.get('location')).toBe(`/admin/edit/${a}?error=superseded`);
+    expect((await getKVJson(`profile:${a}`)).name).toBe('A');
+    expect(await getKVJson(`relations:${org}`)).toBeNull();
+    await clearAllTestData();
+  });
+});
+
+describe('Deleted identities', () => {
+  it('answers 410 with a tombstone on /resolve and /claims after deletion', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Gone Soon' });
+    const ip = '198.51.100.193';
+
+    const { headers, csrfToken } = await withAdminSessionAndCsrf();
+    const fd = new FormData();
+    fd.append('_csrf', csrfToken);
+    const del = await SELF.fetch(createTestRequest(`https://anchorid.net/admin/delete/${uuid}`, {
+      method: 'POST',
+      headers,
+      body: fd,
+      redirect: 'manual',
+      ip,
+    }));
+    expect(del.status).toBe(303);
+
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip }));
+    expect(res.status).toBe(410);
+    expect(res.headers.get('content-type')).toContain('application/ld+json');
+    expect(res.headers.get('cache-control')).toContain('max-age=31536000');
+    const body = await res.json() as any;
+    expect(body).toMatchObject({ '@id': `https://anchorid.net/resolve/${uuid}`, error: 'gone', uuid });
+    expect(Date.parse(body.deletedAt)).not.toBeNaN();
+
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}?rev=1`, { ip }))).status).toBe(410);
+    expect((await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${uuid}`, { ip }))).status).toBe(410);
+    const html = await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${uuid}`, { ip, headers: { Accept: 'text/html' } }));
+    expect(html.status).toBe(410);
+    await clearAllTestData();
+  });
+
+  it('keeps 404 for UUIDs that never existed', async () => {
+    const ip = '198.51.100.194';
+    const uuid = crypto.randomUUID();
+    const res = await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${uuid}`, { ip }));
+    expect(res.status).toBe(404);
+    expect(res.headers.get('cache-control')).toContain('max-age=60');
+    const claims = await SELF.fetch(createTestRequest(`https://anchorid.net/claims/${uuid}`, { ip }));
+    expect(claims.status).toBe(200);
+  });
+});
+
+describe('Extended profile fields', () => {
+  const uuid = '11111111-2222-4333-8444-555555555555';
+
+  it('canonicalizes the fields each type carries and ignores the others', () => {
+    const person = buildProfile(uuid, null, {
+      name: 'Wile',
+      email: '  wile@acme.example ',
+      image: 'http://acme.example/wile.jpg#top',
+      jobTitle: '  Chief   Engineer ',
+      knowsAbout: 'rockets\nanvils\nrockets',
+      logo: 'https://acme.example/logo.png',
+      legalName: 'Not an org',
+    }).profile as any;
+    expect(person).toMatchObject({
+      email: 'wile@acme.example',
+      image: 'https://acme.example/wile.jpg',
+      jobTitle: 'Chief Engineer',
+      knowsAbout: ['rockets', 'anvils'],
+    });
+    expect(person.logo).toBeUndefined();
+    expect(person.legalName).toBeUndefined();
+
+    const org = buildProfile(uuid, null, { '@type': 'Organization', logo: 'https://acme.example/logo.png', legalName: 'Acme Corp.', jobTitle: 'x' }).profile as any;
+    expect(org).toMatchObject({ logo: 'https://acme.example/logo.png', legalName: 'Acme Corp.' });
+    expect(org.jobTitle).toBeUndefined();
+
+    // Absent keeps the stored value; empty clears it
+    expect((buildProfile(uuid, person, { name: 'Wile' }).profile as any).jobTitle).toBe('Chief Engineer');
+    expect((buildProfile(uuid, person, { jobTitle: '' }).profile as any).jobTitle).toBeUndefined();
+  });
+
+  it('rejects wrong types, bad formats and oversized values', () => {
+    const fields = (input: any, type: 'Person' | 'Organization' = 'Person') =>
+      validateProfileInput(input, type).map((e) => `${e.field}:${e.reason}`);
+
+    expect(fields({ email: 'not-an-email', image: 'javascript:alert(1)', jobTitle: 42 })).toEqual([
+      'email:invalid_email', 'image:invalid_url', 'jobTitle:invalid_type',
+    ]);
+    expect(fields({ jobTitle: 'x'.repeat(101), knowsAbout: Array.from({ length: 21 }, (_, i) => `t${i}`) })).toEqual([
+      'jobTitle:too_long', 'knowsAbout:too_many',
+    ]);
+    expect(fields({ legalName: 'x'.repeat(201), logo: 'ftp://acme.example/logo.png' }, 'Organization')).toEqual([
+      'logo:invalid_url', 'legalName:too_long',
+    ]);
+    expect(fields({ email: '', image: '', knowsAbout: [], legalName: 'x'.repeat(500) })).toEqual([]);
+  });
+
+  it('saves valid fields through /update and refuses invalid ones without consuming the session', async () => {
+    await clearAllTestData();
+    const { uuid: person } = await createMockProfile({ name: 'Wile' });
+    const ip = '198.51.100.195';
+    const csrf = 'extended-fields-csrf';
+    const token = await createLoginSession(person);
+    const update = (patch: Record<string, unknown>) => SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token, _csrf: csrf, patch }),
+      ip,
+    }));
+
+    const bad = await update({ name: 'Wile', jobTitle: 'x'.repeat(101) });
+    expect(bad.status).toBe(400);
+    expect(await bad.json()).toMatchObject({ error: 'invalid_profile', invalid: [{ field: 'jobTitle', reason: 'too_long' }] });
+
+    const ok = await update({ name: 'Wile', jobTitle: 'Engineer', knowsAbout: ['rockets'], email: 'wile@acme.example' });
+    expect(ok.status).toBe(200);
+
+    const record = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${person}`, { ip }))).json() as any;
+    expect(record).toMatchObject({ jobTitle: 'Engineer', knowsAbout: ['rockets'], email: 'wile@acme.example' });
+
+    const audit = await getKVJson(`audit:${person}`);
+    expect(audit[0].changes).toEqual(expect.arrayContaining(['email', 'jobTitle', 'knowsAbout']));
+    await clearAllTestData();
+  });
+});
+
+describe('Language-tagged text', () => {
+  const uuid = '11111111-2222-4333-8444-666666666666';
+
+  it('canonicalizes language tags', () => {
+    expect(canonicalLanguageTag('EN')).toBe('en');
+    expect(canonicalLanguageTag('zh-hant-tw')).toBe('zh-Hant-TW');
+    expect(canonicalLanguageTag('pt_BR')).toBeUndefined();
+    expect(canonicalLanguageTag('')).toBeUndefined();
+  });
+
+  it('accepts value objects and language maps, default language first', () => {
+    const fromMap = buildProfile(uuid, null, {
+      name: { ja: 'マイカル', EN: 'Mycal' },
+      description: [{ '@value': 'Builder', '@language': 'en' }],
+      defaultLanguage: 'en',
+    }).profile as any;
+    expect(fromMap.name).toEqual([
+      { '@value': 'Mycal', '@language': 'en' },
+      { '@value': 'マイカル', '@language': 'ja' },
+    ]);
+    expect(fromMap.description).toEqual([{ '@value': 'Builder', '@language': 'en' }]);
+
+    // Untagged input takes the stored default language
+    const next = buildProfile(uuid, fromMap, { name: 'Mycal J.' }).profile as any;
+    expect(next.name).toEqual([{ '@value': 'Mycal J.', '@language': 'en' }]);
+
+    // Without languages a record keeps its plain-string shape
+    const plain = buildProfile(uuid, null, { name: 'Mycal', alternateName: 'Mike, MJ' }).profile as any;
+    expect(plain.name).toBe('Mycal');
+    expect(plain.alternateName).toEqual(['Mike', 'MJ']);
+  });
+
+  it('rejects malformed tags and two values in one language', () => {
+    const fields = (input: any) => validateProfileInput(input, 'Person').map((e) => `${e.field}:${e.reason}`);
+
+    expect(fields({ name: { 'not a tag': 'x' } })).toEqual(['name:invalid_language']);
+    expect(fields({ description: [{ '@value': 'a', '@language': 'en' }, { '@value': 'b', '@language': 'EN' }] }))
+      .toEqual(['description:duplicate_language']);
+    expect(fields({ alternateName: [{ '@value': 'a', '@language': 'en' }, { '@value': 'b', '@language': 'en' }] })).toEqual([]);
+    expect(fields({ defaultLanguage: 'english!' })).toEqual(['defaultLanguage:invalid_language']);
+    expect(fields({ name: 42 })).toEqual(['name:invalid_type']);
+  });
+
+  it('publishes translations through /update as JSON-LD and RDF literals', async () => {
+    await clearAllTestData();
+    const { uuid: person } = await createMockProfile({ name: 'Mycal' });
+    const ip = '198.51.100.196';
+    const csrf = 'language-csrf';
+    const token = await createLoginSession(person);
+    const update = (patch: Record<string, unknown>) => SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token, _csrf: csrf, patch }),
+      ip,
+    }));
+
+    const bad = await update({ name: [{ '@value': 'Mycal', '@language': 'e n' }] });
+    expect(bad.status).toBe(400);
+    expect(await bad.json()).toMatchObject({ error: 'invalid_profile', invalid: [{ field: 'name', reason: 'invalid_language' }] });
+
+    const ok = await update({ name: ['Mycal', { '@value': 'マイカル', '@language': 'ja' }], defaultLanguage: 'en' });
+    expect(ok.status).toBe(200);
+
+    const record = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${person}`, { ip }))).json() as any;
+    expect(record.name).toEqual([
+      { '@value': 'Mycal', '@language': 'en' },
+      { '@value': 'マイカル', '@language': 'ja' },
+    ]);
+
+    const ttl = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${person}`, {
+      ip,
+      headers: { Accept: 'text/turtle' },
+    }))).text();
+    expect(ttl).toContain('"マイカル"@ja');
+
+    const html = await (await SELF.fetch(createTestRequest(`https://anchorid.net/resolve/${person}`, {
+      ip,
+      headers: { Accept: 'text/html' },
+    }))).text();
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<h1>Mycal</h1>');
+    expect(html).toContain('<span lang="ja">マイカル</span>');
+    await clearAllTestData();
+  });
+});
+
+describe('JSON Schemas and /validate', () => {
+  it('publishes each schema at its stable URL, with limits from the canonicalizer', async () => {
+    for (const name of ['anchor-profile', 'profile-input', 'claim', 'claims-response']) {
+      const res = await SELF.fetch(createTestRequest(`https://anchorid.net/schemas/${name}.json`, { ip: '198.51.100.197' }));
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toContain('application/schema+json');
+      expect(res.headers.get('access-control-allow-origin')).toBe('*');
+      const schema = await res.json() as any;
+      expect(schema.$id).toBe(`https://anchorid.net/schemas/${name}.json`);
+      expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    }
+
+    const profile = await (await SELF.fetch(createTestRequest('https://anchorid.net/schemas/anchor-profile.json', { ip: '198.51.100.197' }))).json() as any;
+    expect(profile.properties.jobTitle.maxLength).toBe(100);
+    expect(profile.required).toEqual(expect.arrayContaining(['@id', 'identifier']));
+
+    const ledger = await (await SELF.fetch(createTestRequest('https://anchorid.net/schemas/claims-response.json', { ip: '198.51.100.197' }))).json() as any;
+    expect(ledger.properties.claims.items.$ref).toBe('https://anchorid.net/schemas/claim.json');
+
+    const missing = await SELF.fetch(createTestRequest('https://anchorid.net/schemas/nope.json', { ip: '198.51.100.197' }));
+    expect(missing.status).toBe(404);
+  });
+
+  it('dry-runs a patch against a stored profile without writing it', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Wile' });
+    const before = await getKVJson(`profile:${uuid}`);
+    const validate = (body: unknown) => SELF.fetch(createTestRequest('https://anchorid.net/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      ip: '198.51.100.198',
+    }));
+
+    const ok = await validate({ uuid, patch: { name: 'Wile E.', url: 'http://acme.example/#top' } });
+    expect(ok.status).toBe(200);
+    const okBody = await ok.json() as any;
+    expect(okBody).toMatchObject({ valid: true, errors: [], changed: true, changes: ['name', 'url'] });
+    expect(okBody.profile).toMatchObject({ '@id': `https://anchorid.net/resolve/${uuid}`, name: 'Wile E.', url: 'https://acme.example' });
+    expect(await getKVJson(`profile:${uuid}`)).toEqual(before);
+
+    const bad = await (await validate({ uuid, patch: { jobTitle: 'x'.repeat(101), email: 'nope' } })).json() as any;
+    expect(bad.valid).toBe(false);
+    expect(bad.errors).toEqual([
+      { field: 'email', reason: 'invalid_email' },
+      { field: 'jobTitle', reason: 'too_long' },
+    ]);
+
+    // No uuid: a new profile of the given type
+    const org = await (await validate({ '@type': 'Organization', patch: { name: 'Acme', legalName: 'Acme Corp.' } })).json() as any;
+    expect(org.profile).toMatchObject({ '@type': 'Organization', legalName: 'Acme Corp.' });
+
+    expect((await validate({ uuid: '11111111-2222-4333-8444-777777777777', patch: {} })).status).toBe(404);
+    expect((await validate({ uuid: 'nope', patch: {} })).status).toBe(400);
+    expect((await validate({ patch: 'name' })).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('Verification badge', () => {
+  const badge = (path: string, headers: Record<string, string> = {}) =>
+    SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { ip: '198.51.100.199', headers }));
+
+  it('parses options and escapes text', () => {
+    expect(parseBadgeOptions(new URLSearchParams('style=flat-square&size=large&type=GitHub')))
+      .toEqual({ style: 'flat-square', size: 'large', type: 'github' });
+    expect(parseBadgeOptions(new URLSearchParams('style=3d&size=huge&type=myspace'))).toEqual({ style: 'flat', size: 'small' });
+    expect(parseBadgeOptions(new URLSearchParams('type=social')).type).toBe('public');
+
+    const svg = renderBadgeSvg('AnchorID', '<Wile> & "Co"', true, { style: 'flat', size: 'small' });
+    expect(svg).toContain('&lt;Wile&gt; &amp; &quot;Co&quot;');
+    expect(svg).not.toContain('<Wile>');
+    expect(svg).toContain('height="20"');
+    expect(renderBadgeSvg('AnchorID', 'x', false, { style: 'flat-square', size: 'large' })).toContain('rx="0"');
+  });
+
+  it('counts verified claims and serves an embeddable, cacheable image', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Wile' });
+    const profile = await getKVJson(`profile:${uuid}`);
+    profile.dateModified = '2026-01-02T03:04:05Z';
+    await setKV(`profile:${uuid}`, JSON.stringify(profile));
+    await setKV(claimsKey(uuid), JSON.stringify([
+      {
+        id: 'website:acme.example', type: 'website', url: 'https://acme.example', status: 'verified',
+        proof: { kind: 'well_known', url: 'https://acme.example/.well-known/anchorid.txt', mustContain: uuid },
+        createdAt: '2026-03-01T00:00:00Z', updatedAt: '2026-03-04T05:06:07Z',
+      },
+      {
+        id: 'github:wile', type: 'github', url: 'https://github.com/wile', status: 'self_asserted',
+        proof: { kind: 'github_readme', url: 'https://raw.githubusercontent.com/wile/wile/main/README.md', mustContain: uuid },
+        createdAt: '2026-03-01T00:00:00Z', updatedAt: '2026-03-01T00:00:00Z',
+      },
+    ]));
+
+    const res = await badge(`/badge/${uuid}.svg`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('image/svg+xml; charset=utf-8');
+    expect(res.headers.get('cache-control')).toContain('max-age=300');
+    expect(res.headers.get('cross-origin-resource-policy')).toBe('cross-origin');
+    expect(res.headers.get('content-security-policy')).toContain("default-src 'none'");
+    expect(res.headers.get('x-frame-options')).toBeNull();
+    expect(res.headers.get('last-modified')).toBe('Wed, 04 Mar 2026 05:06:07 GMT');
+    const svg = await res.text();
+    expect(svg).toContain('Wile · 1 verified');
+    expect(svg).toContain('#2e9e57');
+
+    const etag = res.headers.get('etag')!;
+    expect((await badge(`/badge/${uuid}.svg`, { 'If-None-Match': etag })).status).toBe(304);
+
+    expect(await (await badge(`/badge/${uuid}.svg?type=github`)).text()).toContain('Wile · github unverified');
+    expect(await (await badge(`/badge/${uuid}.svg?type=website`)).text()).toContain('Wile · website verified');
+
+    const missing = await badge('/badge/11111111-2222-4333-8444-888888888888.svg');
+    expect(missing.status).toBe(404);
+    expect(await missing.text()).toContain('not found');
+    expect((await badge('/badge/nope.svg')).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('QR codes', () => {
+  it('matches the standard\'s Reed-Solomon, format and version vectors', () => {
+    // "HELLO WORLD" at 1-M, ISO/IEC 18004 worked example
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+    expect(formatBits('M', 0)).toBe(0x5412);
+    expect(formatBits('L', 4)).toBe(0b110011000101111);
+    expect(versionBits(7)).toBe(0x07c94);
+  });
+
+  it('picks the smallest version for the level and draws the fixed patterns', () => {
+    const url = 'https://anchorid.net/resolve/4ff7ed97-b78f-4ae6-9011-5af714ee241c';
+    expect(encodeQr(url, 'L').version).toBe(4);
+    expect(encodeQr(url, 'H').version).toBe(8);
+    expect(encodeQr('https://anchorid.net/4ff7ed97-b78f-4ae6-9011-5af714ee241c', 'M').version).toBe(4);
+
+    const qr = encodeQr(url, 'M');
+    expect(qr.size).toBe(37);
+    // Finder pattern top row, timing pattern, dark module
+    expect(qr.modules[0].slice(0, 8)).toEqual([true, true, true, true, true, true, true, false]);
+    expect(qr.modules[6].slice(8, 13)).toEqual([true, false, true, false, true]);
+    expect(qr.modules[qr.size - 8][8]).toBe(true);
+  });
+
+  it('parses options with defaults and clamped sizes', () => {
+    expect(parseQrOptions(new URLSearchParams(''))).toEqual({ ecc: 'M', size: 256, short: false });
+    expect(parseQrOptions(new URLSearchParams('ecc=h&size=9999&form=short'))).toEqual({ ecc: 'H', size: 2048, short: true });
+    expect(parseQrOptions(new URLSearchParams('ecc=Z&size=1')).size).toBe(64);
+  });
+
+  it('serves SVG and PNG for existing profiles only', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const qr = (path: string) => SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { ip: '198.51.100.200' }));
+
+    const svg = await qr(`/qr/${uuid}.svg?size=300`);
+    expect(svg.status).toBe(200);
+    expect(svg.headers.get('content-type')).toBe('image/svg+xml; charset=utf-8');
+    expect(svg.headers.get('cross-origin-resource-policy')).toBe('cross-origin');
+    expect(svg.headers.get('cache-control')).toContain('max-age=86400');
+    const body = await svg.text();
+    expect(body).toContain('width="300"');
+    expect(body).toContain('viewBox="0 0 45 45"'); // version 5 plus the quiet zone
+
+    const png = await qr(`/qr/${uuid}.png?ecc=L`);
+    expect(png.status).toBe(200);
+    expect(png.headers.get('content-type')).toBe('image/png');
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    expect([...bytes.slice(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    // IHDR width: version 4 (33 modules) + quiet zone = 41, 6 px each within 256
+    expect(new DataView(bytes.buffer).getUint32(16)).toBe(246);
+
+    expect((await qr('/qr/11111111-2222-4333-8444-999999999999.svg')).status).toBe(404);
+    expect((await qr('/qr/nope.png')).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('Social previews', () => {
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { ip: '198.51.100.201', headers }));
+
+  it('summarizes claims and escapes meta content', () => {
+    expect(verifiedSummary(0)).toBe('No verified claims yet');
+    expect(verifiedSummary(1, ['github'])).toBe('1 verified claim (github)');
+    expect(verifiedSummary(3, ['website', 'dns', 'website'])).toBe('3 verified claims (website, dns)');
+
+    const tags = socialMetaTags({
+      title: 'Wile "Genius" <Coyote>', description: 'x'.repeat(300), url: 'https://anchorid.net/resolve/x',
+      image: 'https://anchorid.net/og/x.png', imageAlt: 'alt', type: 'profile',
+    });
+    expect(tags).toContain('<meta property="og:title" content="Wile &quot;Genius&quot; &lt;Coyote&gt;" />');
+    expect(tags).toContain('<meta name="twitter:card" content="summary_large_image" />');
+    expect(/og:description" content="(x+…)"/.exec(tags)![1].length).toBeLessThanOrEqual(200);
+  });
+
+  it('adds Open Graph and Twitter tags to the identity and claims pages', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Wile' });
+    await setKV(claimsKey(uuid), JSON.stringify([{
+      id: 'github:wile', type: 'github', url: 'https://github.com/wile', status: 'verified',
+      proof: { kind: 'github_readme', url: 'https://raw.githubusercontent.com/wile/wile/main/README.md', mustContain: uuid },
+      createdAt: '2026-03-01T00:00:00Z', updatedAt: '2026-03-01T00:00:00Z', verifiedAt: '2026-03-01T00:00:00Z',
+    }]));
+
+    const profile = await (await get(`/resolve/${uuid}`, { Accept: 'text/html' })).text();
+    expect(profile).toContain('<meta property="og:title" content="Wile • AnchorID" />');
+    expect(profile).toContain(`<meta property="og:url" content="https://anchorid.net/resolve/${uuid}" />`);
+    expect(profile).toContain(`<meta property="og:image" content="https://anchorid.net/og/${uuid}.png" />`);
+    expect(profile).toContain('1 verified claim');
+
+    const claims = await (await get(`/claims/${uuid}`, { Accept: 'text/html' })).text();
+    expect(claims).toContain('<meta property="og:title" content="Wile • AnchorID claims" />');
+    expect(claims).toContain('1 verified claim (github)');
+    expect(claims).toContain('<meta name="twitter:image"');
+    await clearAllTestData();
+  });
+
+  it('renders the preview card as PNG and SVG', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Wile' });
+
+    const png = await get(`/og/${uuid}.png`);
+    expect(png.status).toBe(200);
+    expect(png.headers.get('content-type')).toBe('image/png');
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    expect([view.getUint32(16), view.getUint32(20)]).toEqual([1200, 630]);
+
+    const svg = await get(`/og/${uuid}.svg`);
+    expect(svg.headers.get('content-type')).toBe('image/svg+xml; charset=utf-8');
+    const body = await svg.text();
+    expect(body).toContain('>Wile</text>');
+    expect(body).toContain('No verified claims yet');
+
+    expect((await get('/og/11111111-2222-4333-8444-aaaaaaaaaaaa.png')).status).toBe(404);
+    await clearAllTestData();
+  });
+});
+
+describe('Change feeds', () => {
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { ip: '198.51.100.202', headers }));
+
+  it('diffs published fields only', () => {
+    expect(profileFieldChanges(
+      { name: 'Old', url: 'https://a.example', _email: 'a@example.com', dateModified: '2026-01-01T00:00:00Z' },
+      { name: 'New', description: 'Hi', _email: 'b@example.com', dateModified: '2026-02-01T00:00:00Z' },
+    )).toEqual([
+      { field: 'name', from: 'Old', to: 'New' },
+      { field: 'url', from: 'https://a.example' },
+      { field: 'description', to: 'Hi' },
+    ]);
+  });
+
+  it('publishes profile and claim events as Atom and JSON Feed', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Wile' });
+
+    const empty = await get(`/feed/${uuid}.json`);
+    expect(empty.status).toBe(200);
+    expect((await empty.json() as any).items).toEqual([]);
+
+    const token = await createLoginSession(uuid);
+    const csrf = 'feed-csrf-token';
+    const update = await SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token, _csrf: csrf, patch: { name: 'Wile E. Coyote', description: 'Genius' } }),
+      ip: '198.51.100.203',
+    }));
+    expect(update.status).toBe(200);
+
+    const claim = await SELF.fetch(createTestRequest('https://anchorid.net/claim', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, type: 'website', url: 'https://acme.example' }),
+      ip: '198.51.100.203',
+    }));
+    expect(claim.ok).toBe(true);
+    const del = await SELF.fetch(createTestRequest('https://anchorid.net/claim/delete', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, claimId: 'website:acme.example' }),
+      ip: '198.51.100.203',
+    }));
+    expect(del.status).toBe(200);
+
+    const res = await get(`/feed/${uuid}.json`);
+    expect(res.headers.get('content-type')).toBe('application/feed+json; charset=utf-8');
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+    const text = await res.text();
+    expect(text).not.toContain('198.51.100.203');
+    const feed = JSON.parse(text);
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.title).toBe('Wile E. Coyote • AnchorID changes');
+    expect(feed.items.map((i: any) => i._anchorid.type)).toEqual(['claim_deleted', 'claim_added', 'profile_updated']);
+    expect(feed.items[0].id).toBe(`https://anchorid.net/feed/${uuid}#event-3`);
+    expect(feed.items[1].title).toBe('Claim added: website https://acme.example');
+    expect(feed.items[2]._anchorid.changes).toEqual([
+      { field: 'name', from: 'Wile', to: 'Wile E. Coyote' },
+      { field: 'description', to: 'Genius' },
+    ]);
+    expect(feed.items[2].content_text).toContain('name: "Wile" → "Wile E. Coyote"');
+
+    const atom = await get(`/feed/${uuid}.atom`);
+    expect(atom.headers.get('content-type')).toBe('application/atom+xml; charset=utf-8');
+    expect(atom.headers.get('last-modified')).toBe(new Date(feed.items[0].date_published).toUTCString());
+    const xml = await atom.text();
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain(`<id>https://anchorid.net/feed/${uuid}#event-1</id>`);
+    expect(xml).toContain('<category term="claim_deleted"/>');
+    expect((await get(`/feed/${uuid}.atom`, { 'If-None-Match': atom.headers.get('etag')! })).status).toBe(304);
+
+    const html = await (await get(`/resolve/${uuid}`, { Accept: 'text/html' })).text();
+    expect(html).toContain(`<link rel="alternate" type="application/atom+xml" title="Changes to Wile E. Coyote" href="https://anchorid.net/feed/${uuid}.atom" />`);
+
+    expect((await get('/feed/11111111-2222-4333-8444-bbbbbbbbbbbb.json')).status).toBe(404);
+    expect((await get('/feed/nope.atom')).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('Global change stream', () => {
+  const changes = (query: string) =>
+    SELF.fetch(createTestRequest(`https://anchorid.net/changes${query}`, { ip: '198.51.100.204' }));
+  const plant = (tail: string, type = 'update') => {
+    const [at, uuid] = [tail.slice(0, 24), tail.slice(25, 61)];
+    return setKV(`changelog:${tail}`, JSON.stringify({ uuid, type, dateModified: at, at }));
+  };
+  const A = '11111111-2222-4333-8444-cccccccccccc';
+  const B = '11111111-2222-4333-8444-dddddddddddd';
+
+  it('parses cursors and dates', () => {
+    expect(parseSince(`2026-10-01T10:00:00.000Z:${A}:00ff`)).toBe(`2026-10-01T10:00:00.000Z:${A}:00ff`);
+    expect(parseSince('2026-10-01')).toBe('2026-10-01T00:00:00.000Z');
+    expect(parseSince('yesterday')).toBeNull();
+  });
+
+  it('pages across days in order and stops at the settle bound', async () => {
+    await clearAllTestData();
+    await plant(`2026-10-01T10:00:00.000Z:${A}:01`, 'create');
+    await plant(`2026-10-01T11:00:00.000Z:${B}:02`, 'claims');
+    await plant(`2026-10-03T09:00:00.000Z:${A}:03`);
+    await plant(`2026-10-03T12:00:00.000Z:${B}:04`);
+
+    const first = await readChanges(env, null, '2026-10-03T10:00:00.000Z', 2);
+    expect(first.changes.map((c) => [c.uuid, c.type])).toEqual([[A, 'create'], [B, 'claims']]);
+    expect(first.more).toBe(true);
+
+    const second = await readChanges(env, first.cursor, '2026-10-03T10:00:00.000Z', 2);
+    expect(second.changes.map((c) => c.at)).toEqual(['2026-10-03T09:00:00.000Z']);
+    // The 12:00 change is after the bound: left for the next read
+    expect(second).toMatchObject({ cursor: '2026-10-03T10:00:00.000Z', more: false });
+
+    const third = await readChanges(env, second.cursor, '2026-10-04T00:00:00.000Z', 10);
+    expect(third.changes.map((c) => c.uuid)).toEqual([B]);
+
+    // A long gap costs one probe per empty day, up to the per-request budget
+    const gap = await readChanges(env, '2026-06-01T00:00:00.000Z', '2026-10-04T00:00:00.000Z', 10);
+    expect(gap).toEqual({ changes: [], cursor: '2026-07-21T00:00:00.000Z', more: true });
+    await clearAllTestData();
+  });
+
+  it('resumes a busy hour from the KV list cursor', async () => {
+    await clearAllTestData();
+    for (let i = 1; i <= 5; i++) await plant(`2026-10-05T08:00:0${i}.000Z:${A}:0${i}`);
+    const bound = '2026-10-06T00:00:00.000Z';
+
+    const first = await readChanges(env, '2026-10-05T00:00:00.000Z', bound, 2);
+    expect(first.changes.map((c) => c.at.slice(17, 19))).toEqual(['01', '02']);
+    expect(first.cursor).toMatch(new RegExp(`^2026-10-05T08:00:02\\.000Z:${A}:02~.+`));
+    expect(parseSince(first.cursor)).toBe(first.cursor);
+
+    const second = await readChanges(env, first.cursor, bound, 2);
+    expect(second.changes.map((c) => c.at.slice(17, 19))).toEqual(['03', '04']);
+
+    // A stale KV cursor falls back to skipping by key
+    const stale = await readChanges(env, `${second.changes[1].cursor}~bogus`, bound, 10);
+    expect(stale.changes.map((c) => c.at.slice(17, 19))).toEqual(['05']);
+    expect(stale).toMatchObject({ cursor: bound, more: false });
+    await clearAllTestData();
+  });
+
+  it('logs profile and claim writes for /changes', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({ name: 'Wile' });
+    const token = await createLoginSession(uuid);
+    const csrf = 'changes-csrf-token';
+    await SELF.fetch(createTestRequest('https://anchorid.net/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Cookie': `anchor_csrf=${csrf}` },
+      body: JSON.stringify({ token, _csrf: csrf, patch: { name: 'Wile E.' } }),
+      ip: '198.51.100.205',
+    }));
+    await SELF.fetch(createTestRequest('https://anchorid.net/claim', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, type: 'website', url: 'https://acme.example' }),
+      ip: '198.51.100.205',
+    }));
+
+    const res = await changes('');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBe('*');
+    const page = await res.json() as any;
+    expect(page.changes.map((c: any) => [c.uuid, c.type])).toEqual([[uuid, 'update'], [uuid, 'claims']]);
+    const profile = await getKVJson(`profile:${uuid}`);
+    expect(page.changes[0].dateModified).toBe(profile.dateModified);
+    expect(page.more).toBe(false);
+    expect(page.next).toBe(`https://anchorid.net/changes?since=${encodeURIComponent(page.cursor)}`);
+
+    const rest = await (await changes(`?since=${encodeURIComponent(page.changes[0].cursor)}`)).json() as any;
+    expect(rest.changes.map((c: any) => c.type)).toEqual(['claims']);
+    expect((await changes('?since=soon')).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('Sitemaps', () => {
+  const get = (path: string) => SELF.fetch(createTestRequest(`https://anchorid.net${path}`, { ip: '198.51.100.206' }));
+  const seed = async (uuid: string, created: string, verified: boolean) => {
+    await setKV(`profile:${uuid}`, JSON.stringify({
+      '@type': 'Person', '@id': `https://anchorid.net/resolve/${uuid}`,
+      dateCreated: created, dateModified: created.replace('-01T', '-15T'),
+      ...(verified ? { _emailVerified: true } : {}),
+    }));
+  };
+  const OLD = '11111111-2222-4333-8444-eeeeeeeeeee1';
+  const NEW = '11111111-2222-4333-8444-eeeeeeeeeee2';
+  const UNVERIFIED = '11111111-2222-4333-8444-eeeeeeeeeee3';
+  const SUPERSEDED = '11111111-2222-4333-8444-eeeeeeeeeee4';
+
+  it('indexes static pages before the cron has run', async () => {
+    await clearAllTestData();
+    const xml = await (await get('/sitemap.xml')).text();
+    expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<loc>https://anchorid.net/sitemap-pages.xml</loc>');
+    expect(xml).not.toContain('sitemap-profiles-');
+    expect((await get('/sitemap-profiles-1.xml')).status).toBe(404);
+  });
+
+  it('lists verified, current profiles with lastmod', async () => {
+    await clearAllTestData();
+    await seed(NEW, '2026-05-01T00:00:00.000Z', true);
+    await seed(OLD, '2026-02-01T00:00:00.000Z', true);
+    await seed(UNVERIFIED, '2026-03-01T00:00:00.000Z', false);
+    await seed(SUPERSEDED, '2026-04-01T00:00:00.000Z', true);
+    await setKV(`succession:${SUPERSEDED}`, JSON.stringify({ supersededBy: NEW, at: '2026-05-02T00:00:00.000Z' }));
+
+    const index = await rebuildSitemap(env);
+    expect(index.profiles).toBe(2);
+    expect(index.pages).toEqual(['2026-05-15T00:00:00.000Z']);
+
+    const root = await (await get('/sitemap.xml')).text();
+    expect(root).toContain('<loc>https://anchorid.net/sitemap-profiles-1.xml</loc>\n    <lastmod>2026-05-15T00:00:00.000Z</lastmod>');
+
+    const res = await get('/sitemap-profiles-1.xml');
+    expect(res.headers.get('content-type')).toBe('application/xml; charset=utf-8');
+    const xml = await res.text();
+    const locs = [...xml.matchAll(/<loc>([^<]+)<\/loc>/g)].map((m) => m[1]);
+    expect(locs).toEqual([
+      `https://anchorid.net/resolve/${OLD}`, `https://anchorid.net/claims/${OLD}`,
+      `https://anchorid.net/resolve/${NEW}`, `https://anchorid.net/claims/${NEW}`,
+    ]);
+    expect(xml).toContain('<lastmod>2026-02-15T00:00:00.000Z</lastmod>');
+
+    // Pages beyond the new count are dropped on rebuild
+    await env.ANCHOR_KV.delete(`profile:${OLD}`);
+    await env.ANCHOR_KV.delete(`profile:${NEW}`);
+    expect((await rebuildSitemap(env)).pages).toEqual([]);
+    expect((await get('/sitemap-profiles-1.xml')).status).toBe(404);
+    expect((await get('/sitemap-profiles-0.xml')).status).toBe(404);
+    await clearAllTestData();
+  });
+
+  it('rebuilds from the cron even when an earlier step fails', async () => {
+    await clearAllTestData();
+    await seed(OLD, '2026-02-01T00:00:00.000Z', true);
+    await seed(NEW, '2026-03-01T00:00:00.000Z', true);
+    await seed(UNVERIFIED, '2026-01-01T00:00:00.000Z', false);
+    // A corrupt relation store makes the relations step throw
+    const old = await getKVJson(`profile:${OLD}`);
+    await setKV(`profile:${OLD}`, JSON.stringify({ ...old, affiliation: [{ '@id': `https://anchorid.net/resolve/${NEW}` }] }));
+    await setKV(`relations:${OLD}`, '{not json');
+
+    await worker.scheduled({} as ScheduledEvent, env, {} as ExecutionContext);
+    expect(await getKVJson(`profile:${UNVERIFIED}`)).toBeNull();
+    expect(await env.ANCHOR_KV.get(deletedTombstoneKey(UNVERIFIED))).toBeTruthy();
+    expect((await getKVJson('sitemap:index')).profiles).toBe(2);
+    await clearAllTestData();
+  });
+});
+
+describe('rel="me" website proof', () => {
+  const UUID = '4ff7ed97-b78f-4ae6-9011-5af714ee241c';
+  const RESOLVER = `https://anchorid.net/resolve/${UUID}`;
+
+  it('collects rel="me" links, resolving relative hrefs', () => {
+    const html = `<html><head>
+      <base href="https://cdn.example/site/">
+      <link rel="stylesheet" href="/style.css">
+      <LINK REL="Me" HREF="//anchorid.net/${UUID}">
+      <!-- <link rel="me" href="https://anchorid.net/resolve/commented-out"> -->
+      <script>document.write('<a rel="me" href="https://scripted.example">')</script>
+    </head><body>
+      <a href=profile rel='nofollow me noopener'>Me</a>
+      <a rel="home" href="https://home.example">Home</a>
+      <a rel="me" href="https://anchorid.net/resolve/x?a=1&amp;b=2">Entities</a>
+      <a rel="me">No href</a>
+    </body></html>`;
+    expect(extractRelMeLinks(html, 'https://acme.example/')).toEqual([
+      `https://anchorid.net/${UUID}`,
+      'https://cdn.example/site/profile',
+      'https://anchorid.net/resolve/x?a=1&b=2',
+    ]);
+    // Without <base>, relative links resolve against the page URL
+    expect(extractRelMeLinks('<a rel="me" href="../about">', 'https://acme.example/blog/post')).toEqual(['https://acme.example/about']);
+  });
+
+  it('accepts only links to the claimant\'s resolver URL or short form', () => {
+    expect(relMeLinksProveClaim([RESOLVER], RESOLVER)).toBe(true);
+    expect(relMeLinksProveClaim([`http://anchorid.net/${UUID.toUpperCase()}/`], RESOLVER)).toBe(true);
+    expect(relMeLinksProveClaim([`https://anchorid.net/resolve/${UUID}#me`], RESOLVER)).toBe(true);
+    expect(relMeLinksProveClaim([`https://acme.example/resolve/${UUID}`], RESOLVER)).toBe(false);
+    expect(relMeLinksProveClaim([`https://anchorid.net/resolve/${UUID}?x=1`], RESOLVER)).toBe(false);
+    expect(relMeLinksProveClaim(['https://anchorid.net/resolve/11111111-2222-4333-8444-555555555555'], RESOLVER)).toBe(false);
+    // Text mentioning the URL is not a link
+    expect(extractRelMeLinks(`<p rel="me">${RESOLVER}</p>`, 'https://acme.example/')).toEqual([]);
+  });
+
+  it('files a website claim with a home-page rel="me" proof', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const post = (body: Record<string, unknown>) => SELF.fetch(createTestRequest('https://anchorid.net/claim', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, type: 'website', ...body }),
+      ip: '198.51.100.207',
+    }));
+
+    const res = await post({ url: 'https://Acme.example/about', proof: 'rel_me' });
+    expect(res.status).toBe(200);
+    const { claim } = await res.json() as any;
+    expect(claim.id).toBe('website:acme.example');
+    expect(claim.url).toBe('https://acme.example');
+    expect(claim.proof).toEqual({ kind: 'rel_me', url: 'https://acme.example/', mustContain: `https://anchorid.net/resolve/${uuid}` });
+
+    expect((await post({ url: 'https://acme.example', proof: 'meta' })).status).toBe(400);
+    await clearAllTestData();
+  });
+});
+
+describe('Meta tag website proof', () => {
+  const UUID = '4ff7ed97-b78f-4ae6-9011-5af714ee241c';
+  const RESOLVER = `https://anchorid.net/resolve/${UUID}`;
+
+  it('reads anchorid meta tags from the head only', () => {
+    const html = `<!doctype html><html><head>
+      <meta charset="utf-8">
+      <META NAME="AnchorID" CONTENT=" urn:uuid:${UUID} ">
+      <!-- <meta name="anchorid" content="commented-out"> <body> -->
+      <meta name="description" content="urn:uuid:${UUID}">
+      <meta content='${RESOLVER}' name='anchorid'>
+    </head><body>
+      <meta name="anchorid" content="urn:uuid:in-body">
+    </body></html>`;
+    expect(extractAnchorIdMetaValues(html)).toEqual([`urn:uuid:${UUID}`, RESOLVER]);
+    // No </head> or <body>: a head-only fragment is read whole
+    expect(extractAnchorIdMetaValues('<meta name="anchorid" content="x">')).toEqual(['x']);
+  });
+
+  it('accepts the claimant\'s urn:uuid or resolver URL', () => {
+    expect(metaValuesProveClaim([`urn:uuid:${UUID.toUpperCase()}`], RESOLVER)).toBe(true);
+    expect(metaValuesProveClaim([`${RESOLVER}/`], RESOLVER)).toBe(true);
+    expect(metaValuesProveClaim([UUID], RESOLVER)).toBe(false);
+    expect(metaValuesProveClaim(['urn:uuid:11111111-2222-4333-8444-555555555555'], RESOLVER)).toBe(false);
+    expect(metaValuesProveClaim([`https://acme.example/resolve/${UUID}`], RESOLVER)).toBe(false);
+  });
+
+  it('files a website claim with a home-page meta tag proof', async () => {
+    await clearAllTestData();
+    const { uuid } = await createMockProfile({});
+    const res = await SELF.fetch(createTestRequest('https://anchorid.net/claim', {
+      method: 'POST',
+      headers: withAdminAuth(env, { 'Content-Type': 'application/json' }),
+      body: JSON.stringify({ uuid, type: 'website', url: 'https://acme.example/pricing', proof: 'meta_tag' }),
+      ip: '198.51.100.208',
+    }));
+    expect(res.status).toBe(200);
+    const { claim } = await res.json() as any;
+    expect(claim.id).toBe('website:acme.example');
+    expect(claim.proof).toEqual({ kind: 'meta_tag', url: 'https://acme.example/', mustContain: `https://anchorid.net/resolve/${uuid}` });
+    await clearAllTestData();
+  });
+});
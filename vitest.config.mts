@@ -22,6 +22,11 @@ export default defineWorkersConfig({
 						// Low rate limits for security tests (comments in security.spec.ts reference these)
 						IP_RESOLVE_RL_PER_HOUR: '5',
 						IP_CLAIMS_RL_PER_HOUR: '5',
+						// Batch resolve: small cap and a budget of two full batches
+						RESOLVE_BATCH_MAX: '5',
+						IP_RESOLVE_BATCH_RL_PER_HOUR: '10',
+						// /changes: no settle window, so a write shows up in the next read
+						CHANGES_SETTLE_SECONDS: '0',
 						IP_ADMIN_LOGIN_RL_PER_HOUR: '3',
 						IP_LOGIN_RL_PER_HOUR: '5',
 						IP_EDIT_RL_PER_HOUR: '5',
@@ -33,6 +38,10 @@ export default defineWorkersConfig({
 						// any real request reaches the X API.
 						X_API_BEARER_TOKEN: 'test-x-token',
 						X_API_RL_PER_HOUR: '0',
+						// Response signing: a throwaway Ed25519 key, plus one retired public
+						// key so the JWKS carries a rotation history
+						SIGNING_KEY: '{"kty":"OKP","crv":"Ed25519","d":"dRbryqy5UgEH5-UXQnE4d21Jblxm6t3BL1atTBVfIAc","x":"bJztSdffpG135tJw7s_2bzI3K7jB4ZHibh8tXSGtoeE"}',
+						SIGNING_KEYS_RETIRED: '[{"kty":"OKP","crv":"Ed25519","x":"0rN7I_uf6_3yJELdZstEyk_gtOess7wT2DN53vbfDs8"}]',
 					},
 				},
 			},